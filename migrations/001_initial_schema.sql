@@ -0,0 +1,194 @@
+-- Baseline schema. Idempotent, so databases created by the old ensureTablesExist or
+-- scripts/setup_db.sql converge on it as well.
+
+CREATE EXTENSION IF NOT EXISTS timescaledb;
+
+-- Create pool data table
+CREATE TABLE IF NOT EXISTS public.solana_pool_data (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    token_a_amount NUMERIC NOT NULL,
+    token_b_amount NUMERIC NOT NULL,
+    token_a_amount_raw NUMERIC,
+    token_b_amount_raw NUMERIC,
+    virtual_token_a_amount NUMERIC,
+    virtual_token_b_amount NUMERIC,
+    sqrt_price NUMERIC NOT NULL,
+    liquidity NUMERIC NOT NULL,
+    tick_current INTEGER NOT NULL,
+    fee_growth_global_a NUMERIC NOT NULL,
+    fee_growth_global_b NUMERIC NOT NULL,
+    fee_rate INTEGER,
+    protocol_fee_rate INTEGER,
+    venue TEXT NOT NULL DEFAULT 'orca',
+    PRIMARY KEY (timestamp, pool_address)
+);
+
+-- Create price data table
+CREATE TABLE IF NOT EXISTS public.solana_price_data (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    price NUMERIC NOT NULL,
+    volume_24h NUMERIC,
+    liquidity_usd NUMERIC,
+    token_a_price_usd NUMERIC,
+    token_b_price_usd NUMERIC,
+    PRIMARY KEY (timestamp, pool_address)
+);
+
+-- Create token price table
+CREATE TABLE IF NOT EXISTS public.solana_token_prices (
+    timestamp TIMESTAMPTZ NOT NULL,
+    token_mint TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    price_usd NUMERIC NOT NULL,
+    depth_usd NUMERIC,
+    route JSONB NOT NULL,
+    PRIMARY KEY (timestamp, token_mint)
+);
+
+-- Create ticks data table
+CREATE TABLE IF NOT EXISTS public.solana_ticks_data (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    tick_index INTEGER NOT NULL,
+    liquidity_net NUMERIC,
+    liquidity_gross NUMERIC,
+    fee_growth_outside_a NUMERIC,
+    fee_growth_outside_b NUMERIC,
+    PRIMARY KEY (timestamp, pool_address, tick_index)
+);
+
+-- Create fee-derived volume table
+CREATE TABLE IF NOT EXISTS public.solana_volume_data (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    interval_seconds NUMERIC NOT NULL,
+    fees_a NUMERIC NOT NULL,
+    fees_b NUMERIC NOT NULL,
+    volume_a NUMERIC NOT NULL,
+    volume_b NUMERIC NOT NULL,
+    fees_usd NUMERIC,
+    volume_usd NUMERIC,
+    PRIMARY KEY (timestamp, pool_address)
+);
+
+-- Create position history table
+CREATE TABLE IF NOT EXISTS public.solana_positions (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    position_address TEXT NOT NULL,
+    position_mint TEXT NOT NULL,
+    tick_lower INTEGER NOT NULL,
+    tick_upper INTEGER NOT NULL,
+    liquidity NUMERIC NOT NULL,
+    fee_growth_checkpoint_a NUMERIC NOT NULL,
+    fee_growth_checkpoint_b NUMERIC NOT NULL,
+    fee_owed_a NUMERIC NOT NULL,
+    fee_owed_b NUMERIC NOT NULL,
+    reward_growth_checkpoints NUMERIC[] NOT NULL,
+    reward_amounts_owed NUMERIC[] NOT NULL,
+    event TEXT NOT NULL,
+    PRIMARY KEY (timestamp, position_address)
+);
+
+-- Create wallet portfolio snapshot table
+CREATE TABLE IF NOT EXISTS public.solana_wallet_positions (
+    timestamp TIMESTAMPTZ NOT NULL,
+    owner TEXT NOT NULL,
+    pool_id TEXT NOT NULL,
+    pool_address TEXT NOT NULL,
+    position_address TEXT NOT NULL,
+    position_mint TEXT NOT NULL,
+    bundle_mint TEXT,
+    bundle_index INTEGER,
+    tick_lower INTEGER NOT NULL,
+    tick_upper INTEGER NOT NULL,
+    price_lower NUMERIC NOT NULL,
+    price_upper NUMERIC NOT NULL,
+    liquidity NUMERIC NOT NULL,
+    in_range BOOLEAN NOT NULL,
+    token_a_amount NUMERIC NOT NULL,
+    token_b_amount NUMERIC NOT NULL,
+    fees_a NUMERIC NOT NULL,
+    fees_b NUMERIC NOT NULL,
+    rewards JSONB NOT NULL,
+    value_usd NUMERIC,
+    fees_usd NUMERIC,
+    rewards_usd NUMERIC,
+    PRIMARY KEY (timestamp, position_address)
+);
+
+-- Create arbitrage opportunity table
+CREATE TABLE IF NOT EXISTS public.solana_arbitrage_opportunities (
+    timestamp TIMESTAMPTZ NOT NULL,
+    route TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    start_mint TEXT NOT NULL,
+    amount_in NUMERIC NOT NULL,
+    amount_out NUMERIC NOT NULL,
+    amount_in_usd NUMERIC NOT NULL,
+    profit_usd NUMERIC NOT NULL,
+    profit_pct NUMERIC NOT NULL,
+    legs JSONB NOT NULL,
+    snapshot_timestamps TIMESTAMPTZ[] NOT NULL,
+    PRIMARY KEY (timestamp, route)
+);
+
+-- Create alert history table
+CREATE TABLE IF NOT EXISTS public.solana_alerts (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    pool_name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    message TEXT NOT NULL,
+    change NUMERIC NOT NULL,
+    threshold NUMERIC NOT NULL,
+    reference_value NUMERIC NOT NULL,
+    current_value NUMERIC NOT NULL,
+    snapshot_timestamp TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (timestamp, pool_address, type)
+);
+
+-- Columns added to tables created before they were part of the schema
+ALTER TABLE public.solana_pool_data
+    ADD COLUMN IF NOT EXISTS token_a_amount_raw NUMERIC,
+    ADD COLUMN IF NOT EXISTS token_b_amount_raw NUMERIC,
+    ADD COLUMN IF NOT EXISTS virtual_token_a_amount NUMERIC,
+    ADD COLUMN IF NOT EXISTS virtual_token_b_amount NUMERIC,
+    ADD COLUMN IF NOT EXISTS fee_rate INTEGER,
+    ADD COLUMN IF NOT EXISTS protocol_fee_rate INTEGER,
+    ADD COLUMN IF NOT EXISTS venue TEXT NOT NULL DEFAULT 'orca';
+
+ALTER TABLE public.solana_price_data
+    ADD COLUMN IF NOT EXISTS token_a_price_usd NUMERIC,
+    ADD COLUMN IF NOT EXISTS token_b_price_usd NUMERIC;
+
+-- Create hypertables
+SELECT create_hypertable('solana_pool_data', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_price_data', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_ticks_data', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_token_prices', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_volume_data', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_positions', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_wallet_positions', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_arbitrage_opportunities', 'timestamp', if_not_exists => TRUE);
+SELECT create_hypertable('solana_alerts', 'timestamp', if_not_exists => TRUE);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_pool_data_pool_address ON public.solana_pool_data (pool_address, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_pool_data_venue ON public.solana_pool_data (venue, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_price_data_pool_address ON public.solana_price_data (pool_address, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_ticks_data_pool_address ON public.solana_ticks_data (pool_address, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_token_prices_token_mint ON public.solana_token_prices (token_mint, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_volume_data_pool_address ON public.solana_volume_data (pool_address, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_positions_pool_address ON public.solana_positions (pool_address, position_address, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_positions_owner ON public.solana_wallet_positions (owner, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_arbitrage_route ON public.solana_arbitrage_opportunities (route, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_alerts_pool_address ON public.solana_alerts (pool_address, timestamp DESC);
+
+-- setup_db.sql created these; create_hypertable already indexes timestamp DESC
+DROP INDEX IF EXISTS public.idx_pool_data_timestamp;
+DROP INDEX IF EXISTS public.idx_price_data_timestamp;
+DROP INDEX IF EXISTS public.idx_ticks_data_timestamp;
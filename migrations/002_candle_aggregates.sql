@@ -0,0 +1,145 @@
+-- migrate:no-transaction
+-- Continuous aggregates cannot be created inside a transaction, so each statement
+-- runs on its own. Adding an interval to CANDLE_CONFIG needs a migration like this one.
+
+-- OHLCV continuous aggregates: price and volume per pool at 1m, 5m, 1h and 1d
+-- (a continuous aggregate reads a single hypertable, so the two are joined at query time)
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_price_candles_1m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 minute', timestamp) AS bucket,
+    first(price, timestamp) AS open,
+    max(price) AS high,
+    min(price) AS low,
+    last(price, timestamp) AS close,
+    avg(liquidity_usd) AS avg_liquidity_usd,
+    count(*) AS samples
+FROM public.solana_price_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_volume_candles_1m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 minute', timestamp) AS bucket,
+    sum(volume_a) AS volume_a,
+    sum(volume_b) AS volume_b,
+    sum(volume_usd) AS volume_usd,
+    sum(fees_usd) AS fees_usd
+FROM public.solana_volume_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+SELECT add_continuous_aggregate_policy('solana_price_candles_1m',
+    start_offset => INTERVAL '1 hour', end_offset => INTERVAL '1 minute',
+    schedule_interval => INTERVAL '1 minute', if_not_exists => TRUE);
+SELECT add_continuous_aggregate_policy('solana_volume_candles_1m',
+    start_offset => INTERVAL '1 hour', end_offset => INTERVAL '1 minute',
+    schedule_interval => INTERVAL '1 minute', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_price_candles_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '5 minutes', timestamp) AS bucket,
+    first(price, timestamp) AS open,
+    max(price) AS high,
+    min(price) AS low,
+    last(price, timestamp) AS close,
+    avg(liquidity_usd) AS avg_liquidity_usd,
+    count(*) AS samples
+FROM public.solana_price_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_volume_candles_5m
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '5 minutes', timestamp) AS bucket,
+    sum(volume_a) AS volume_a,
+    sum(volume_b) AS volume_b,
+    sum(volume_usd) AS volume_usd,
+    sum(fees_usd) AS fees_usd
+FROM public.solana_volume_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+SELECT add_continuous_aggregate_policy('solana_price_candles_5m',
+    start_offset => INTERVAL '3 hours', end_offset => INTERVAL '5 minutes',
+    schedule_interval => INTERVAL '5 minutes', if_not_exists => TRUE);
+SELECT add_continuous_aggregate_policy('solana_volume_candles_5m',
+    start_offset => INTERVAL '3 hours', end_offset => INTERVAL '5 minutes',
+    schedule_interval => INTERVAL '5 minutes', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_price_candles_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 hour', timestamp) AS bucket,
+    first(price, timestamp) AS open,
+    max(price) AS high,
+    min(price) AS low,
+    last(price, timestamp) AS close,
+    avg(liquidity_usd) AS avg_liquidity_usd,
+    count(*) AS samples
+FROM public.solana_price_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_volume_candles_1h
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 hour', timestamp) AS bucket,
+    sum(volume_a) AS volume_a,
+    sum(volume_b) AS volume_b,
+    sum(volume_usd) AS volume_usd,
+    sum(fees_usd) AS fees_usd
+FROM public.solana_volume_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+SELECT add_continuous_aggregate_policy('solana_price_candles_1h',
+    start_offset => INTERVAL '2 days', end_offset => INTERVAL '1 hour',
+    schedule_interval => INTERVAL '30 minutes', if_not_exists => TRUE);
+SELECT add_continuous_aggregate_policy('solana_volume_candles_1h',
+    start_offset => INTERVAL '2 days', end_offset => INTERVAL '1 hour',
+    schedule_interval => INTERVAL '30 minutes', if_not_exists => TRUE);
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_price_candles_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 day', timestamp) AS bucket,
+    first(price, timestamp) AS open,
+    max(price) AS high,
+    min(price) AS low,
+    last(price, timestamp) AS close,
+    avg(liquidity_usd) AS avg_liquidity_usd,
+    count(*) AS samples
+FROM public.solana_price_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+CREATE MATERIALIZED VIEW IF NOT EXISTS public.solana_volume_candles_1d
+WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+SELECT
+    pool_address,
+    time_bucket(INTERVAL '1 day', timestamp) AS bucket,
+    sum(volume_a) AS volume_a,
+    sum(volume_b) AS volume_b,
+    sum(volume_usd) AS volume_usd,
+    sum(fees_usd) AS fees_usd
+FROM public.solana_volume_data
+GROUP BY pool_address, bucket
+WITH NO DATA;
+
+SELECT add_continuous_aggregate_policy('solana_price_candles_1d',
+    start_offset => INTERVAL '7 days', end_offset => INTERVAL '1 day',
+    schedule_interval => INTERVAL '1 hour', if_not_exists => TRUE);
+SELECT add_continuous_aggregate_policy('solana_volume_candles_1d',
+    start_offset => INTERVAL '7 days', end_offset => INTERVAL '1 day',
+    schedule_interval => INTERVAL '1 hour', if_not_exists => TRUE);
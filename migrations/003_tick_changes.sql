@@ -0,0 +1,25 @@
+-- Ticks are stored as the changes between snapshots, with periodic full checkpoints
+
+ALTER TABLE public.solana_ticks_data
+    ADD COLUMN IF NOT EXISTS removed BOOLEAN NOT NULL DEFAULT FALSE; -- tick left the fetched range, values are NULL
+
+-- One row per stored tick set, checkpoints hold every tick and the snapshots in
+-- between only the ticks that changed
+CREATE TABLE IF NOT EXISTS public.solana_tick_snapshots (
+    timestamp TIMESTAMPTZ NOT NULL,
+    pool_address TEXT NOT NULL,
+    checkpoint BOOLEAN NOT NULL,
+    tick_count INTEGER NOT NULL,
+    PRIMARY KEY (timestamp, pool_address)
+);
+
+SELECT create_hypertable('solana_tick_snapshots', 'timestamp', if_not_exists => TRUE);
+
+CREATE INDEX IF NOT EXISTS idx_tick_snapshots_pool_address ON public.solana_tick_snapshots (pool_address, checkpoint, timestamp DESC);
+
+-- Full snapshots written before the change log are checkpoints
+INSERT INTO public.solana_tick_snapshots (timestamp, pool_address, checkpoint, tick_count)
+SELECT timestamp, pool_address, TRUE, COUNT(*)
+FROM public.solana_ticks_data
+WHERE NOT EXISTS (SELECT 1 FROM public.solana_tick_snapshots)
+GROUP BY timestamp, pool_address;
@@ -0,0 +1,33 @@
+-- Downsample tick history to its checkpoints. Scheduled as a Timescale job with
+-- config {"older_than": "<interval>"} by the storage policies, see STORAGE_POLICIES.
+-- Changes are only dropped before the last checkpoint preceding the cutoff, so every
+-- snapshot that remains still rebuilds from its checkpoint.
+
+CREATE OR REPLACE PROCEDURE public.solana_downsample_ticks(job_id INTEGER, config JSONB)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    cutoff TIMESTAMPTZ := now() - (config->>'older_than')::INTERVAL;
+BEGIN
+    CREATE TEMPORARY TABLE downsample_boundary ON COMMIT DROP AS
+    SELECT pool_address, MAX(timestamp) AS timestamp
+    FROM public.solana_tick_snapshots
+    WHERE checkpoint
+        AND timestamp <= cutoff
+    GROUP BY pool_address;
+
+    DELETE FROM public.solana_ticks_data t
+    USING public.solana_tick_snapshots s, downsample_boundary b
+    WHERE s.timestamp = t.timestamp
+        AND s.pool_address = t.pool_address
+        AND NOT s.checkpoint
+        AND b.pool_address = t.pool_address
+        AND t.timestamp < b.timestamp;
+
+    DELETE FROM public.solana_tick_snapshots s
+    USING downsample_boundary b
+    WHERE NOT s.checkpoint
+        AND b.pool_address = s.pool_address
+        AND s.timestamp < b.timestamp;
+END
+$$;
@@ -57,8 +57,14 @@ mkdir -p src/config src/services src/utils tests scripts
 
 # Set up database
 echo "Setting up database..."
-if ! psql -U postgres -f scripts/setup_db.sql; then
-    echo "Error setting up database. Please check your PostgreSQL installation and permissions."
+if ! psql -U postgres -tc "SELECT 1 FROM pg_database WHERE datname = 'solana_pools'" | grep -q 1; then
+    if ! psql -U postgres -c "CREATE DATABASE solana_pools"; then
+        echo "Error creating database. Please check your PostgreSQL installation and permissions."
+        exit 1
+    fi
+fi
+if ! npm run migrate; then
+    echo "Error migrating database. Please check your .env and that TimescaleDB is installed."
     exit 1
 fi
 
@@ -0,0 +1,180 @@
+import { IPoolSnapshot } from '../services/source';
+import { POOLS, Venue } from '../config/pools';
+import { simulateSwap, tickIndexToSqrtPrice, sqrtPriceToPrice } from './swap';
+
+export type ArbitrageKind = 'direct' | 'triangular';
+
+export interface IArbitrageHop {
+  poolId: string;
+  tokenIn: string; // mint
+  tokenOut: string; // mint
+  aToB: boolean;
+}
+
+export interface IArbitrageCycle {
+  kind: ArbitrageKind;
+  startMint: string;
+  hops: IArbitrageHop[];
+}
+
+export interface IArbitrageLeg extends IArbitrageHop {
+  poolAddress: string;
+  venue: Venue;
+  snapshotTimestamp: Date;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpact: number; // relative move of the pool price
+}
+
+export interface IArbitrageResult {
+  cycle: IArbitrageCycle;
+  legs: IArbitrageLeg[];
+  amountIn: bigint; // raw start token
+  amountOut: bigint; // raw start token
+  profit: bigint;
+  profitPct: number;
+  filled: boolean; // false when a leg ran past the known ticks
+}
+
+/**
+ * Find every two-pool and three-pool loop over the snapshots' token pairs.
+ * Each loop is returned once per direction, starting at its highest-priority token;
+ * loops without any start-eligible token are skipped.
+ * @param snapshots Pool snapshots
+ * @param startPriority Mints that can start a loop, most preferred first
+ */
+export function findArbitrageCycles(snapshots: IPoolSnapshot[], startPriority: string[]): IArbitrageCycle[] {
+  const pools = snapshots.map(snapshot => ({
+    poolId: snapshot.poolId,
+    mintA: POOLS[snapshot.poolId].tokenA.address.toBase58(),
+    mintB: POOLS[snapshot.poolId].tokenB.address.toBase58()
+  }));
+  const cycles: IArbitrageCycle[] = [];
+
+  const addLoop = (kind: ArbitrageKind, loop: typeof pools, mints: string[]) => {
+    // mints[i] is held before loop[i]; pick the rotation starting at the preferred token
+    const start = startPriority.find(mint => mints.includes(mint));
+    if (!start) return;
+
+    for (const reverse of [false, true]) {
+      const orderedPools = reverse ? [...loop].reverse() : loop;
+      const orderedMints = reverse ? [mints[0], ...mints.slice(1).reverse()] : mints;
+      const offset = orderedMints.indexOf(start);
+
+      const hops = orderedPools.map((_, i) => {
+        const pool = orderedPools[(i + offset) % orderedPools.length];
+        const tokenIn = orderedMints[(i + offset) % orderedMints.length];
+        const tokenOut = tokenIn === pool.mintA ? pool.mintB : pool.mintA;
+        return { poolId: pool.poolId, tokenIn, tokenOut, aToB: tokenIn === pool.mintA };
+      });
+      cycles.push({ kind, startMint: start, hops });
+    }
+  };
+
+  for (let i = 0; i < pools.length; i++) {
+    for (let j = i + 1; j < pools.length; j++) {
+      const [p, q] = [pools[i], pools[j]];
+      if (samePair(p, q)) {
+        addLoop('direct', [p, q], [p.mintA, p.mintB]);
+      }
+
+      for (let k = j + 1; k < pools.length; k++) {
+        const r = pools[k];
+        const mints = [...new Set([p.mintA, p.mintB, q.mintA, q.mintB, r.mintA, r.mintB])];
+        if (mints.length !== 3 || samePair(p, q) || samePair(q, r) || samePair(p, r)) continue;
+
+        // Orient the triangle as p -> q -> r: enter p with the mint it does not share with q
+        const shared = [p.mintA, p.mintB].find(mint => mint === q.mintA || mint === q.mintB)!;
+        const first = shared === p.mintA ? p.mintB : p.mintA;
+        const third = q.mintA === shared ? q.mintB : q.mintA;
+        addLoop('triangular', [p, q, r], [first, shared, third]);
+      }
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Run an amount around a loop with exact-in swaps on each leg's snapshot.
+ * Every leg is capped at the edge of its snapshot's known ticks, so thin books
+ * show up as unfilled rather than as phantom profit.
+ * @param cycle Loop to evaluate
+ * @param snapshots Snapshots keyed by pool id
+ * @param amountIn Raw amount of the start token
+ */
+export function evaluateCycle(
+  cycle: IArbitrageCycle,
+  snapshots: Map<string, IPoolSnapshot>,
+  amountIn: bigint
+): IArbitrageResult {
+  const legs: IArbitrageLeg[] = [];
+  let amount = amountIn;
+  let filled = true;
+
+  for (const hop of cycle.hops) {
+    const snapshot = snapshots.get(hop.poolId);
+    if (!snapshot) {
+      throw new Error(`Snapshot not found for ${hop.poolId}`);
+    }
+
+    const { poolData, ticks } = snapshot;
+    const result = simulateSwap(poolData, ticks, {
+      amount,
+      aToB: hop.aToB,
+      exactIn: true,
+      sqrtPriceLimit: getKnownPriceLimit(snapshot, hop.aToB)
+    });
+
+    const startPrice = sqrtPriceToPrice(result.startSqrtPrice);
+    legs.push({
+      ...hop,
+      poolAddress: poolData.poolAddress,
+      venue: poolData.venue,
+      snapshotTimestamp: poolData.timestamp,
+      amountIn: result.amountIn,
+      amountOut: result.amountOut,
+      feeAmount: result.feeAmount,
+      priceImpact: startPrice > 0 ? Math.abs(sqrtPriceToPrice(result.endSqrtPrice) / startPrice - 1) : 0
+    });
+
+    filled = filled && result.amountRemaining === 0n;
+    amount = result.amountOut;
+  }
+
+  const profit = amount - amountIn;
+  return {
+    cycle,
+    legs,
+    amountIn,
+    amountOut: amount,
+    profit,
+    profitPct: amountIn > 0n ? Number(profit) / Number(amountIn) : 0,
+    filled
+  };
+}
+
+function samePair(p: { mintA: string; mintB: string }, q: { mintA: string; mintB: string }): boolean {
+  return (p.mintA === q.mintA && p.mintB === q.mintB) || (p.mintA === q.mintB && p.mintB === q.mintA);
+}
+
+/**
+ * Sqrt price at the outermost known tick in the swap direction
+ */
+function getKnownPriceLimit(snapshot: IPoolSnapshot, aToB: boolean): bigint {
+  const { poolData, ticks } = snapshot;
+  const indexes = ticks.map(tick => tick.tickIndex);
+  const edge = aToB
+    ? Math.min(...indexes.filter(index => index <= poolData.tickCurrent))
+    : Math.max(...indexes.filter(index => index > poolData.tickCurrent));
+
+  // No ticks on that side: nothing beyond the current price is known
+  if (!Number.isFinite(edge)) return poolData.sqrtPrice;
+
+  const limit = tickIndexToSqrtPrice(edge);
+  if (aToB) {
+    return limit < poolData.sqrtPrice ? limit : poolData.sqrtPrice;
+  }
+  return limit > poolData.sqrtPrice ? limit : poolData.sqrtPrice;
+}
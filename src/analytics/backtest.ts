@@ -0,0 +1,91 @@
+import { IPoolData } from '../services/source';
+import { IPoolConfig } from '../config/pools';
+import { ITickRange, RangeSpec, resolveTickRange } from './fees';
+
+export type BacktestStrategy =
+  // One range for the whole run
+  | { type: 'fixed'; range: RangeSpec }
+  // ± percent around the price, re-centered once the price has moved `trigger` of the
+  // half-width away from the centre (1 = when it leaves the range)
+  | { type: 'recenter'; percent: number; trigger: number }
+  // ± multiplier standard deviations of the price over `lookback` ms, re-centered like above
+  | { type: 'volatility'; lookback: number; multiplier: number; minPercent: number; trigger: number };
+
+/**
+ * Range a strategy opens at a snapshot
+ * @param strategy Strategy being run
+ * @param history Snapshots up to and including the current one, ascending
+ * @param poolConfig Pool configuration
+ */
+export function getStrategyRange(
+  strategy: BacktestStrategy,
+  history: IPoolData[],
+  poolConfig: IPoolConfig
+): ITickRange {
+  const current = history[history.length - 1];
+
+  switch (strategy.type) {
+    case 'fixed':
+      return resolveTickRange(strategy.range, current, poolConfig);
+    case 'recenter':
+      return resolveTickRange({ percent: strategy.percent }, current, poolConfig);
+    case 'volatility': {
+      const since = current.timestamp.getTime() - strategy.lookback;
+      const window = history.filter(snapshot => snapshot.timestamp.getTime() >= since);
+      const percent = Math.max(strategy.minPercent, strategy.multiplier * getVolatility(window));
+      return resolveTickRange({ percent: Math.min(percent, 0.99) }, current, poolConfig);
+    }
+  }
+}
+
+/**
+ * Whether a strategy re-centers its range at a snapshot
+ */
+export function shouldRebalance(strategy: BacktestStrategy, snapshot: IPoolData, range: ITickRange): boolean {
+  if (strategy.type === 'fixed') {
+    return false;
+  }
+
+  const centre = (range.tickLower + range.tickUpper) / 2;
+  const halfWidth = (range.tickUpper - range.tickLower) / 2;
+  return Math.abs(snapshot.tickCurrent - centre) >= strategy.trigger * halfWidth;
+}
+
+/**
+ * Volatility of the price over a window of snapshots: the standard deviation of
+ * log returns between snapshots, scaled by the square root of the number of steps
+ */
+export function getVolatility(window: IPoolData[]): number {
+  const returns: number[] = [];
+  for (let i = 1; i < window.length; i++) {
+    if (window[i - 1].price > 0 && window[i].price > 0) {
+      returns.push(Math.log(window[i].price / window[i - 1].price));
+    }
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * returns.length);
+}
+
+/**
+ * Short label for reports, e.g. `recenter ±5% @100%`
+ */
+export function describeStrategy(strategy: BacktestStrategy): string {
+  const pct = (value: number) => `${+(value * 100).toFixed(2)}%`;
+  switch (strategy.type) {
+    case 'fixed': {
+      const range = strategy.range;
+      if ('percent' in range) return `fixed ±${pct(range.percent)}`;
+      if ('priceLower' in range) return `fixed ${range.priceLower}-${range.priceUpper}`;
+      return `fixed [${range.tickLower}, ${range.tickUpper}]`;
+    }
+    case 'recenter':
+      return `recenter ±${pct(strategy.percent)} @${pct(strategy.trigger)}`;
+    case 'volatility':
+      return `volatility ${strategy.multiplier}σ/${strategy.lookback / 3600000}h @${pct(strategy.trigger)}`;
+  }
+}
@@ -0,0 +1,323 @@
+import { IPoolData, ITickData } from '../services/source';
+import { IPoolConfig } from '../config/pools';
+import {
+  MIN_TICK_INDEX,
+  MAX_TICK_INDEX,
+  MIN_SQRT_PRICE,
+  MAX_SQRT_PRICE,
+  getAmountDeltaA,
+  getAmountDeltaB,
+  sqrtPriceToPrice,
+  sqrtPriceToTickIndex,
+  tickIndexToSqrtPrice
+} from './swap';
+
+const U128 = 1n << 128n;
+const Q64_FLOAT = 2 ** 64;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Reference position size, chosen so that fees in base units equal the fee growth delta
+export const REFERENCE_LIQUIDITY = 1n << 64n;
+
+export type RangeSpec =
+  | { tickLower: number; tickUpper: number }
+  | { priceLower: number; priceUpper: number } // decimal-adjusted, token B per token A
+  | { percent: number }; // ± around the entry price, as a fraction
+
+export interface ITickRange {
+  tickLower: number;
+  tickUpper: number;
+}
+
+export interface IFeeGrowth {
+  a: bigint; // Q64.64
+  b: bigint;
+}
+
+export interface IRangeFees extends ITickRange {
+  poolAddress: string;
+  priceLower: number;
+  priceUpper: number;
+  entry: Date; // first snapshot in the window
+  exit: Date; // last snapshot in the window
+  windowSeconds: number;
+  timeInRange: number; // share of the window the price spent inside the range
+  exactBounds: boolean; // false when a bound's fee growth was reconstructed from snapshots
+  feeGrowthInsideA: bigint; // Q64.64 fees per unit of liquidity over the window
+  feeGrowthInsideB: bigint;
+  depositA: number; // decimal-adjusted tokens per unit of liquidity at entry
+  depositB: number;
+  feesA: number; // decimal-adjusted fees per unit of liquidity
+  feesB: number;
+  depositValue: number; // in token B at the entry price
+  feesValue: number; // in token B at the exit price
+  return: number; // fees over capital at entry
+  apr: number; // return annualized over the window
+  aprUsd?: number; // same, valued in USD when both snapshots are priced
+}
+
+/**
+ * Convert a range spec into tick-spacing aligned bounds, widening outwards
+ * @param range Tick, price or percent range
+ * @param entry Snapshot the percent range is centred on
+ * @param poolConfig Pool configuration, for decimals and tick spacing
+ */
+export function resolveTickRange(range: RangeSpec, entry: IPoolData, poolConfig: IPoolConfig): ITickRange {
+  let tickLower: number;
+  let tickUpper: number;
+
+  if ('tickLower' in range) {
+    ({ tickLower, tickUpper } = range);
+  } else {
+    const [priceLower, priceUpper] = 'percent' in range
+      ? [entry.price * (1 - range.percent), entry.price * (1 + range.percent)]
+      : [range.priceLower, range.priceUpper];
+    tickLower = priceToTickIndex(priceLower, poolConfig);
+    tickUpper = priceToTickIndex(priceUpper, poolConfig);
+  }
+
+  const spacing = poolConfig.tickSpacing;
+  const minTick = Math.ceil(MIN_TICK_INDEX / spacing) * spacing;
+  const maxTick = Math.floor(MAX_TICK_INDEX / spacing) * spacing;
+  const aligned = {
+    tickLower: Math.max(minTick, Math.floor(tickLower / spacing) * spacing),
+    tickUpper: Math.min(maxTick, Math.ceil(tickUpper / spacing) * spacing)
+  };
+  if (aligned.tickLower >= aligned.tickUpper) {
+    throw new Error(`Invalid range: lower tick ${aligned.tickLower} must be below upper tick ${aligned.tickUpper}`);
+  }
+  return aligned;
+}
+
+/**
+ * Growth inside a tick range, as in the Whirlpool program: global growth minus the
+ * growth recorded outside each bound, wrapping around u128. Applies to fee and
+ * reward growth alike.
+ */
+export function getGrowthInside(
+  tickCurrent: number,
+  range: ITickRange,
+  global: bigint,
+  lowerOutside: bigint,
+  upperOutside: bigint
+): bigint {
+  const below = tickCurrent < range.tickLower ? global - lowerOutside : lowerOutside;
+  const above = tickCurrent < range.tickUpper ? upperOutside : global - upperOutside;
+  return ((global - below - above) % U128 + U128) % U128;
+}
+
+/**
+ * Fee growth inside a tick range for both tokens
+ */
+export function getFeeGrowthInside(
+  pool: Pick<IPoolData, 'tickCurrent' | 'feeGrowthGlobalA' | 'feeGrowthGlobalB'>,
+  range: ITickRange,
+  lowerOutside: IFeeGrowth,
+  upperOutside: IFeeGrowth
+): IFeeGrowth {
+  return {
+    a: getGrowthInside(pool.tickCurrent, range, pool.feeGrowthGlobalA, lowerOutside.a, upperOutside.a),
+    b: getGrowthInside(pool.tickCurrent, range, pool.feeGrowthGlobalB, lowerOutside.b, upperOutside.b)
+  };
+}
+
+/**
+ * Fees a range would have earned between the first and last snapshot of a series,
+ * expressed per unit of liquidity and as APR on the capital deposited at entry.
+ * A bound that is an initialized tick in both tick snapshots uses its recorded
+ * feeGrowthOutside. Any other bound is treated as a tick initialized at entry and
+ * flipped each time the snapshot series crosses it, which attributes fees to the
+ * wrong side for at most one snapshot interval per crossing.
+ * @param series Pool snapshots in ascending time order
+ * @param entryTicks Ticks recorded with the first snapshot
+ * @param exitTicks Ticks recorded with the last snapshot
+ * @param range Tick-spacing aligned range
+ * @param poolConfig Pool configuration, for decimals
+ */
+export function computeRangeFees(
+  series: IPoolData[],
+  entryTicks: ITickData[],
+  exitTicks: ITickData[],
+  range: ITickRange,
+  poolConfig: IPoolConfig
+): IRangeFees {
+  if (series.length < 2) {
+    throw new Error('At least two snapshots are needed to measure fees');
+  }
+
+  const entry = series[0];
+  const exit = series[series.length - 1];
+  const windowSeconds = (exit.timestamp.getTime() - entry.timestamp.getTime()) / 1000;
+  const { decimals: decimalsA } = poolConfig.tokenA;
+  const { decimals: decimalsB } = poolConfig.tokenB;
+
+  const lower = trackTickOutside(range.tickLower, series, entryTicks, exitTicks);
+  const upper = trackTickOutside(range.tickUpper, series, entryTicks, exitTicks);
+  const insideEntry = getFeeGrowthInside(entry, range, lower.entry, upper.entry);
+  const insideExit = getFeeGrowthInside(exit, range, lower.exit, upper.exit);
+  const feeGrowthInsideA = (insideExit.a - insideEntry.a + U128) % U128;
+  const feeGrowthInsideB = (insideExit.b - insideEntry.b + U128) % U128;
+
+  // Capital for the reference position at the entry price
+  const deposit = getDepositAmounts(entry.sqrtPrice, range, REFERENCE_LIQUIDITY);
+  const depositA = Number(deposit.a) / 10 ** decimalsA;
+  const depositB = Number(deposit.b) / 10 ** decimalsB;
+  const feesA = Number(feeGrowthInsideA * REFERENCE_LIQUIDITY >> 64n) / 10 ** decimalsA;
+  const feesB = Number(feeGrowthInsideB * REFERENCE_LIQUIDITY >> 64n) / 10 ** decimalsB;
+
+  const depositValue = depositA * entry.price + depositB;
+  const feesValue = feesA * exit.price + feesB;
+  const periodReturn = depositValue > 0 ? feesValue / depositValue : 0;
+  const annualize = windowSeconds > 0 ? SECONDS_PER_YEAR / windowSeconds : 0;
+
+  let aprUsd: number | undefined;
+  if (entry.tokenAPriceUsd && entry.tokenBPriceUsd && exit.tokenAPriceUsd && exit.tokenBPriceUsd) {
+    const depositUsd = depositA * entry.tokenAPriceUsd + depositB * entry.tokenBPriceUsd;
+    const feesUsd = feesA * exit.tokenAPriceUsd + feesB * exit.tokenBPriceUsd;
+    aprUsd = depositUsd > 0 ? feesUsd / depositUsd * annualize : 0;
+  }
+
+  return {
+    poolAddress: entry.poolAddress,
+    ...range,
+    priceLower: sqrtPriceToPrice(tickIndexToSqrtPrice(range.tickLower), decimalsA, decimalsB),
+    priceUpper: sqrtPriceToPrice(tickIndexToSqrtPrice(range.tickUpper), decimalsA, decimalsB),
+    entry: entry.timestamp,
+    exit: exit.timestamp,
+    windowSeconds,
+    timeInRange: getTimeInRange(series, range),
+    exactBounds: lower.exact && upper.exact,
+    feeGrowthInsideA,
+    feeGrowthInsideB,
+    depositA: depositA / Number(REFERENCE_LIQUIDITY),
+    depositB: depositB / Number(REFERENCE_LIQUIDITY),
+    feesA: feesA / Number(REFERENCE_LIQUIDITY),
+    feesB: feesB / Number(REFERENCE_LIQUIDITY),
+    depositValue: depositValue / Number(REFERENCE_LIQUIDITY),
+    feesValue: feesValue / Number(REFERENCE_LIQUIDITY),
+    return: periodReturn,
+    apr: periodReturn * annualize,
+    aprUsd
+  };
+}
+
+/**
+ * feeGrowthOutside of a bound when a position is opened: the recorded value if the
+ * tick was initialized in the tick snapshot taken with the pool snapshot, otherwise
+ * the program's initialization convention that all growth so far happened below
+ * the current tick
+ */
+export function initTickOutside(tickIndex: number, snapshot: IPoolData, ticks: ITickData[]): IFeeGrowth {
+  const tick = ticks.find(tick =>
+    tick.tickIndex === tickIndex && tick.timestamp.getTime() === snapshot.timestamp.getTime()
+  );
+  if (tick) {
+    return { a: tick.feeGrowthOutsideA, b: tick.feeGrowthOutsideB };
+  }
+  return snapshot.tickCurrent >= tickIndex
+    ? { a: snapshot.feeGrowthGlobalA, b: snapshot.feeGrowthGlobalB }
+    : { a: 0n, b: 0n };
+}
+
+/**
+ * Flip feeGrowthOutside if the price crossed the tick between two snapshots,
+ * as the program does on every crossing, using the later snapshot's global growth
+ */
+export function crossTickOutside(
+  tickIndex: number,
+  outside: IFeeGrowth,
+  previous: IPoolData,
+  current: IPoolData
+): IFeeGrowth {
+  if ((previous.tickCurrent >= tickIndex) === (current.tickCurrent >= tickIndex)) {
+    return outside;
+  }
+  return {
+    a: (current.feeGrowthGlobalA - outside.a + U128) % U128,
+    b: (current.feeGrowthGlobalB - outside.b + U128) % U128
+  };
+}
+
+/**
+ * feeGrowthOutside of a bound at the first and last snapshot
+ */
+function trackTickOutside(
+  tickIndex: number,
+  series: IPoolData[],
+  entryTicks: ITickData[],
+  exitTicks: ITickData[]
+): { entry: IFeeGrowth; exit: IFeeGrowth; exact: boolean } {
+  const entryTick = entryTicks.find(tick => tick.tickIndex === tickIndex);
+  const exitTick = exitTicks.find(tick => tick.tickIndex === tickIndex);
+  if (entryTick && exitTick) {
+    return {
+      entry: { a: entryTick.feeGrowthOutsideA, b: entryTick.feeGrowthOutsideB },
+      exit: { a: exitTick.feeGrowthOutsideA, b: exitTick.feeGrowthOutsideB },
+      exact: true
+    };
+  }
+
+  const entry = initTickOutside(tickIndex, series[0], []);
+  let outside = entry;
+  for (let i = 1; i < series.length; i++) {
+    outside = crossTickOutside(tickIndex, outside, series[i - 1], series[i]);
+  }
+
+  return { entry, exit: outside, exact: false };
+}
+
+/**
+ * Token amounts backing a liquidity amount over a range at a given price,
+ * rounded up as for a deposit or down as for a withdrawal
+ */
+export function getDepositAmounts(
+  sqrtPrice: bigint,
+  range: ITickRange,
+  liquidity: bigint,
+  roundUp: boolean = true
+): IFeeGrowth {
+  const sqrtLower = tickIndexToSqrtPrice(range.tickLower);
+  const sqrtUpper = tickIndexToSqrtPrice(range.tickUpper);
+
+  if (sqrtPrice <= sqrtLower) {
+    return { a: getAmountDeltaA(sqrtLower, sqrtUpper, liquidity, roundUp), b: 0n };
+  }
+  if (sqrtPrice >= sqrtUpper) {
+    return { a: 0n, b: getAmountDeltaB(sqrtLower, sqrtUpper, liquidity, roundUp) };
+  }
+  return {
+    a: getAmountDeltaA(sqrtPrice, sqrtUpper, liquidity, roundUp),
+    b: getAmountDeltaB(sqrtLower, sqrtPrice, liquidity, roundUp)
+  };
+}
+
+/**
+ * Share of the series duration whose interval started with the price in range
+ */
+function getTimeInRange(series: IPoolData[], range: ITickRange): number {
+  let inRange = 0;
+  let total = 0;
+  for (let i = 1; i < series.length; i++) {
+    const duration = series[i].timestamp.getTime() - series[i - 1].timestamp.getTime();
+    const tick = series[i - 1].tickCurrent;
+    total += duration;
+    if (tick >= range.tickLower && tick < range.tickUpper) {
+      inRange += duration;
+    }
+  }
+  return total > 0 ? inRange / total : 0;
+}
+
+/**
+ * Tick at a decimal-adjusted price, clamped to the valid range
+ */
+export function priceToTickIndex(price: number, poolConfig: IPoolConfig): number {
+  if (!(price > 0)) {
+    return MIN_TICK_INDEX;
+  }
+  const raw = price / 10 ** (poolConfig.tokenA.decimals - poolConfig.tokenB.decimals);
+  const sqrtPrice = BigInt(Math.floor(Math.sqrt(raw) * Q64_FLOAT));
+  if (sqrtPrice <= MIN_SQRT_PRICE) return MIN_TICK_INDEX;
+  if (sqrtPrice >= MAX_SQRT_PRICE) return MAX_TICK_INDEX;
+  return sqrtPriceToTickIndex(sqrtPrice);
+}
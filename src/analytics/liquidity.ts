@@ -0,0 +1,240 @@
+import { IPoolData, ITickData } from '../services/source';
+import { IPoolConfig } from '../config/pools';
+
+const Q64_FLOAT = 2 ** 64;
+
+export interface ILiquiditySegment {
+  tickLower: number;
+  tickUpper: number;
+  sqrtPriceLower: number; // sqrt of the raw price (token B base units per token A base unit)
+  sqrtPriceUpper: number;
+  liquidity: bigint;
+}
+
+export interface ILiquidityCurve {
+  poolAddress: string;
+  timestamp: Date;
+  tickCurrent: number;
+  sqrtPrice: number;
+  decimalsA: number;
+  decimalsB: number;
+  segments: ILiquiditySegment[]; // ascending, contiguous
+}
+
+export interface IDepth {
+  percent: number;
+  // Token A the pool gives out and token B it takes in while price rises by percent
+  upside: { tokenA: number; tokenB: number };
+  // Token A the pool takes in and token B it gives out while price falls by percent
+  downside: { tokenA: number; tokenB: number };
+}
+
+export type TradeSide = 'buy' | 'sell'; // buying or selling token A
+export type TradeToken = 'A' | 'B';
+
+export interface IPriceImpact {
+  side: TradeSide;
+  amountIn: number;
+  amountOut: number;
+  startPrice: number;
+  endPrice: number;
+  averagePrice: number;
+  priceImpact: number; // relative move of the pool price
+  slippage: number; // relative distance of the execution price from the start price
+  filled: boolean; // false when the known liquidity ran out first
+}
+
+/**
+ * Rebuild the active-liquidity step function around the current tick.
+ * The pool's active liquidity anchors the current segment, and liquidityNet is
+ * added when crossing a tick upwards and subtracted when crossing downwards.
+ * The curve only spans the ticks present in the snapshot.
+ * @param pool Pool snapshot
+ * @param ticks Initialized ticks from the same snapshot
+ * @param poolConfig Pool configuration, for token decimals
+ */
+export function buildLiquidityCurve(pool: IPoolData, ticks: ITickData[], poolConfig: IPoolConfig): ILiquidityCurve {
+  const sorted = [...ticks].sort((a, b) => a.tickIndex - b.tickIndex);
+  const above = sorted.filter(tick => tick.tickIndex > pool.tickCurrent);
+  const below = sorted.filter(tick => tick.tickIndex <= pool.tickCurrent).reverse();
+
+  const upper: ILiquiditySegment[] = [];
+  let liquidity = pool.liquidity;
+  let boundary = below.length ? below[0].tickIndex : pool.tickCurrent;
+  for (const tick of above) {
+    upper.push(createSegment(boundary, tick.tickIndex, liquidity));
+    liquidity += tick.liquidityNet;
+    boundary = tick.tickIndex;
+  }
+
+  const lower: ILiquiditySegment[] = [];
+  liquidity = pool.liquidity;
+  for (let i = 0; i < below.length - 1; i++) {
+    liquidity -= below[i].liquidityNet;
+    lower.unshift(createSegment(below[i + 1].tickIndex, below[i].tickIndex, liquidity));
+  }
+
+  return {
+    poolAddress: pool.poolAddress,
+    timestamp: pool.timestamp,
+    tickCurrent: pool.tickCurrent,
+    sqrtPrice: Number(pool.sqrtPrice) / Q64_FLOAT,
+    decimalsA: poolConfig.tokenA.decimals,
+    decimalsB: poolConfig.tokenB.decimals,
+    segments: [...lower, ...upper]
+  };
+}
+
+/**
+ * Active liquidity at a tick, or 0n outside the known range
+ */
+export function getLiquidityAtTick(curve: ILiquidityCurve, tickIndex: number): bigint {
+  const segment = curve.segments.find(s => s.tickLower <= tickIndex && tickIndex < s.tickUpper);
+  return segment ? segment.liquidity : 0n;
+}
+
+/**
+ * Token depth within ±percent of the current price
+ * @param curve Liquidity curve
+ * @param percent Price move as a fraction, e.g. 0.02 for 2%
+ */
+export function getDepth(curve: ILiquidityCurve, percent: number): IDepth {
+  const upTarget = curve.sqrtPrice * Math.sqrt(1 + percent);
+  const downTarget = curve.sqrtPrice * Math.sqrt(Math.max(0, 1 - percent));
+
+  let upA = 0;
+  let upB = 0;
+  let downA = 0;
+  let downB = 0;
+
+  for (const segment of curve.segments) {
+    const l = Number(segment.liquidity);
+
+    const upLow = Math.max(segment.sqrtPriceLower, curve.sqrtPrice);
+    const upHigh = Math.min(segment.sqrtPriceUpper, upTarget);
+    if (upHigh > upLow) {
+      upA += l * (1 / upLow - 1 / upHigh);
+      upB += l * (upHigh - upLow);
+    }
+
+    const downLow = Math.max(segment.sqrtPriceLower, downTarget);
+    const downHigh = Math.min(segment.sqrtPriceUpper, curve.sqrtPrice);
+    if (downHigh > downLow) {
+      downA += l * (1 / downLow - 1 / downHigh);
+      downB += l * (downHigh - downLow);
+    }
+  }
+
+  return {
+    percent,
+    upside: { tokenA: upA / 10 ** curve.decimalsA, tokenB: upB / 10 ** curve.decimalsB },
+    downside: { tokenA: downA / 10 ** curve.decimalsA, tokenB: downB / 10 ** curve.decimalsB }
+  };
+}
+
+/**
+ * Price impact of a trade walked across the liquidity curve.
+ * Selling A moves the price down, buying A moves it up. The amount is the input
+ * when it is denominated in the token paid in, otherwise the exact output.
+ * @param curve Liquidity curve
+ * @param side Whether token A is bought or sold
+ * @param amount Decimal-adjusted trade size
+ * @param amountToken Token the amount is denominated in
+ * @param feeRate Swap fee as a fraction, applied on the input
+ */
+export function getPriceImpact(
+  curve: ILiquidityCurve,
+  side: TradeSide,
+  amount: number,
+  amountToken: TradeToken,
+  feeRate: number = 0
+): IPriceImpact {
+  const scaleA = 10 ** curve.decimalsA;
+  const scaleB = 10 ** curve.decimalsB;
+  const down = side === 'sell';
+  const exactIn = (down && amountToken === 'A') || (!down && amountToken === 'B');
+
+  // Work in raw units; exact-in amounts lose the fee before reaching the curve
+  let remaining = amount * (amountToken === 'A' ? scaleA : scaleB);
+  if (exactIn) remaining *= 1 - feeRate;
+
+  let sqrtPrice = curve.sqrtPrice;
+  let totalIn = 0;
+  let totalOut = 0;
+
+  const segments = down
+    ? curve.segments.filter(s => s.sqrtPriceLower < sqrtPrice).reverse()
+    : curve.segments.filter(s => s.sqrtPriceUpper > sqrtPrice);
+
+  for (const segment of segments) {
+    if (remaining <= 0) break;
+    const l = Number(segment.liquidity);
+    const bound = down ? segment.sqrtPriceLower : segment.sqrtPriceUpper;
+    if (l <= 0) {
+      sqrtPrice = bound;
+      continue;
+    }
+
+    // Amounts to reach the segment boundary
+    const inToBound = down ? l * (1 / bound - 1 / sqrtPrice) : l * (bound - sqrtPrice);
+    const outToBound = down ? l * (sqrtPrice - bound) : l * (1 / sqrtPrice - 1 / bound);
+    const toBound = exactIn ? inToBound : outToBound;
+
+    if (remaining >= toBound) {
+      totalIn += inToBound;
+      totalOut += outToBound;
+      remaining -= toBound;
+      sqrtPrice = bound;
+      continue;
+    }
+
+    let next: number;
+    if (down) {
+      next = exactIn ? 1 / (1 / sqrtPrice + remaining / l) : sqrtPrice - remaining / l;
+      totalIn += l * (1 / next - 1 / sqrtPrice);
+      totalOut += l * (sqrtPrice - next);
+    } else {
+      next = exactIn ? sqrtPrice + remaining / l : 1 / (1 / sqrtPrice - remaining / l);
+      totalIn += l * (next - sqrtPrice);
+      totalOut += l * (1 / sqrtPrice - 1 / next);
+    }
+    sqrtPrice = next;
+    remaining = 0;
+  }
+
+  const grossIn = totalIn / (1 - feeRate);
+  const amountIn = grossIn / (down ? scaleA : scaleB);
+  const amountOut = totalOut / (down ? scaleB : scaleA);
+  const startPrice = toPrice(curve, curve.sqrtPrice);
+  const endPrice = toPrice(curve, sqrtPrice);
+  // Execution price quoted as token B per token A
+  const averagePrice = down
+    ? (amountIn > 0 ? amountOut / amountIn : startPrice)
+    : (amountOut > 0 ? amountIn / amountOut : startPrice);
+
+  return {
+    side,
+    amountIn,
+    amountOut,
+    startPrice,
+    endPrice,
+    averagePrice,
+    priceImpact: Math.abs(endPrice - startPrice) / startPrice,
+    slippage: Math.abs(averagePrice - startPrice) / startPrice,
+    filled: remaining <= 0
+  };
+}
+
+function createSegment(tickLower: number, tickUpper: number, liquidity: bigint): ILiquiditySegment {
+  return {
+    tickLower,
+    tickUpper,
+    sqrtPriceLower: Math.pow(1.0001, tickLower / 2),
+    sqrtPriceUpper: Math.pow(1.0001, tickUpper / 2),
+    liquidity
+  };
+}
+
+function toPrice(curve: ILiquidityCurve, sqrtPrice: number): number {
+  return sqrtPrice * sqrtPrice * 10 ** (curve.decimalsA - curve.decimalsB);
+}
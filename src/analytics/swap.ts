@@ -0,0 +1,321 @@
+import { IPoolData, ITickData } from '../services/source';
+import { IPoolConfig } from '../config/pools';
+
+// Whirlpool fixed-point constants
+export const MIN_TICK_INDEX = -443636;
+export const MAX_TICK_INDEX = 443636;
+export const MIN_SQRT_PRICE = 4295048016n;
+export const MAX_SQRT_PRICE = 79226673515401279992447579055n;
+const FEE_RATE_MUL_VALUE = 1_000_000n;
+const U64_MAX = (1n << 64n) - 1n;
+
+// sqrt(1.0001)^(2^i) in Q96 for positive ticks, and its inverse in Q64 for negative ticks
+const POSITIVE_TICK_FACTORS = [
+  79232123823359799118286999567n,
+  79236085330515764027303304731n,
+  79244008939048815603706035061n,
+  79259858533276714757314932305n,
+  79291567232598584799939703904n,
+  79355022692464371645785046466n,
+  79482085999252804386437311141n,
+  79736823300114093921829183326n,
+  80248749790819932309965073892n,
+  81282483887344747381513967011n,
+  83390072131320151908154831281n,
+  87770609709833776024991924138n,
+  97234110755111693312479820773n,
+  119332217159966728226237229890n,
+  179736315981702064433883588727n,
+  407748233172238350107850275304n,
+  2098478828474011932436660412517n,
+  55581415166113811149459800483533n,
+  38992368544603139932233054999993551n
+];
+const NEGATIVE_TICK_FACTORS = [
+  18445821805675392311n,
+  18444899583751176498n,
+  18443055278223354162n,
+  18439367220385604838n,
+  18431993317065449817n,
+  18417254355718160513n,
+  18387811781193591352n,
+  18329067761203520168n,
+  18212142134806087854n,
+  17980523815641551639n,
+  17526086738831147013n,
+  16651378430235024244n,
+  15030750278693429944n,
+  12247334978882834399n,
+  8131365268884726200n,
+  3584323654723342297n,
+  696457651847595233n,
+  26294789957452057n,
+  37481735321082n
+];
+
+export interface ISwapParams {
+  amount: bigint; // raw amount of the specified token
+  aToB: boolean; // true when token A is swapped for token B
+  exactIn: boolean; // true when amount is the input, false when it is the output
+  sqrtPriceLimit?: bigint;
+}
+
+export interface ISwapResult {
+  amountIn: bigint; // including the fee
+  amountOut: bigint;
+  feeAmount: bigint;
+  amountRemaining: bigint; // part of the specified amount that could not be filled
+  startSqrtPrice: bigint;
+  endSqrtPrice: bigint;
+  startPrice: number; // token B per token A, decimal-adjusted when a pool config is given
+  endPrice: number;
+  endTickIndex: number;
+  endLiquidity: bigint;
+  ticksCrossed: number[]; // initialized ticks crossed, in swap order
+}
+
+type SwapPoolState = Pick<IPoolData, 'sqrtPrice' | 'liquidity' | 'tickCurrent' | 'feeRate'>;
+type SwapTick = Pick<ITickData, 'tickIndex' | 'liquidityNet'>;
+
+/**
+ * Sqrt price (Q64.64) of a tick index, bit-for-bit with the on-chain program
+ */
+export function tickIndexToSqrtPrice(tickIndex: number): bigint {
+  if (tickIndex < MIN_TICK_INDEX || tickIndex > MAX_TICK_INDEX) {
+    throw new Error(`Tick index out of bounds: ${tickIndex}`);
+  }
+
+  if (tickIndex >= 0) {
+    let ratio = (tickIndex & 1) !== 0 ? POSITIVE_TICK_FACTORS[0] : 1n << 96n;
+    for (let i = 1; i < POSITIVE_TICK_FACTORS.length; i++) {
+      if ((tickIndex & (1 << i)) !== 0) {
+        ratio = (ratio * POSITIVE_TICK_FACTORS[i]) >> 96n;
+      }
+    }
+    return ratio >> 32n;
+  }
+
+  const absTick = -tickIndex;
+  let ratio = (absTick & 1) !== 0 ? NEGATIVE_TICK_FACTORS[0] : 1n << 64n;
+  for (let i = 1; i < NEGATIVE_TICK_FACTORS.length; i++) {
+    if ((absTick & (1 << i)) !== 0) {
+      ratio = (ratio * NEGATIVE_TICK_FACTORS[i]) >> 64n;
+    }
+  }
+  return ratio;
+}
+
+/**
+ * Price of token A in token B for a Q64.64 sqrt price
+ */
+export function sqrtPriceToPrice(sqrtPrice: bigint, decimalsA: number = 0, decimalsB: number = 0): number {
+  const raw = Number(sqrtPrice) / 2 ** 64;
+  return raw * raw * 10 ** (decimalsA - decimalsB);
+}
+
+/**
+ * Greatest tick index whose sqrt price is at or below the given sqrt price
+ */
+export function sqrtPriceToTickIndex(sqrtPrice: bigint): number {
+  let low = MIN_TICK_INDEX;
+  let high = MAX_TICK_INDEX;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (tickIndexToSqrtPrice(mid) <= sqrtPrice) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Token A between two sqrt prices: L * (upper - lower) * 2^64 / (upper * lower)
+ */
+export function getAmountDeltaA(sqrtPrice0: bigint, sqrtPrice1: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtPrice0 < sqrtPrice1 ? [sqrtPrice0, sqrtPrice1] : [sqrtPrice1, sqrtPrice0];
+  const numerator = (liquidity * (upper - lower)) << 64n;
+  const denominator = upper * lower;
+  const quotient = numerator / denominator;
+  const result = roundUp && numerator % denominator !== 0n ? quotient + 1n : quotient;
+  if (result > U64_MAX) {
+    throw new Error('Token A amount exceeds u64');
+  }
+  return result;
+}
+
+/**
+ * Token B between two sqrt prices: L * (upper - lower) / 2^64
+ */
+export function getAmountDeltaB(sqrtPrice0: bigint, sqrtPrice1: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const diff = sqrtPrice0 < sqrtPrice1 ? sqrtPrice1 - sqrtPrice0 : sqrtPrice0 - sqrtPrice1;
+  const product = liquidity * diff;
+  const result = (product >> 64n) + (roundUp && (product & U64_MAX) > 0n ? 1n : 0n);
+  if (result > U64_MAX) {
+    throw new Error('Token B amount exceeds u64');
+  }
+  return result;
+}
+
+function getNextSqrtPriceFromA(sqrtPrice: bigint, liquidity: bigint, amount: bigint, isInput: boolean): bigint {
+  if (amount === 0n) return sqrtPrice;
+  const product = sqrtPrice * amount;
+  const numerator = (liquidity * sqrtPrice) << 64n;
+  const liquidityShifted = liquidity << 64n;
+  const denominator = isInput ? liquidityShifted + product : liquidityShifted - product;
+  if (denominator <= 0n) {
+    throw new Error('Sqrt price out of bounds');
+  }
+  return divRoundUp(numerator, denominator);
+}
+
+function getNextSqrtPriceFromB(sqrtPrice: bigint, liquidity: bigint, amount: bigint, isInput: boolean): bigint {
+  const amountShifted = amount << 64n;
+  const delta = isInput ? amountShifted / liquidity : divRoundUp(amountShifted, liquidity);
+  return isInput ? sqrtPrice + delta : sqrtPrice - delta;
+}
+
+function divRoundUp(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return numerator % denominator === 0n ? quotient : quotient + 1n;
+}
+
+/**
+ * One swap step towards a target price, mirroring the program's compute_swap
+ */
+function computeSwapStep(
+  amountRemaining: bigint,
+  feeRate: bigint,
+  liquidity: bigint,
+  sqrtPriceCurrent: bigint,
+  sqrtPriceTarget: bigint,
+  exactIn: boolean,
+  aToB: boolean
+): { amountIn: bigint; amountOut: bigint; nextSqrtPrice: bigint; feeAmount: bigint } {
+  const fixedIsA = aToB === exactIn;
+  const fixedDelta = (from: bigint, to: bigint) => fixedIsA
+    ? getAmountDeltaA(from, to, liquidity, exactIn)
+    : getAmountDeltaB(from, to, liquidity, exactIn);
+  const unfixedDelta = (from: bigint, to: bigint) => fixedIsA
+    ? getAmountDeltaB(from, to, liquidity, !exactIn)
+    : getAmountDeltaA(from, to, liquidity, !exactIn);
+
+  let amountFixed = fixedDelta(sqrtPriceCurrent, sqrtPriceTarget);
+  const amountCalc = exactIn
+    ? amountRemaining * (FEE_RATE_MUL_VALUE - feeRate) / FEE_RATE_MUL_VALUE
+    : amountRemaining;
+
+  let nextSqrtPrice = sqrtPriceTarget;
+  if (amountCalc < amountFixed) {
+    nextSqrtPrice = fixedIsA
+      ? getNextSqrtPriceFromA(sqrtPriceCurrent, liquidity, amountCalc, exactIn)
+      : getNextSqrtPriceFromB(sqrtPriceCurrent, liquidity, amountCalc, exactIn);
+  }
+  const isMaxSwap = nextSqrtPrice === sqrtPriceTarget;
+
+  const amountUnfixed = unfixedDelta(sqrtPriceCurrent, nextSqrtPrice);
+  if (!isMaxSwap) {
+    amountFixed = fixedDelta(sqrtPriceCurrent, nextSqrtPrice);
+  }
+
+  const amountIn = exactIn ? amountFixed : amountUnfixed;
+  let amountOut = exactIn ? amountUnfixed : amountFixed;
+  if (!exactIn && amountOut > amountRemaining) {
+    amountOut = amountRemaining;
+  }
+
+  const feeAmount = exactIn && !isMaxSwap
+    ? amountRemaining - amountIn
+    : divRoundUp(amountIn * feeRate, FEE_RATE_MUL_VALUE - feeRate);
+
+  return { amountIn, amountOut, nextSqrtPrice, feeAmount };
+}
+
+/**
+ * Simulate a swap against a stored pool snapshot without any RPC access.
+ * Follows the Whirlpool swap loop: step to the next initialized tick, cross it
+ * and apply its liquidityNet, until the amount is filled or the price limit hit.
+ * Liquidity beyond the supplied ticks is assumed constant.
+ * @param pool Pool state (sqrt price, liquidity, current tick, fee rate)
+ * @param ticks Initialized ticks of the same snapshot
+ * @param params Swap amount, direction and mode
+ * @param poolConfig Pool configuration, for decimal-adjusted prices
+ */
+export function simulateSwap(
+  pool: SwapPoolState,
+  ticks: SwapTick[],
+  params: ISwapParams,
+  poolConfig?: IPoolConfig
+): ISwapResult {
+  const { amount, aToB, exactIn } = params;
+  const sqrtPriceLimit = params.sqrtPriceLimit ?? (aToB ? MIN_SQRT_PRICE : MAX_SQRT_PRICE);
+  if (aToB ? sqrtPriceLimit > pool.sqrtPrice : sqrtPriceLimit < pool.sqrtPrice) {
+    throw new Error('Sqrt price limit is on the wrong side of the current price');
+  }
+
+  const sorted = [...ticks].sort((a, b) => a.tickIndex - b.tickIndex);
+  const feeRate = BigInt(pool.feeRate);
+
+  let amountRemaining = amount;
+  let amountCalculated = 0n;
+  let feeTotal = 0n;
+  let sqrtPrice = pool.sqrtPrice;
+  let tickIndex = pool.tickCurrent;
+  let liquidity = pool.liquidity;
+  const ticksCrossed: number[] = [];
+
+  while (amountRemaining > 0n && sqrtPrice !== sqrtPriceLimit) {
+    // Next initialized tick: at or below the current tick going down, strictly above going up
+    const nextTick = aToB
+      ? [...sorted].reverse().find(tick => tick.tickIndex <= tickIndex)
+      : sorted.find(tick => tick.tickIndex > tickIndex);
+    const nextTickIndex = nextTick ? nextTick.tickIndex : (aToB ? MIN_TICK_INDEX : MAX_TICK_INDEX);
+    const nextTickSqrtPrice = tickIndexToSqrtPrice(nextTickIndex);
+    const sqrtPriceTarget = aToB
+      ? (nextTickSqrtPrice > sqrtPriceLimit ? nextTickSqrtPrice : sqrtPriceLimit)
+      : (nextTickSqrtPrice < sqrtPriceLimit ? nextTickSqrtPrice : sqrtPriceLimit);
+
+    const step = computeSwapStep(amountRemaining, feeRate, liquidity, sqrtPrice, sqrtPriceTarget, exactIn, aToB);
+
+    if (exactIn) {
+      amountRemaining -= step.amountIn + step.feeAmount;
+      amountCalculated += step.amountOut;
+    } else {
+      amountRemaining -= step.amountOut;
+      amountCalculated += step.amountIn + step.feeAmount;
+    }
+    feeTotal += step.feeAmount;
+
+    if (step.nextSqrtPrice === nextTickSqrtPrice) {
+      if (nextTick) {
+        liquidity = aToB ? liquidity - nextTick.liquidityNet : liquidity + nextTick.liquidityNet;
+        if (liquidity < 0n) {
+          throw new Error(`Negative liquidity after crossing tick ${nextTick.tickIndex}`);
+        }
+        ticksCrossed.push(nextTick.tickIndex);
+      }
+      tickIndex = aToB ? nextTickIndex - 1 : nextTickIndex;
+    } else if (step.nextSqrtPrice !== sqrtPrice) {
+      tickIndex = sqrtPriceToTickIndex(step.nextSqrtPrice);
+    }
+    sqrtPrice = step.nextSqrtPrice;
+  }
+
+  const filled = amount - amountRemaining;
+  const decimalsA = poolConfig ? poolConfig.tokenA.decimals : 0;
+  const decimalsB = poolConfig ? poolConfig.tokenB.decimals : 0;
+  return {
+    amountIn: exactIn ? filled : amountCalculated,
+    amountOut: exactIn ? amountCalculated : filled,
+    feeAmount: feeTotal,
+    amountRemaining,
+    startSqrtPrice: pool.sqrtPrice,
+    endSqrtPrice: sqrtPrice,
+    startPrice: sqrtPriceToPrice(pool.sqrtPrice, decimalsA, decimalsB),
+    endPrice: sqrtPriceToPrice(sqrtPrice, decimalsA, decimalsB),
+    endTickIndex: tickIndex,
+    endLiquidity: liquidity,
+    ticksCrossed
+  };
+}
@@ -0,0 +1,297 @@
+import { dbService, CandleInterval } from '../services/database';
+import { poolStore } from '../services/pool-store';
+import { tickSnapshotStore } from '../services/tick-snapshot-store';
+import { positionStore } from '../services/position-store';
+import { POOLS, IPoolConfig, Venue, getPoolVenue } from '../config/pools';
+import { PublicKey } from '@solana/web3.js';
+import { feeService } from '../services/fees';
+import { portfolioService } from '../services/portfolio';
+import { RangeSpec } from '../analytics/fees';
+import { MIN_TICK_INDEX, MAX_TICK_INDEX } from '../analytics/swap';
+import { ERROR_MESSAGES, CANDLE_CONFIG } from '../config/constants';
+import { ApiError, parseDate, parseInteger, parseNumber, parsePagination, parseTimeRange } from './validation';
+
+export interface IRequestContext {
+  params: string[];
+  query: URLSearchParams;
+}
+
+export interface IApiResponse {
+  data: unknown;
+  pagination?: {
+    limit: number;
+    offset: number;
+    count: number;
+    hasMore: boolean;
+  };
+}
+
+export interface IRoute {
+  method: string;
+  pattern: RegExp;
+  handler: (context: IRequestContext) => Promise<IApiResponse>;
+}
+
+/**
+ * Decode a URL-encoded path segment, rejecting malformed escapes like `%E0%A4%A`
+ */
+function decodePathSegment(value: string, parameter: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Invalid ${parameter}: malformed URL encoding`, { parameter, value });
+  }
+}
+
+/**
+ * Run a database read, failing with 503 while the database is down. Most store reads log
+ * errors and return empty results, which would otherwise surface as 200 or 404.
+ */
+async function readDatabase<T>(read: () => Promise<T>): Promise<T> {
+  const unavailable = () => new ApiError(503, 'DATABASE_UNAVAILABLE', 'Database is unavailable, try again later');
+  if (!dbService.isHealthy()) {
+    throw unavailable();
+  }
+
+  let result: T;
+  try {
+    result = await read();
+  } catch (error) {
+    throw dbService.isHealthy() ? error : unavailable();
+  }
+  // A read that hit a refused connection marks the database down
+  if (!dbService.isHealthy()) {
+    throw unavailable();
+  }
+  return result;
+}
+
+/**
+ * Find a pool by its POOLS key (URL-encoded, e.g. SOL%2FUSDC) or address
+ */
+function resolvePool(id: string): { poolId: string; poolConfig: IPoolConfig } {
+  const decoded = decodePathSegment(id, 'pool');
+  const poolId = POOLS[decoded]
+    ? decoded
+    : Object.keys(POOLS).find(key => POOLS[key].address.toBase58() === decoded);
+
+  if (!poolId) {
+    throw new ApiError(404, 'POOL_NOT_FOUND', `${ERROR_MESSAGES.POOL_NOT_FOUND}: ${decoded}`);
+  }
+  return { poolId, poolConfig: POOLS[poolId] };
+}
+
+function formatPool(poolId: string, poolConfig: IPoolConfig) {
+  const formatToken = (token: IPoolConfig['tokenA']) => ({
+    symbol: token.symbol,
+    mint: token.address.toBase58(),
+    decimals: token.decimals
+  });
+
+  return {
+    id: poolId,
+    name: poolConfig.name,
+    venue: getPoolVenue(poolConfig),
+    address: poolConfig.address.toBase58(),
+    tokenA: formatToken(poolConfig.tokenA),
+    tokenB: formatToken(poolConfig.tokenB),
+    tickSpacing: poolConfig.tickSpacing
+  };
+}
+
+/**
+ * Slice an in-memory list according to the requested page
+ */
+function paginate<T>(items: T[], query: URLSearchParams): IApiResponse {
+  const { limit, offset } = parsePagination(query);
+  const page = items.slice(offset, offset + limit);
+  return {
+    data: page,
+    pagination: { limit, offset, count: page.length, hasMore: offset + limit < items.length }
+  };
+}
+
+const VENUES: Venue[] = ['orca', 'raydium', 'meteora'];
+
+/**
+ * Pools matching the optional `venue` filter
+ */
+function filterPools(query: URLSearchParams): [string, IPoolConfig][] {
+  const venue = query.get('venue');
+  if (venue && !VENUES.includes(venue as Venue)) {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Invalid venue: expected one of ${VENUES.join(', ')}`, {
+      parameter: 'venue',
+      value: venue
+    });
+  }
+  return Object.entries(POOLS).filter(([, poolConfig]) => !venue || getPoolVenue(poolConfig) === venue);
+}
+
+async function listPools({ query }: IRequestContext): Promise<IApiResponse> {
+  return paginate(filterPools(query).map(([poolId, poolConfig]) => formatPool(poolId, poolConfig)), query);
+}
+
+async function getPool({ params }: IRequestContext): Promise<IApiResponse> {
+  const { poolId, poolConfig } = resolvePool(params[0]);
+  return { data: formatPool(poolId, poolConfig) };
+}
+
+async function listLatestSnapshots({ query }: IRequestContext): Promise<IApiResponse> {
+  const snapshots = await Promise.all(filterPools(query).map(async ([poolId, poolConfig]) => ({
+    poolId,
+    snapshot: await readDatabase(() => poolStore.getLatestPoolSnapshot(poolConfig.address.toBase58()))
+  })));
+  return paginate(snapshots.filter(entry => entry.snapshot !== null), query);
+}
+
+async function getLatestSnapshot({ params }: IRequestContext): Promise<IApiResponse> {
+  const { poolId, poolConfig } = resolvePool(params[0]);
+  const snapshot = await readDatabase(() => poolStore.getLatestPoolSnapshot(poolConfig.address.toBase58()));
+  if (!snapshot) {
+    throw new ApiError(404, 'NO_DATA', `No snapshots recorded for ${poolId}`);
+  }
+  return { data: snapshot };
+}
+
+async function getHistory({ params, query }: IRequestContext): Promise<IApiResponse> {
+  const { poolConfig } = resolvePool(params[0]);
+  const { start, end } = parseTimeRange(query);
+  const { limit, offset } = parsePagination(query);
+
+  // One extra row tells whether another page exists
+  const rows = await readDatabase(() =>
+    dbService.getPoolHistory(poolConfig.address.toBase58(), start, end, limit + 1, offset)
+  );
+  const page = rows.slice(0, limit);
+  return {
+    data: page,
+    pagination: { limit, offset, count: page.length, hasMore: rows.length > limit }
+  };
+}
+
+async function getCandles({ params, query }: IRequestContext): Promise<IApiResponse> {
+  const { poolConfig } = resolvePool(params[0]);
+  const interval = query.get('interval') || '1h';
+  if (!(interval in CANDLE_CONFIG.INTERVALS)) {
+    const allowed = Object.keys(CANDLE_CONFIG.INTERVALS).join(', ');
+    throw new ApiError(400, 'INVALID_PARAMETER', `Invalid interval: expected one of ${allowed}`, {
+      parameter: 'interval',
+      value: interval
+    });
+  }
+  const { start, end } = parseTimeRange(query);
+
+  const candles = await readDatabase(() =>
+    dbService.getCandles(poolConfig.address.toBase58(), interval as CandleInterval, start, end)
+  );
+  return paginate(candles, query);
+}
+
+async function getTicks({ params, query }: IRequestContext): Promise<IApiResponse> {
+  const { poolId, poolConfig } = resolvePool(params[0]);
+  const at = parseDate(query, 'at') || new Date();
+  const poolAddress = poolConfig.address.toBase58();
+
+  const [snapshot, ticks] = await readDatabase(() => Promise.all([
+    poolStore.getPoolSnapshotAt(poolAddress, at),
+    tickSnapshotStore.getTicksAt(poolAddress, at)
+  ]));
+  if (!snapshot && !ticks.length) {
+    throw new ApiError(404, 'NO_DATA', `No tick data recorded for ${poolId} at or before ${at.toISOString()}`);
+  }
+
+  const response = paginate(ticks, query);
+  return {
+    ...response,
+    data: {
+      timestamp: ticks.length ? ticks[0].timestamp : null,
+      tickCurrent: snapshot?.tickCurrent ?? null,
+      liquidity: snapshot?.liquidity ?? null,
+      ticks: response.data
+    }
+  };
+}
+
+/**
+ * Range from `tickLower`/`tickUpper`, `priceLower`/`priceUpper` or `percent`
+ */
+function parseRange(query: URLSearchParams): RangeSpec {
+  if (query.has('tickLower') || query.has('tickUpper')) {
+    const tickLower = parseInteger(query, 'tickLower', MIN_TICK_INDEX, MIN_TICK_INDEX, MAX_TICK_INDEX);
+    const tickUpper = parseInteger(query, 'tickUpper', MAX_TICK_INDEX, MIN_TICK_INDEX, MAX_TICK_INDEX);
+    if (tickLower >= tickUpper) {
+      throw new ApiError(400, 'INVALID_RANGE', 'tickLower must be below tickUpper', { tickLower, tickUpper });
+    }
+    return { tickLower, tickUpper };
+  }
+
+  if (query.has('priceLower') || query.has('priceUpper')) {
+    const priceLower = parseNumber(query, 'priceLower', true);
+    const priceUpper = parseNumber(query, 'priceUpper', true);
+    if (priceLower === undefined || priceUpper === undefined || priceLower >= priceUpper) {
+      throw new ApiError(400, 'INVALID_RANGE', 'priceLower and priceUpper are both required, lower first', {
+        priceLower: query.get('priceLower'),
+        priceUpper: query.get('priceUpper')
+      });
+    }
+    return { priceLower, priceUpper };
+  }
+
+  const percent = parseNumber(query, 'percent', true);
+  if (percent === undefined || percent >= 1) {
+    throw new ApiError(400, 'INVALID_RANGE', 'Expected tickLower/tickUpper, priceLower/priceUpper or a percent below 1', {
+      percent: query.get('percent')
+    });
+  }
+  return { percent };
+}
+
+async function getRangeFees({ params, query }: IRequestContext): Promise<IApiResponse> {
+  const { poolId, poolConfig } = resolvePool(params[0]);
+  if (getPoolVenue(poolConfig) === 'meteora') {
+    throw new ApiError(400, 'UNSUPPORTED_VENUE', `Fee growth is not tracked for Meteora DLMM pairs: ${poolId}`);
+  }
+  const range = parseRange(query);
+  const { start, end } = parseTimeRange(query);
+
+  const fees = await readDatabase(() => feeService.getRangeFees(poolId, range, start, end));
+  if (!fees) {
+    throw new ApiError(404, 'NO_DATA', `At least two snapshots are needed for ${poolId} between ${start.toISOString()} and ${end.toISOString()}`);
+  }
+  return { data: fees };
+}
+
+/**
+ * Validate a wallet address path segment
+ */
+function parseOwner(id: string): string {
+  const owner = decodePathSegment(id, 'owner');
+  try {
+    return new PublicKey(owner).toBase58();
+  } catch {
+    throw new ApiError(400, 'INVALID_PARAMETER', `Invalid wallet address: ${owner}`, { parameter: 'owner', value: owner });
+  }
+}
+
+async function getPortfolio({ params }: IRequestContext): Promise<IApiResponse> {
+  return { data: await portfolioService.getPortfolio(parseOwner(params[0])) };
+}
+
+async function getPortfolioHistory({ params, query }: IRequestContext): Promise<IApiResponse> {
+  const owner = parseOwner(params[0]);
+  const { start, end } = parseTimeRange(query);
+  return paginate(await readDatabase(() => positionStore.getWalletPositionHistory(owner, start, end)), query);
+}
+
+export const ROUTES: IRoute[] = [
+  { method: 'GET', pattern: /^\/pools$/, handler: listPools },
+  { method: 'GET', pattern: /^\/pools\/latest$/, handler: listLatestSnapshots },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)$/, handler: getPool },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)\/latest$/, handler: getLatestSnapshot },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)\/history$/, handler: getHistory },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)\/candles$/, handler: getCandles },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)\/ticks$/, handler: getTicks },
+  { method: 'GET', pattern: /^\/pools\/([^/]+)\/fees$/, handler: getRangeFees },
+  { method: 'GET', pattern: /^\/wallets\/([^/]+)\/positions$/, handler: getPortfolio },
+  { method: 'GET', pattern: /^\/wallets\/([^/]+)\/history$/, handler: getPortfolioHistory }
+];
@@ -0,0 +1,111 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { dbService } from '../services/database';
+import { API_CONFIG } from '../config/constants';
+import { bigintReplacer } from '../utils/common';
+import { logger } from '../utils/logger';
+import { ROUTES } from './routes';
+import { ApiError } from './validation';
+
+class ApiServer {
+  private static instance: ApiServer;
+  private server: http.Server | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ApiServer {
+    if (!ApiServer.instance) {
+      ApiServer.instance = new ApiServer();
+    }
+    return ApiServer.instance;
+  }
+
+  public async start(port: number = API_CONFIG.PORT, host: string = API_CONFIG.HOST): Promise<void> {
+    if (this.server) {
+      logger.warn('API server is already running');
+      return;
+    }
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Unhandled API error: ${error.message}`);
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+    logger.info(`API server listening on http://${host}:${port}`);
+  }
+
+  public async stop(): Promise<void> {
+    logger.info('Stopping API server...');
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+    await dbService.cleanup();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startTime = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+
+    try {
+      if (req.method === 'OPTIONS') {
+        this.send(res, 204, null);
+        return;
+      }
+
+      if (path === '/health') {
+        this.send(res, dbService.isHealthy() ? 200 : 503, { data: { database: dbService.isHealthy() } });
+        return;
+      }
+
+      const matches = ROUTES
+        .map(route => ({ route, match: route.pattern.exec(path) }))
+        .filter(({ match }) => match !== null);
+      if (!matches.length) {
+        throw new ApiError(404, 'NOT_FOUND', `No route for ${path}`);
+      }
+
+      const matched = matches.find(({ route }) => route.method === req.method);
+      if (!matched) {
+        throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not allowed on ${path}`);
+      }
+
+      const response = await matched.route.handler({
+        params: matched.match!.slice(1),
+        query: url.searchParams
+      });
+      this.send(res, 200, response);
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        this.send(res, error.status, {
+          error: { code: error.code, message: error.message, details: error.details }
+        });
+      } else {
+        logger.error(`Error handling ${req.method} ${path}: ${error.message}`);
+        this.send(res, 500, { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+      }
+    } finally {
+      logger.debug(`${req.method} ${url.pathname}${url.search} ${res.statusCode} ${Date.now() - startTime}ms`);
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      ...(API_CONFIG.CORS_ORIGIN && {
+        'Access-Control-Allow-Origin': API_CONFIG.CORS_ORIGIN,
+        'Access-Control-Allow-Methods': 'GET, OPTIONS'
+      })
+    });
+    // u128 values are serialized as decimal strings
+    res.end(body === null ? undefined : JSON.stringify(body, bigintReplacer));
+  }
+}
+
+// Export singleton instance
+export const apiServer = ApiServer.getInstance();
@@ -0,0 +1,113 @@
+import { API_CONFIG } from '../config/constants';
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export interface IPagination {
+  limit: number;
+  offset: number;
+}
+
+export interface ITimeRange {
+  start: Date;
+  end: Date;
+}
+
+function invalid(name: string, message: string, value: string): ApiError {
+  return new ApiError(400, 'INVALID_PARAMETER', `Invalid ${name}: ${message}`, { parameter: name, value });
+}
+
+/**
+ * Parse an ISO-8601 date or epoch milliseconds
+ */
+export function parseDate(query: URLSearchParams, name: string): Date | undefined {
+  const value = query.get(name);
+  if (value === null || value === '') return undefined;
+
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw invalid(name, 'expected an ISO-8601 date or epoch milliseconds', value);
+  }
+  return date;
+}
+
+/**
+ * Parse an integer within bounds
+ */
+export function parseInteger(
+  query: URLSearchParams,
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number
+): number {
+  const value = query.get(name);
+  if (value === null || value === '') return defaultValue;
+
+  if (!/^-?\d+$/.test(value)) {
+    throw invalid(name, 'expected an integer', value);
+  }
+  const parsed = parseInt(value, 10);
+  if (parsed < min || parsed > max) {
+    throw invalid(name, `expected a value between ${min} and ${max}`, value);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a finite number, optionally restricted to values above zero
+ */
+export function parseNumber(query: URLSearchParams, name: string, positive: boolean = false): number | undefined {
+  const value = query.get(name);
+  if (value === null || value === '') return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw invalid(name, 'expected a number', value);
+  }
+  if (positive && parsed <= 0) {
+    throw invalid(name, 'expected a positive number', value);
+  }
+  return parsed;
+}
+
+/**
+ * Parse `limit` and `offset`
+ */
+export function parsePagination(query: URLSearchParams): IPagination {
+  return {
+    limit: parseInteger(query, 'limit', API_CONFIG.DEFAULT_PAGE_SIZE, 1, API_CONFIG.MAX_PAGE_SIZE),
+    offset: parseInteger(query, 'offset', 0, 0, Number.MAX_SAFE_INTEGER)
+  };
+}
+
+/**
+ * Parse `start` and `end`, defaulting to the last API_CONFIG.DEFAULT_HISTORY_RANGE
+ */
+export function parseTimeRange(query: URLSearchParams): ITimeRange {
+  const end = parseDate(query, 'end') || new Date();
+  const start = parseDate(query, 'start') || new Date(end.getTime() - API_CONFIG.DEFAULT_HISTORY_RANGE);
+
+  if (start >= end) {
+    throw new ApiError(400, 'INVALID_RANGE', 'start must be before end', {
+      start: start.toISOString(),
+      end: end.toISOString()
+    });
+  }
+  if (end.getTime() - start.getTime() > API_CONFIG.MAX_HISTORY_RANGE) {
+    throw new ApiError(400, 'INVALID_RANGE', `Time range exceeds ${API_CONFIG.MAX_HISTORY_RANGE / 86400000} days`, {
+      start: start.toISOString(),
+      end: end.toISOString()
+    });
+  }
+  return { start, end };
+}
@@ -0,0 +1,52 @@
+import { parseArgs, CliError } from './cli/args';
+import { COMMANDS } from './cli/commands';
+import { logger, redirectConsoleToStderr } from './utils/logger';
+
+// Options that take the next argument as their value
+const VALUE_OPTIONS = ['venue', 'lower', 'upper', 'near', 'at', 'from', 'to', 'limit', 'format', 'out'];
+
+function printUsage(): void {
+  const width = Math.max(...COMMANDS.map(command => command.usage.length));
+  const lines = COMMANDS.map(command => `  ${command.usage.padEnd(width)}  ${command.description}`);
+  process.stdout.write([
+    'Usage: npm run cli -- <command> [options]',
+    '',
+    'Commands:',
+    ...lines,
+    '',
+    'Options:',
+    '  --json     Print JSON instead of a table',
+    '  --verbose  Log progress to stderr',
+    ''
+  ].join('\n'));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2), VALUE_OPTIONS);
+
+  // Keep stdout for command output
+  redirectConsoleToStderr(args.options.has('verbose') ? 'debug' : 'warn');
+
+  const command = COMMANDS.find(candidate => {
+    const words = candidate.name.split(' ');
+    return words.every((word, i) => args.positionals[i] === word);
+  });
+  if (!command || args.options.has('help')) {
+    printUsage();
+    process.exit(command || args.options.has('help') ? 0 : 1);
+  }
+
+  try {
+    await command.run(args, args.positionals.slice(command.name.split(' ').length));
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof CliError) {
+      process.stderr.write(`${error.message}\n`);
+    } else {
+      logger.error(`${command.name} failed:`, error);
+    }
+    process.exit(1);
+  }
+}
+
+main();
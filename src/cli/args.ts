@@ -0,0 +1,78 @@
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface IParsedArgs {
+  positionals: string[];
+  options: Map<string, string | true>;
+}
+
+/**
+ * Split argv into positionals and options. Options take `--name=value`, `--name value`
+ * for names in `valueOptions`, or a bare `--flag`.
+ * @param argv Arguments after the script name
+ * @param valueOptions Option names that consume the following argument
+ */
+export function parseArgs(argv: string[], valueOptions: string[]): IParsedArgs {
+  const positionals: string[] = [];
+  const options = new Map<string, string | true>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, ...rest] = arg.slice(2).split('=');
+    if (rest.length) {
+      options.set(name, rest.join('='));
+    } else if (valueOptions.includes(name) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      options.set(name, argv[++i]);
+    } else {
+      options.set(name, true);
+    }
+  }
+
+  return { positionals, options };
+}
+
+export function getString(args: IParsedArgs, name: string): string | undefined {
+  const value = args.options.get(name);
+  if (value === true) {
+    throw new CliError(`--${name} needs a value`);
+  }
+  return value;
+}
+
+export function getFlag(args: IParsedArgs, name: string): boolean {
+  return args.options.has(name);
+}
+
+/**
+ * Integer option, undefined when absent
+ */
+export function getInteger(args: IParsedArgs, name: string): number | undefined {
+  const value = getString(args, name);
+  if (value === undefined) return undefined;
+  if (!/^-?\d+$/.test(value)) {
+    throw new CliError(`Invalid --${name}: expected an integer, got ${value}`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * ISO-8601 date or epoch milliseconds, undefined when absent
+ */
+export function getDate(args: IParsedArgs, name: string): Date | undefined {
+  const value = getString(args, name);
+  if (value === undefined) return undefined;
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10)) : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new CliError(`Invalid --${name}: expected an ISO-8601 date or epoch milliseconds, got ${value}`);
+  }
+  return date;
+}
@@ -0,0 +1,234 @@
+import { sourceService, IPoolData } from '../services/source';
+import { dbService } from '../services/database';
+import { poolStore } from '../services/pool-store';
+import { tickSnapshotStore } from '../services/tick-snapshot-store';
+import { schemaService } from '../services/schema';
+import { monitorService } from '../services/monitor';
+import { exportService, EXPORT_FORMATS, ExportFormat } from '../services/export';
+import { POOLS, IPoolConfig, getPoolVenue } from '../config/pools';
+import { sqrtPriceToPrice, tickIndexToSqrtPrice } from '../analytics/swap';
+import { IParsedArgs, CliError, getDate, getFlag, getInteger, getString } from './args';
+import { Row, printJson, printRecord, printTable } from './output';
+
+const DEFAULT_HISTORY_RANGE = 24 * 60 * 60 * 1000;
+const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface ICommand {
+  name: string; // words matched against the leading positionals
+  usage: string;
+  description: string;
+  run: (args: IParsedArgs, operands: string[]) => Promise<void>;
+}
+
+/**
+ * Find a pool by its POOLS key or address
+ */
+function resolvePool(id: string | undefined): { poolId: string; poolConfig: IPoolConfig } {
+  if (!id) {
+    throw new CliError('Missing pool id');
+  }
+  const poolId = POOLS[id] ? id : Object.keys(POOLS).find(key => POOLS[key].address.toBase58() === id);
+  if (!poolId) {
+    throw new CliError(`Unknown pool ${id}: run \`pools list\` for the configured pools`);
+  }
+  return { poolId, poolConfig: POOLS[poolId] };
+}
+
+/**
+ * Print rows as a table, or `data` as JSON with --json
+ */
+function output(args: IParsedArgs, data: unknown, rows: Row[] | Row): void {
+  if (getFlag(args, 'json')) {
+    printJson(data);
+  } else if (Array.isArray(rows)) {
+    printTable(rows);
+  } else {
+    printRecord(rows);
+  }
+}
+
+async function fetchLiveSnapshot(poolId: string, includeTicks: boolean) {
+  const [snapshot] = await sourceService.fetchPoolSnapshots([poolId], includeTicks);
+  if (!snapshot) {
+    throw new CliError(`Could not fetch ${poolId}, see the log for details`);
+  }
+  return snapshot;
+}
+
+async function listPools(args: IParsedArgs): Promise<void> {
+  const venue = getString(args, 'venue');
+  const pools = Object.entries(POOLS).filter(([, poolConfig]) => !venue || getPoolVenue(poolConfig) === venue);
+
+  output(args, pools.map(([poolId, poolConfig]) => ({ id: poolId, ...poolConfig })), pools.map(([poolId, poolConfig]) => ({
+    id: poolId,
+    venue: getPoolVenue(poolConfig),
+    tokenA: poolConfig.tokenA.symbol,
+    tokenB: poolConfig.tokenB.symbol,
+    tickSpacing: poolConfig.tickSpacing,
+    address: poolConfig.address.toBase58()
+  })));
+}
+
+async function showPool(args: IParsedArgs, operands: string[]): Promise<void> {
+  const { poolId, poolConfig } = resolvePool(operands[0]);
+  const { poolData } = await fetchLiveSnapshot(poolId, false);
+  const { tokenA, tokenB } = poolConfig;
+
+  output(args, { poolId, ...poolData }, {
+    id: poolId,
+    name: poolConfig.name,
+    venue: poolData.venue,
+    address: poolData.poolAddress,
+    timestamp: poolData.timestamp.toISOString(),
+    price: `${poolData.price} ${tokenB.symbol}/${tokenA.symbol}`,
+    tick: poolData.tickCurrent,
+    sqrtPrice: poolData.sqrtPrice,
+    liquidity: poolData.liquidity,
+    [`reserve ${tokenA.symbol}`]: poolData.tokenAAmount,
+    [`reserve ${tokenB.symbol}`]: poolData.tokenBAmount,
+    [`active ${tokenA.symbol}`]: poolData.virtualTokenAAmount,
+    [`active ${tokenB.symbol}`]: poolData.virtualTokenBAmount,
+    feeRate: `${(poolData.feeRate / 10000).toFixed(4)}%`,
+    protocolFee: `${(poolData.protocolFeeRate / 100).toFixed(2)}% of fees`,
+    feeGrowthGlobalA: poolData.feeGrowthGlobalA,
+    feeGrowthGlobalB: poolData.feeGrowthGlobalB
+  });
+}
+
+async function showTicks(args: IParsedArgs, operands: string[]): Promise<void> {
+  const { poolId, poolConfig } = resolvePool(operands[0]);
+  const at = getDate(args, 'at');
+  const near = getInteger(args, 'near');
+  let lower = getInteger(args, 'lower');
+  let upper = getInteger(args, 'upper');
+
+  // Live tick arrays around the current price, or the stored snapshot at --at
+  let tickCurrent: number | undefined;
+  let ticks;
+  if (at) {
+    const poolAddress = poolConfig.address.toBase58();
+    const [snapshot, stored] = await Promise.all([
+      poolStore.getPoolSnapshotAt(poolAddress, at),
+      tickSnapshotStore.getTicksAt(poolAddress, at)
+    ]);
+    tickCurrent = snapshot?.tickCurrent;
+    ticks = stored;
+  } else {
+    const snapshot = await fetchLiveSnapshot(poolId, true);
+    tickCurrent = snapshot.poolData.tickCurrent;
+    ticks = snapshot.ticks;
+  }
+
+  if (near !== undefined) {
+    if (tickCurrent === undefined) {
+      throw new CliError(`No pool snapshot recorded for ${poolId} at or before ${at!.toISOString()}`);
+    }
+    lower = Math.max(lower ?? -Infinity, tickCurrent - near);
+    upper = Math.min(upper ?? Infinity, tickCurrent + near);
+  }
+  const filtered = ticks.filter(tick =>
+    (lower === undefined || tick.tickIndex >= lower) && (upper === undefined || tick.tickIndex <= upper)
+  );
+
+  output(args, { poolId, tickCurrent, ticks: filtered }, filtered.map(tick => ({
+    tick: tick.tickIndex,
+    price: sqrtPriceToPrice(tickIndexToSqrtPrice(tick.tickIndex), poolConfig.tokenA.decimals, poolConfig.tokenB.decimals),
+    side: tickCurrent === undefined ? null : tick.tickIndex <= tickCurrent ? 'below' : 'above',
+    liquidityNet: tick.liquidityNet,
+    liquidityGross: tick.liquidityGross
+  })));
+}
+
+async function showHistory(args: IParsedArgs, operands: string[]): Promise<void> {
+  const { poolConfig } = resolvePool(operands[0]);
+  const to = getDate(args, 'to') || new Date();
+  const from = getDate(args, 'from') || new Date(to.getTime() - DEFAULT_HISTORY_RANGE);
+  const limit = getInteger(args, 'limit') ?? DEFAULT_HISTORY_LIMIT;
+  if (from >= to) {
+    throw new CliError('--from must be before --to');
+  }
+
+  const history = await dbService.getPoolHistory(poolConfig.address.toBase58(), from, to, limit);
+  output(args, history, history.map((snapshot: IPoolData) => ({
+    timestamp: snapshot.timestamp.toISOString(),
+    price: snapshot.price,
+    tick: snapshot.tickCurrent,
+    liquidity: snapshot.liquidity,
+    tvlUsd: snapshot.liquidityUsd,
+    volume24hUsd: snapshot.volume24h
+  })));
+}
+
+async function collect(args: IParsedArgs, operands: string[]): Promise<void> {
+  if (!getFlag(args, 'once')) {
+    throw new CliError('collect only runs a single cycle, pass --once (use `npm run dev` for the monitor loop)');
+  }
+  if (operands.length) {
+    sourceService.setActivePoolIds(operands.map(id => resolvePool(id).poolId));
+  }
+
+  await schemaService.migrate();
+  const snapshots = await monitorService.runCycle();
+
+  output(args, snapshots.map(snapshot => ({ poolId: snapshot.poolId, ...snapshot.poolData })), snapshots.map(snapshot => ({
+    id: snapshot.poolId,
+    price: snapshot.poolData.price,
+    tick: snapshot.poolData.tickCurrent,
+    ticks: snapshot.ticks.length
+  })));
+}
+
+async function exportHistory(args: IParsedArgs, operands: string[]): Promise<void> {
+  const { poolId } = resolvePool(operands[0]);
+  const from = getDate(args, 'from');
+  const to = getDate(args, 'to') || new Date();
+  const format = (getString(args, 'format') || 'csv') as ExportFormat;
+  if (!from) {
+    throw new CliError('Missing --from');
+  }
+  if (from >= to) {
+    throw new CliError('--from must be before --to');
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new CliError(`Invalid --format: expected one of ${EXPORT_FORMATS.join(', ')}, got ${format}`);
+  }
+
+  const result = await exportService.exportPool(poolId, from, to, {
+    format,
+    includeTicks: getFlag(args, 'ticks'),
+    outDir: getString(args, 'out')
+  });
+
+  output(args, result, result.files.map(file => ({
+    dataset: file.dataset,
+    start: file.start.toISOString(),
+    end: file.end.toISOString(),
+    rows: file.rows,
+    status: file.skipped ? 'skipped' : 'written',
+    path: file.path
+  })));
+}
+
+export const COMMANDS: ICommand[] = [
+  { name: 'pools list', usage: 'pools list [--venue=orca|raydium|meteora]', description: 'List configured pools', run: listPools },
+  { name: 'pool show', usage: 'pool show <id>', description: 'Fetch and summarize a pool live', run: showPool },
+  {
+    name: 'ticks',
+    usage: 'ticks <id> [--lower=<tick>] [--upper=<tick>] [--near=<ticks>] [--at=<date>]',
+    description: 'Initialized ticks, live or from the stored snapshot at --at',
+    run: showTicks
+  },
+  {
+    name: 'history',
+    usage: 'history <id> [--from=<date>] [--to=<date>] [--limit=<n>]',
+    description: 'Stored snapshots, the last 24 hours by default',
+    run: showHistory
+  },
+  { name: 'collect', usage: 'collect --once [<id>...]', description: 'Fetch and persist one collection cycle', run: collect },
+  {
+    name: 'export',
+    usage: 'export <id> --from=<date> [--to=<date>] [--format=csv|jsonl|parquet] [--ticks] [--out=<dir>]',
+    description: 'Write stored history to daily files, skipping days already exported',
+    run: exportHistory
+  }
+];
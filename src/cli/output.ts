@@ -0,0 +1,56 @@
+import { bigintReplacer } from '../utils/common';
+
+export type Row = Record<string, string | number | bigint | boolean | null | undefined>;
+
+/**
+ * Print rows as an aligned table, numbers right-aligned
+ * @param rows Rows to print, keyed by column header
+ */
+export function printTable(rows: Row[]): void {
+  if (!rows.length) {
+    process.stdout.write('(no rows)\n');
+    return;
+  }
+
+  const columns = Object.keys(rows[0]);
+  const cells = rows.map(row => columns.map(column => formatCell(row[column])));
+  const widths = columns.map((column, i) => Math.max(column.length, ...cells.map(row => row[i].length)));
+  const numeric = columns.map(column => rows.every(row => {
+    const value = row[column];
+    return value === null || value === undefined || typeof value === 'number' || typeof value === 'bigint';
+  }));
+
+  const formatLine = (values: string[]) => values
+    .map((value, i) => numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i]))
+    .join('  ')
+    .trimEnd();
+
+  const lines = [
+    formatLine(columns),
+    formatLine(widths.map(width => '-'.repeat(width))),
+    ...cells.map(formatLine)
+  ];
+  process.stdout.write(`${lines.join('\n')}\n`);
+}
+
+/**
+ * Print a single record as `key  value` lines
+ */
+export function printRecord(record: Row): void {
+  const width = Math.max(...Object.keys(record).map(key => key.length));
+  const lines = Object.entries(record).map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`);
+  process.stdout.write(`${lines.join('\n')}\n`);
+}
+
+export function printJson(data: unknown): void {
+  process.stdout.write(`${JSON.stringify(data, bigintReplacer, 2)}\n`);
+}
+
+function formatCell(value: Row[string]): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'number') {
+    if (Number.isInteger(value)) return value.toString();
+    return Math.abs(value) >= 1 ? value.toFixed(4) : value.toPrecision(6);
+  }
+  return value.toString();
+}
@@ -4,17 +4,44 @@ import path from 'path';
 // Load environment variables
 dotenv.config({ path: path.resolve(process.cwd(), '.env') });
 
+export interface IRpcEndpointConfig {
+  url: string;
+  weight: number; // share of traffic among healthy endpoints
+  rateLimit: number; // requests per second
+}
+
+// `url|weight|requests per second` entries, weight and rate optional
+const rpcEndpoints = (value: string, fallbackUrl: string, fallbackRate: number): IRpcEndpointConfig[] => {
+  const entries = value.split(',').map(entry => entry.trim()).filter(Boolean);
+  return (entries.length ? entries : [fallbackUrl]).map(entry => {
+    const [url, weight, rateLimit] = entry.split('|').map(part => part.trim());
+    return {
+      url,
+      weight: weight ? parseFloat(weight) : 1,
+      rateLimit: rateLimit ? parseFloat(rateLimit) : fallbackRate
+    };
+  });
+};
+
 // RPC Configuration
+const RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+const RPC_RATE_LIMIT = parseInt(process.env.RPC_RATE_LIMIT || '10', 10);
+
 export const RPC_CONFIG = {
-  MAINNET_URL: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-  MAX_RETRIES: 5,
-  RETRY_DELAY: 2000, // 2 seconds
-  RATE_LIMIT_DELAY: 500, // 500ms
-  TIMEOUT: 60000, // 60 seconds
+  MAINNET_URL: RPC_URL,
+  WS_URL: process.env.SOLANA_WS_URL || undefined, // derived from the first endpoint when unset
+  // SOLANA_RPC_ENDPOINTS replaces SOLANA_RPC_URL when set
+  ENDPOINTS: rpcEndpoints(process.env.SOLANA_RPC_ENDPOINTS || '', RPC_URL, RPC_RATE_LIMIT),
+  MAX_RETRIES: 5, // attempts per request, across endpoints
+  RETRY_DELAY: 500, // base backoff, doubled per attempt when EXPONENTIAL_BACKOFF is set
+  TIMEOUT: 60000, // 60 seconds per attempt
   BATCH_SIZE: 50,
-  RATE_LIMIT: parseInt(process.env.RPC_RATE_LIMIT || '10', 10),
+  MAX_ACCOUNTS_PER_REQUEST: 100, // getMultipleAccountsInfo limit
+  RATE_LIMIT: RPC_RATE_LIMIT, // default requests per second of an endpoint
   EXPONENTIAL_BACKOFF: true, // Enable exponential backoff
   MAX_BACKOFF: 30000, // Maximum backoff time of 30 seconds
+  ENDPOINT_COOLDOWN: 5000, // ms an endpoint is skipped after a retryable failure, doubled per consecutive failure
+  MAX_ENDPOINT_COOLDOWN: 120000, // 2 minutes
 };
 
 // Database Configuration
@@ -39,6 +66,47 @@ export const COLLECTION_CONFIG = {
   BATCH_SIZE: 8, // number of pools to process in parallel
   MAX_RETRIES: 3,
   RETRY_DELAY: 2000, // ms
+  MODE: process.env.COLLECTION_MODE || 'poll', // 'poll' or 'stream'
+};
+
+// Pool Config Validation
+export const VALIDATION_CONFIG = {
+  ENABLED: process.env.POOL_VALIDATION !== 'false', // check POOLS against on-chain state at startup
+  // Pool ids collected even when they fail validation
+  OVERRIDES: (process.env.POOL_VALIDATION_OVERRIDES || '').split(',').map(poolId => poolId.trim()).filter(Boolean),
+};
+
+// Whirlpool Discovery
+export const DISCOVERY_CONFIG = {
+  ENABLED: process.env.POOL_DISCOVERY === 'true', // merge discovered pools into POOLS at startup
+  // Mints to pair up, all TOKENS when empty
+  MINTS: (process.env.POOL_DISCOVERY_MINTS || '').split(',').map(mint => mint.trim()).filter(Boolean),
+  WHIRLPOOLS_CONFIG: '2LecshUwdy9xi7meFgHtFJQNSKk4KdTrcpvaB56dP2NQ', // Orca mainnet WhirlpoolsConfig
+  TICK_SPACINGS: [1, 2, 4, 8, 16, 64, 96, 128, 256, 32896], // standard fee tiers and splash pools
+  MIN_LIQUIDITY_USD: parseFloat(process.env.POOL_DISCOVERY_MIN_LIQUIDITY_USD || '10000'),
+  MAX_POOLS_PER_PAIR: parseInt(process.env.POOL_DISCOVERY_MAX_POOLS_PER_PAIR || '1', 10), // deepest first
+};
+
+// Streaming Collection
+export const STREAM_CONFIG = {
+  FLUSH_DELAY: 1000, // ms to coalesce bursts of account updates
+  HEARTBEAT_TIMEOUT: 30000, // ms without slot updates before the socket is considered dropped
+  WATCHDOG_INTERVAL: 10000, // ms between socket health checks
+  FALLBACK_POLL_INTERVAL: 120000, // ms between polling cycles while the socket is down
+  COLLECTION_INTERVAL: 120000, // ms between token price writes, arbitrage passes and polls of venues that aren't streamed
+  UNSUBSCRIBE_TIMEOUT: 5000, // ms to wait for a listener removal on a dead socket
+};
+
+// Position Indexing
+export const POSITION_CONFIG = {
+  INDEX_INTERVAL: 1800000, // 30 minutes between getProgramAccounts sweeps
+};
+
+// Wallet Portfolios
+export const PORTFOLIO_CONFIG = {
+  // Owner wallets whose Whirlpool positions are snapshotted
+  WALLETS: (process.env.PORTFOLIO_WALLETS || '').split(',').map(wallet => wallet.trim()).filter(Boolean),
+  SNAPSHOT_INTERVAL: 300000, // 5 minutes between portfolio snapshots
 };
 
 // Price Calculation
@@ -47,6 +115,52 @@ export const PRICE_CONFIG = {
   PRICE_IMPACT_TOLERANCE: 0.01, // 1%
   MIN_LIQUIDITY_USD: 1000, // Minimum liquidity in USD to consider a pool valid
   OUTLIER_THRESHOLD: 0.1, // 10% deviation from median to be considered an outlier
+  USD_QUOTE_TOKEN: 'USDC', // TOKENS key every USD price is routed to
+};
+
+// Volume Derivation
+export const VOLUME_CONFIG = {
+  ROLLING_WINDOW: 24 * 60 * 60 * 1000, // 24 hours
+};
+
+// OHLCV Candles (Timescale continuous aggregates, created by migrations/002_candle_aggregates.sql)
+export const CANDLE_CONFIG = {
+  // Bucket widths must match the views; refresh policies are defined in the migration
+  INTERVALS: {
+    '1m': { BUCKET: '1 minute' },
+    '5m': { BUCKET: '5 minutes' },
+    '1h': { BUCKET: '1 hour' },
+    '1d': { BUCKET: '1 day' },
+  },
+};
+
+// LP Strategy Backtests
+export const BACKTEST_CONFIG = {
+  INITIAL_CAPITAL: parseFloat(process.env.BACKTEST_INITIAL_CAPITAL || '10000'), // in token B
+  SLIPPAGE_PCT: parseFloat(process.env.BACKTEST_SLIPPAGE_PCT || '0.001'), // on top of the pool fee for rebalance swaps
+  REBALANCE_COST_USD: parseFloat(process.env.BACKTEST_REBALANCE_COST_USD || '0.01'), // transaction fees per rebalance
+};
+
+// Tick Storage
+export const TICK_STORE_CONFIG = {
+  CHECKPOINT_INTERVAL: 60 * 60 * 1000, // ms between full tick sets, bounds how many changes a rebuild reads
+  SNAPSHOT_BATCH_SIZE: 100, // snapshots rebuilt per query when streaming
+};
+
+// Historical Data Export
+export const EXPORT_CONFIG = {
+  OUTPUT_DIR: process.env.EXPORT_DIR || 'exports',
+  BATCH_SIZE: 5000, // rows fetched per query
+  ROW_GROUP_SIZE: 50000, // rows per Parquet row group
+  CHUNK_INTERVAL: 24 * 60 * 60 * 1000, // one file per UTC day and dataset, the unit an interrupted export resumes from
+};
+
+// Arbitrage Detection
+export const ARBITRAGE_CONFIG = {
+  MIN_PROFIT_PCT: parseFloat(process.env.ARBITRAGE_MIN_PROFIT_PCT || '0.001'), // 0.1% after fees and price impact
+  MIN_PROFIT_USD: parseFloat(process.env.ARBITRAGE_MIN_PROFIT_USD || '1'),
+  TRADE_SIZES_USD: [100, 1000, 10000], // notional sizes tried on every loop
+  MAX_SNAPSHOT_SKEW: 30000, // ms between the oldest and newest snapshot of a loop
 };
 
 // Logging Configuration
@@ -65,6 +179,39 @@ export const MONITORING_CONFIG = {
   HEALTH_CHECK_INTERVAL: 300000, // 5 minutes
 };
 
+// Alert Evaluation and Delivery
+export const ALERT_CONFIG = {
+  LOOKBACK_WINDOW: 60 * 60 * 1000, // price and liquidity moves are measured over the last hour
+  VOLUME_BASELINE_WINDOW: 24 * 60 * 60 * 1000, // average volume rate a new interval is compared to
+  MIN_BASELINE_COVERAGE: 60 * 60, // seconds of volume history needed before spikes are reported
+  COOLDOWN: 15 * 60 * 1000, // ms before the same alert can fire again for a pool
+  CRITICAL_MULTIPLIER: 2, // moves this many times past the threshold are critical
+  SINKS: (process.env.ALERT_SINKS || 'log').split(',').map(sink => sink.trim()).filter(Boolean), // log, file, webhook, memory
+  FILE_PATH: process.env.ALERT_FILE_PATH || 'logs/alerts.log',
+  WEBHOOK_URL: process.env.ALERT_WEBHOOK_URL || '',
+  WEBHOOK_TIMEOUT: 10000, // 10 seconds
+};
+
+// HTTP API
+export const API_CONFIG = {
+  HOST: process.env.API_HOST || '127.0.0.1', // set API_HOST=0.0.0.0 to serve other hosts
+  PORT: parseInt(process.env.API_PORT || '3000', 10),
+  DEFAULT_PAGE_SIZE: 100,
+  MAX_PAGE_SIZE: 1000,
+  MAX_HISTORY_RANGE: 31 * 24 * 60 * 60 * 1000, // 31 days per history request
+  DEFAULT_HISTORY_RANGE: 24 * 60 * 60 * 1000, // 24 hours when no start is given
+  CORS_ORIGIN: process.env.API_CORS_ORIGIN || '', // no CORS headers unless set, e.g. to the frontend origin
+};
+
+// Prometheus Metrics, served by the collector
+export const METRICS_CONFIG = {
+  ENABLED: process.env.METRICS_ENABLED !== 'false',
+  HOST: process.env.METRICS_HOST || '127.0.0.1',
+  PORT: parseInt(process.env.METRICS_PORT || '9464', 10),
+  LATENCY_BUCKETS: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10], // seconds, RPC and DB calls
+  CYCLE_BUCKETS: [1, 2.5, 5, 10, 20, 30, 60, 120], // seconds, collection cycles
+};
+
 // Cache Configuration
 export const CACHE_CONFIG = {
   TTL: 60000, // 1 minute cache TTL
@@ -77,6 +224,75 @@ export const TABLE_NAMES = {
   POOL_DATA: 'solana_pool_data',
   PRICE_DATA: 'solana_price_data',
   TICKS_DATA: 'solana_ticks_data',
+  TICK_SNAPSHOTS: 'solana_tick_snapshots',
+  MIGRATIONS: 'solana_schema_migrations',
+  TOKEN_PRICES: 'solana_token_prices',
+  VOLUME_DATA: 'solana_volume_data',
+  POSITIONS: 'solana_positions',
+  WALLET_POSITIONS: 'solana_wallet_positions',
+  ARBITRAGE: 'solana_arbitrage_opportunities',
+  ALERTS: 'solana_alerts',
+  PRICE_CANDLES: 'solana_price_candles', // suffixed with the interval, e.g. solana_price_candles_1h
+  VOLUME_CANDLES: 'solana_volume_candles',
+};
+
+// Schema Migrations
+export const MIGRATION_CONFIG = {
+  DIRECTORY: path.resolve(__dirname, '../../migrations'), // <version>_<name>.sql files
+  LOCK_KEY: 72415, // advisory lock held while migrating, so concurrent starts apply each file once
+};
+
+// Timescale compression and retention per hypertable, reapplied after every migration run.
+// Intervals are Postgres intervals, null disables the policy. An empty env value disables it too.
+const policyInterval = (value: string | undefined, fallback: string | null) =>
+  value === undefined ? fallback : value || null;
+
+export const STORAGE_POLICIES: {
+  [table: string]: { COMPRESS_AFTER: string | null; SEGMENT_BY: string; ORDER_BY: string; DROP_AFTER: string | null };
+} = {
+  [TABLE_NAMES.POOL_DATA]: {
+    COMPRESS_AFTER: '7 days',
+    SEGMENT_BY: 'pool_address',
+    ORDER_BY: 'timestamp DESC',
+    DROP_AFTER: policyInterval(process.env.POOL_DATA_RETENTION, null),
+  },
+  [TABLE_NAMES.PRICE_DATA]: {
+    COMPRESS_AFTER: '7 days',
+    SEGMENT_BY: 'pool_address',
+    ORDER_BY: 'timestamp DESC',
+    DROP_AFTER: policyInterval(process.env.POOL_DATA_RETENTION, null),
+  },
+  [TABLE_NAMES.VOLUME_DATA]: {
+    COMPRESS_AFTER: '7 days',
+    SEGMENT_BY: 'pool_address',
+    ORDER_BY: 'timestamp DESC',
+    DROP_AFTER: policyInterval(process.env.POOL_DATA_RETENTION, null),
+  },
+  [TABLE_NAMES.TOKEN_PRICES]: {
+    COMPRESS_AFTER: '7 days',
+    SEGMENT_BY: 'token_mint',
+    ORDER_BY: 'timestamp DESC',
+    DROP_AFTER: policyInterval(process.env.POOL_DATA_RETENTION, null),
+  },
+  // Tick changes are downsampled before their chunks are compressed
+  [TABLE_NAMES.TICKS_DATA]: {
+    COMPRESS_AFTER: policyInterval(process.env.TICK_COMPRESS_AFTER, '3 days'),
+    SEGMENT_BY: 'pool_address',
+    ORDER_BY: 'timestamp DESC, tick_index',
+    DROP_AFTER: policyInterval(process.env.TICK_RETENTION, '90 days'),
+  },
+  [TABLE_NAMES.TICK_SNAPSHOTS]: {
+    COMPRESS_AFTER: policyInterval(process.env.TICK_COMPRESS_AFTER, '3 days'),
+    SEGMENT_BY: 'pool_address',
+    ORDER_BY: 'timestamp DESC',
+    DROP_AFTER: policyInterval(process.env.TICK_RETENTION, '90 days'),
+  },
+};
+
+// Tick history older than this keeps only its checkpoints (solana_downsample_ticks job)
+export const TICK_DOWNSAMPLE_CONFIG = {
+  AFTER: policyInterval(process.env.TICK_DOWNSAMPLE_AFTER, '2 days'),
+  SCHEDULE: '1 hour',
 };
 
 // Error Messages
@@ -97,21 +313,35 @@ export const QUERIES = {
       pool_address,
       token_a_amount,
       token_b_amount,
+      token_a_amount_raw,
+      token_b_amount_raw,
+      virtual_token_a_amount,
+      virtual_token_b_amount,
       sqrt_price,
       liquidity,
       tick_current,
       fee_growth_global_a,
-      fee_growth_global_b
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      fee_growth_global_b,
+      fee_rate,
+      protocol_fee_rate,
+      venue
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
     ON CONFLICT (timestamp, pool_address) 
     DO UPDATE SET
       token_a_amount = EXCLUDED.token_a_amount,
       token_b_amount = EXCLUDED.token_b_amount,
+      token_a_amount_raw = EXCLUDED.token_a_amount_raw,
+      token_b_amount_raw = EXCLUDED.token_b_amount_raw,
+      virtual_token_a_amount = EXCLUDED.virtual_token_a_amount,
+      virtual_token_b_amount = EXCLUDED.virtual_token_b_amount,
       sqrt_price = EXCLUDED.sqrt_price,
       liquidity = EXCLUDED.liquidity,
       tick_current = EXCLUDED.tick_current,
       fee_growth_global_a = EXCLUDED.fee_growth_global_a,
-      fee_growth_global_b = EXCLUDED.fee_growth_global_b
+      fee_growth_global_b = EXCLUDED.fee_growth_global_b,
+      fee_rate = EXCLUDED.fee_rate,
+      protocol_fee_rate = EXCLUDED.protocol_fee_rate,
+      venue = EXCLUDED.venue
   `,
   
   INSERT_PRICE_DATA: `
@@ -120,25 +350,53 @@ export const QUERIES = {
       pool_address,
       price,
       volume_24h,
-      liquidity_usd
-    ) VALUES ($1, $2, $3, $4, $5)
+      liquidity_usd,
+      token_a_price_usd,
+      token_b_price_usd
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
     ON CONFLICT (timestamp, pool_address) 
     DO UPDATE SET
       price = EXCLUDED.price,
       volume_24h = EXCLUDED.volume_24h,
-      liquidity_usd = EXCLUDED.liquidity_usd
+      liquidity_usd = EXCLUDED.liquidity_usd,
+      token_a_price_usd = EXCLUDED.token_a_price_usd,
+      token_b_price_usd = EXCLUDED.token_b_price_usd
   `,
   
+  INSERT_VOLUME_DATA: `
+    INSERT INTO ${TABLE_NAMES.VOLUME_DATA} (
+      timestamp,
+      pool_address,
+      interval_seconds,
+      fees_a,
+      fees_b,
+      volume_a,
+      volume_b,
+      fees_usd,
+      volume_usd
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    ON CONFLICT (timestamp, pool_address)
+    DO UPDATE SET
+      interval_seconds = EXCLUDED.interval_seconds,
+      fees_a = EXCLUDED.fees_a,
+      fees_b = EXCLUDED.fees_b,
+      volume_a = EXCLUDED.volume_a,
+      volume_b = EXCLUDED.volume_b,
+      fees_usd = EXCLUDED.fees_usd,
+      volume_usd = EXCLUDED.volume_usd
+  `,
+
   INSERT_TICKS_DATA: `
     INSERT INTO public.${TABLE_NAMES.TICKS_DATA} (
       timestamp, pool_address, tick_index,
       liquidity_net, liquidity_gross,
-      fee_growth_outside_a, fee_growth_outside_b
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      fee_growth_outside_a, fee_growth_outside_b, removed
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
     ON CONFLICT (timestamp, pool_address, tick_index) DO UPDATE SET
       liquidity_net = EXCLUDED.liquidity_net,
       liquidity_gross = EXCLUDED.liquidity_gross,
       fee_growth_outside_a = EXCLUDED.fee_growth_outside_a,
-      fee_growth_outside_b = EXCLUDED.fee_growth_outside_b
+      fee_growth_outside_b = EXCLUDED.fee_growth_outside_b,
+      removed = EXCLUDED.removed
   `,
 }; 
\ No newline at end of file
@@ -1,21 +1,31 @@
 import { PublicKey } from '@solana/web3.js';
 
+export type Venue = 'orca' | 'raydium' | 'meteora';
+
 export interface ITokenConfig {
   address: PublicKey;
   decimals: number;
   symbol: string;
 }
 
+export interface IAlertThresholds {
+  priceChange: number; // relative price move over the lookback window
+  liquidityChange: number; // relative change of in-range liquidity over the lookback window
+  volumeSpike: number; // multiple of the baseline volume rate
+}
+
 export interface IPoolConfig {
   name: string;
   address: PublicKey;
   tokenA: ITokenConfig;
   tokenB: ITokenConfig;
-  tickSpacing: number;
+  tickSpacing: number; // bin step for Meteora DLMM pairs
+  venue?: Venue; // defaults to 'orca'
+  alertThresholds?: Partial<IAlertThresholds>; // overrides MONITORING_CONFIG for this pool
 }
 
 // Common tokens used across multiple pools
-const TOKENS = {
+export const TOKENS: { [key: string]: ITokenConfig } = {
   SOL: {
     address: new PublicKey('So11111111111111111111111111111111111111112'),
     decimals: 9,
@@ -167,6 +177,22 @@ export const POOLS: { [key: string]: IPoolConfig } = {
     tokenA: TOKENS.SPX,
     tokenB: TOKENS.USDC,
     tickSpacing: TICK_SPACING.VOLATILE
+  },
+  RAYDIUM_SOL_USDC: {
+    name: 'SOL/USDC',
+    address: new PublicKey('8sLbNZoA1cfnvMJLPfp98ZLAnFSYCFApfJKMbiXNLwxj'),
+    tokenA: TOKENS.SOL,
+    tokenB: TOKENS.USDC,
+    tickSpacing: 10,
+    venue: 'raydium'
+  },
+  METEORA_SOL_USDC: {
+    name: 'SOL/USDC',
+    address: new PublicKey('5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6'),
+    tokenA: TOKENS.SOL,
+    tokenB: TOKENS.USDC,
+    tickSpacing: 4, // bin step
+    venue: 'meteora'
   }
 };
 // Export pool addresses array for easy iteration
@@ -183,4 +209,31 @@ export function getPoolConfigByAddress(address: string): IPoolConfig | undefined
 // Utility function to get pool config by name
 export function getPoolConfigByName(name: string): IPoolConfig | undefined {
   return POOLS[name];
-} 
\ No newline at end of file
+} 
+// Utility function to get the DEX a pool trades on
+export function getPoolVenue(poolConfig: IPoolConfig): Venue {
+  return poolConfig.venue ?? 'orca';
+}
+
+// Utility function to get token config by mint address
+export function getTokenConfigByMint(mint: string): ITokenConfig | undefined {
+  return Object.values(TOKENS).find(token => token.address.toString() === mint);
+}
+
+/**
+ * Add a pool to the registry at runtime, along with any tokens not yet in TOKENS
+ * @param poolId Registry key
+ * @param poolConfig Pool configuration
+ */
+export function registerPool(poolId: string, poolConfig: IPoolConfig): void {
+  if (POOLS[poolId]) {
+    throw new Error(`Pool ${poolId} is already registered`);
+  }
+
+  for (const token of [poolConfig.tokenA, poolConfig.tokenB]) {
+    if (!getTokenConfigByMint(token.address.toString())) {
+      TOKENS[TOKENS[token.symbol] ? token.address.toString() : token.symbol] = token;
+    }
+  }
+  POOLS[poolId] = poolConfig;
+}
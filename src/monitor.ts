@@ -1,24 +1,58 @@
 import { monitorService } from './services/monitor';
+import { streamService } from './services/stream';
+import { poolValidator } from './services/validator';
+import { discoveryService } from './services/discovery';
+import { metricsService } from './services/metrics';
+import { COLLECTION_CONFIG, DISCOVERY_CONFIG, METRICS_CONFIG } from './config/constants';
 import { logger } from './utils/logger';
 
+/**
+ * Collection mode from `--mode=poll|stream`, falling back to COLLECTION_MODE
+ */
+function getMode(): string {
+  const arg = process.argv.find(a => a.startsWith('--mode='));
+  const mode = arg ? arg.split('=')[1] : COLLECTION_CONFIG.MODE;
+  if (mode !== 'poll' && mode !== 'stream') {
+    throw new Error(`Unknown collection mode: ${mode}`);
+  }
+  return mode;
+}
+
 async function main() {
   try {
-    logger.info('Starting Orca pool monitoring...');
+    const mode = getMode();
+    const service = mode === 'stream' ? streamService : monitorService;
+
+    logger.info(`Starting Orca pool monitoring in ${mode} mode...`);
     logger.info('Press Ctrl+C to stop\n');
 
     // Handle graceful shutdown
     process.on('SIGINT', async () => {
       logger.info('\nReceived SIGINT. Shutting down gracefully...');
-      await monitorService.stop();
+      await service.stop();
+      await metricsService.stop();
       process.exit(0);
     });
 
+    // Prometheus scrapes the collector itself, the counters live in this process
+    if (METRICS_CONFIG.ENABLED) {
+      await metricsService.start();
+    }
+
+    // Track the deepest Whirlpools of the configured tokens
+    if (DISCOVERY_CONFIG.ENABLED) {
+      discoveryService.mergeIntoRegistry(await discoveryService.discoverPools());
+    }
+
+    // Drop pools whose config does not match their on-chain account
+    await poolValidator.enforce();
+
     // Start the monitoring service
-    await monitorService.start();
+    await service.start();
   } catch (error) {
     logger.error('Fatal error:', error);
     process.exit(1);
   }
 }
 
-main(); 
\ No newline at end of file
+main();
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import { backtestService, IBacktestReport } from '../services/backtest';
+import { BacktestStrategy } from '../analytics/backtest';
+import { POOLS } from '../config/pools';
+import { logger } from '../utils/logger';
+
+const DEFAULT_WINDOW = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Value of `--name=value`
+ */
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+function getNumberArg(name: string, defaultValue: number): number {
+  const value = getArg(name);
+  const parsed = value === undefined ? defaultValue : Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Strategies from `--strategy=fixed|recenter|volatility`, all three when omitted
+ */
+function getStrategies(): BacktestStrategy[] {
+  const percent = getNumberArg('percent', 0.05);
+  const trigger = getNumberArg('trigger', 1);
+  const strategies: Record<BacktestStrategy['type'], BacktestStrategy> = {
+    fixed: { type: 'fixed', range: { percent } },
+    recenter: { type: 'recenter', percent, trigger },
+    volatility: {
+      type: 'volatility',
+      lookback: getNumberArg('lookback', 24) * 60 * 60 * 1000,
+      multiplier: getNumberArg('multiplier', 2),
+      minPercent: getNumberArg('min-percent', 0.005),
+      trigger
+    }
+  };
+
+  const type = getArg('strategy');
+  if (!type) {
+    return Object.values(strategies);
+  }
+  if (!(type in strategies)) {
+    throw new Error(`Unknown strategy ${type}: expected one of ${Object.keys(strategies).join(', ')}`);
+  }
+  return [strategies[type as BacktestStrategy['type']]];
+}
+
+function formatReport(report: IBacktestReport): string {
+  const pct = (value: number) => `${(value * 100).toFixed(2)}%`.padStart(9);
+  return `${report.strategy.padEnd(32)} value ${report.finalValue.toFixed(2).padStart(12)} ` +
+    `fees ${report.feesValue.toFixed(2).padStart(10)} IL ${pct(report.impermanentLoss)} ` +
+    `vs hold ${pct(report.vsHold)} APR ${pct(report.apr)} ` +
+    `rebalances ${String(report.rebalances).padStart(4)} cost ${report.rebalanceCost.toFixed(2).padStart(8)} ` +
+    `in range ${pct(report.timeInRange)}`;
+}
+
+async function runBacktests() {
+  try {
+    const poolId = getArg('pool') || Object.keys(POOLS)[0];
+    if (!POOLS[poolId]) {
+      throw new Error(`Unknown pool ${poolId}: expected one of ${Object.keys(POOLS).join(', ')}`);
+    }
+    const end = getArg('end') ? new Date(getArg('end')!) : new Date();
+    const start = getArg('start') ? new Date(getArg('start')!) : new Date(end.getTime() - DEFAULT_WINDOW);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      throw new Error('Invalid --start/--end: expected ISO-8601 dates with start before end');
+    }
+    const capital = getArg('capital') ? getNumberArg('capital', 0) : undefined;
+
+    const reports: IBacktestReport[] = [];
+    for (const strategy of getStrategies()) {
+      const report = await backtestService.runBacktest(poolId, strategy, start, end, { initialCapital: capital });
+      if (!report) {
+        throw new Error(`Not enough snapshots for ${poolId} between ${start.toISOString()} and ${end.toISOString()}`);
+      }
+      reports.push(report);
+    }
+
+    const { tokenB } = POOLS[poolId];
+    logger.info(`\n${poolId} ${reports[0].start.toISOString()} to ${reports[0].end.toISOString()}, ` +
+      `initial ${reports[0].initialValue.toFixed(2)} ${tokenB.symbol}, hold ${reports[0].holdValue.toFixed(2)}`);
+    reports.forEach(report => logger.info(formatReport(report)));
+
+    // Full reports with equity curves
+    const out = getArg('out');
+    if (out) {
+      fs.writeFileSync(out, JSON.stringify(reports, null, 2));
+      logger.info(`Reports written to ${out}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error('Backtest failed:', error);
+    process.exit(1);
+  }
+}
+
+runBacktests();
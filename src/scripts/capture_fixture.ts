@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { orcaService } from '../services/orca';
+import { POOLS, Venue, getPoolVenue } from '../config/pools';
+import { getConnection } from '../utils/rpc';
+import { logger } from '../utils/logger';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'test', 'fixtures');
+const FIXTURE_PATH = path.join(FIXTURES_DIR, 'whirlpool-snapshot.json');
+
+// Raw pool accounts for the offline decode test, one per venue without a snapshot fixture
+const ACCOUNT_FIXTURES: { venue: Venue; file: string }[] = [
+  { venue: 'raydium', file: 'raydium-pool.json' },
+  { venue: 'meteora', file: 'meteora-pair.json' }
+];
+
+/**
+ * Record the raw account of the first configured pool of each venue in ACCOUNT_FIXTURES,
+ * with the slot it was read at
+ */
+async function captureAccounts() {
+  const poolIds = ACCOUNT_FIXTURES.map(({ venue }) => {
+    const poolId = Object.keys(POOLS).find(poolId => getPoolVenue(POOLS[poolId]) === venue);
+    if (!poolId) {
+      throw new Error(`No ${venue} pool configured`);
+    }
+    return poolId;
+  });
+  const { context, value } = await getConnection().getMultipleAccountsInfoAndContext(
+    poolIds.map(poolId => POOLS[poolId].address)
+  );
+
+  ACCOUNT_FIXTURES.forEach(({ file }, index) => {
+    const poolId = poolIds[index];
+    const account = value[index];
+    if (!account) {
+      throw new Error(`Pool account not found for ${poolId}`);
+    }
+
+    const fixture = {
+      slot: context.slot,
+      poolId,
+      address: POOLS[poolId].address.toBase58(),
+      owner: account.owner.toBase58(),
+      lamports: account.lamports,
+      data: account.data.toString('base64')
+    };
+    fs.writeFileSync(path.join(FIXTURES_DIR, file), `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.info(`Captured ${poolId} account at slot ${context.slot}: ${account.data.length} bytes`);
+  });
+}
+
+/**
+ * Record a live Whirlpool and its initialized ticks as the swap simulator fixture.
+ * Pool and ticks come from one batched sweep (the one behind getPoolData), read at or
+ * after the recorded slot. Raydium and Meteora pool accounts are recorded alongside.
+ */
+async function captureFixture() {
+  try {
+    const poolId = process.argv[2] || 'SOL/USDC';
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+
+    const slot = await getConnection().getSlot('confirmed');
+    const [snapshot] = await orcaService.fetchPoolSnapshots([poolId]);
+    const account = await getConnection().getAccountInfo(poolConfig.address);
+    if (!snapshot || !account) {
+      throw new Error(`Pool not found for ${poolId}`);
+    }
+    const { poolData, ticks } = snapshot;
+    // From the account rather than the config, a wrong config must not end up in the fixture
+    const { tickSpacing } = orcaService.decodePoolInfo(account);
+
+    const fixture = {
+      slot,
+      pool: {
+        poolAddress: poolData.poolAddress,
+        timestamp: poolData.timestamp.toISOString(),
+        tickSpacing,
+        feeRate: poolData.feeRate,
+        protocolFeeRate: poolData.protocolFeeRate,
+        sqrtPrice: poolData.sqrtPrice.toString(),
+        liquidity: poolData.liquidity.toString(),
+        tickCurrent: poolData.tickCurrent
+      },
+      ticks: ticks.map(tick => ({
+        tickIndex: tick.tickIndex,
+        liquidityNet: tick.liquidityNet.toString(),
+        liquidityGross: tick.liquidityGross.toString()
+      }))
+    };
+
+    fs.writeFileSync(FIXTURE_PATH, `${JSON.stringify(fixture, null, 2)}\n`);
+    logger.info(`Captured ${poolId} at slot ${slot}: tick ${poolData.tickCurrent}, ${ticks.length} initialized ticks`);
+
+    await captureAccounts();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Fixture capture failed:', error);
+    process.exit(1);
+  }
+}
+
+captureFixture();
@@ -0,0 +1,66 @@
+import { discoveryService, IDiscoveredPool } from '../services/discovery';
+import { getTokenConfigByMint, TOKENS } from '../config/pools';
+import { logger } from '../utils/logger';
+
+/**
+ * Mints from `--mints=mint1,mint2,...`, TOKENS keys are accepted too
+ */
+function getMints(): string[] | undefined {
+  const arg = process.argv.find(a => a.startsWith('--mints='));
+  if (!arg) return undefined;
+  return arg.split('=')[1].split(',').map(mint => TOKENS[mint] ? TOKENS[mint].address.toBase58() : mint);
+}
+
+/**
+ * Render a token as a TOKENS reference when it matches one, inline otherwise
+ */
+function formatToken(token: IDiscoveredPool['poolConfig']['tokenA']): string {
+  const key = Object.keys(TOKENS).find(key => TOKENS[key] === getTokenConfigByMint(token.address.toBase58()));
+  if (key && TOKENS[key].decimals === token.decimals) {
+    return `TOKENS.${key}`;
+  }
+  return `{ address: new PublicKey('${token.address.toBase58()}'), decimals: ${token.decimals}, symbol: '${token.symbol}' }`;
+}
+
+/**
+ * pools.ts entry for a discovered pool
+ */
+function formatEntry(entry: IDiscoveredPool): string {
+  return [
+    `  ${entry.poolId}: {`,
+    `    name: '${entry.poolConfig.name}',`,
+    `    address: new PublicKey('${entry.poolConfig.address.toBase58()}'),`,
+    `    tokenA: ${formatToken(entry.poolConfig.tokenA)},`,
+    `    tokenB: ${formatToken(entry.poolConfig.tokenB)},`,
+    `    tickSpacing: ${entry.poolConfig.tickSpacing}`,
+    '  },'
+  ].join('\n');
+}
+
+async function discoverPools() {
+  try {
+    const discovered = await discoveryService.discoverPools(getMints());
+    const selected = new Set(discoveryService.selectPools(discovered));
+
+    logger.info('\nDiscovered pools, deepest first:');
+    for (const entry of discovered) {
+      const tvl = entry.liquidityUsd !== undefined ? `$${entry.liquidityUsd.toFixed(0)}` : 'unpriced';
+      const status = entry.configuredAs ? `configured as ${entry.configuredAs}` : selected.has(entry) ? 'new' : '';
+      logger.info(`${selected.has(entry) ? '*' : ' '} ${entry.poolId.padEnd(24)} ${entry.poolConfig.address.toBase58().padEnd(44)} ` +
+        `fee ${(entry.feeRate / 10000).toFixed(2)}% ${tvl.padStart(14)} ${status}`);
+    }
+
+    // Paste-ready entries for the selected pools that are not tracked yet
+    if (process.argv.includes('--emit')) {
+      const entries = [...selected].filter(entry => !entry.configuredAs);
+      logger.info(entries.length ? `\n${entries.map(formatEntry).join('\n')}` : '\nNo new pools to add');
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error('Pool discovery failed:', error);
+    process.exit(1);
+  }
+}
+
+discoverPools();
@@ -0,0 +1,29 @@
+import { dbService } from '../services/database';
+import { schemaService } from '../services/schema';
+import { logger } from '../utils/logger';
+
+/**
+ * Apply pending schema migrations, or list them with --status
+ */
+async function migrate() {
+  try {
+    if (process.argv.includes('--status')) {
+      const status = await schemaService.getMigrationStatus();
+      for (const migration of status) {
+        const applied = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        logger.info(`${String(migration.version).padStart(3, '0')}_${migration.name.padEnd(24)} ${applied}`);
+      }
+    } else {
+      const applied = await schemaService.migrate();
+      logger.info(applied.length ? `Applied migrations ${applied.join(', ')}` : 'Nothing to migrate');
+    }
+
+    await dbService.cleanup();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+migrate();
@@ -0,0 +1,50 @@
+import { portfolioService } from '../services/portfolio';
+import { positionStore } from '../services/position-store';
+import { PORTFOLIO_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+/**
+ * Wallets from the command line, PORTFOLIO_CONFIG.WALLETS otherwise
+ */
+function getWallets(): string[] {
+  const wallets = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  return wallets.length ? wallets : PORTFOLIO_CONFIG.WALLETS;
+}
+
+async function showPortfolios() {
+  try {
+    const wallets = getWallets();
+    if (!wallets.length) {
+      throw new Error('No wallet given: pass owner addresses or set PORTFOLIO_WALLETS');
+    }
+
+    for (const owner of wallets) {
+      const portfolio = await portfolioService.getPortfolio(owner);
+      logger.info(`\n${owner}: ${portfolio.positions.length} positions, $${portfolio.valueUsd.toFixed(2)}` +
+        (portfolio.unpricedPositions ? ` (${portfolio.unpricedPositions} unpriced)` : ''));
+
+      for (const position of portfolio.positions) {
+        const usd = (value?: number) => value !== undefined ? `$${value.toFixed(2)}` : 'n/a';
+        const bundle = position.bundleMint ? ` bundle ${position.bundleMint}#${position.bundleIndex}` : '';
+        const rewards = position.rewards.map(reward => `${reward.amount.toFixed(6)} ${reward.symbol}`).join(', ');
+        logger.info(`  ${position.poolId.padEnd(16)} ${position.positionAddress}${bundle}`);
+        logger.info(`    ${position.inRange ? 'in range    ' : 'out of range'} ` +
+          `${position.priceLower.toPrecision(6)}-${position.priceUpper.toPrecision(6)} ` +
+          `value ${usd(position.valueUsd)} fees ${usd(position.feesUsd)} rewards ${usd(position.rewardsUsd)}` +
+          (rewards ? ` (${rewards})` : ''));
+      }
+
+      // Record the snapshot alongside the monitor's periodic ones
+      if (process.argv.includes('--save')) {
+        await positionStore.saveWalletPositions(portfolio.positions);
+      }
+    }
+
+    process.exit(0);
+  } catch (error) {
+    logger.error('Portfolio lookup failed:', error);
+    process.exit(1);
+  }
+}
+
+showPortfolios();
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+import { poolValidator } from '../services/validator';
+import { POOLS } from '../config/pools';
+import { logger } from '../utils/logger';
+
+const POOLS_DOC = path.join(__dirname, '../../pools.md');
+
+interface IDocumentedPool {
+  name: string;
+  address: string;
+  mints: string[];
+}
+
+/**
+ * Parse pools.md: a name line, then `Pool Address: ...`, then `SYMBOL: mint` lines
+ */
+function parsePoolsDoc(content: string): IDocumentedPool[] {
+  const pools: IDocumentedPool[] = [];
+  const lines = content.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+  for (let i = 0; i < lines.length; i++) {
+    const address = lines[i].match(/^Pool Address:\s*(\S+)/);
+    if (address) {
+      pools.push({ name: lines[i - 1] || '', address: address[1], mints: [] });
+      continue;
+    }
+
+    const mint = lines[i].match(/^[^:\s]+:\s*([1-9A-HJ-NP-Za-km-z]{32,44})$/);
+    if (mint && pools.length) {
+      pools[pools.length - 1].mints.push(mint[1]);
+    }
+  }
+  return pools;
+}
+
+/**
+ * Differences between the addresses and mints documented in pools.md and POOLS
+ */
+function findDocDrift(documented: IDocumentedPool[]): string[] {
+  const drift: string[] = [];
+  const configured = Object.entries(POOLS);
+
+  for (const doc of documented) {
+    const match = configured.find(([, config]) => config.address.toBase58() === doc.address);
+    if (!match) {
+      const sameName = configured.filter(([, config]) => config.name === doc.name);
+      drift.push(sameName.length
+        ? `${doc.name}: pools.md address ${doc.address}, pools.ts has ${sameName.map(([poolId, config]) => `${poolId} ${config.address.toBase58()}`).join(', ')}`
+        : `${doc.name}: ${doc.address} is documented but not configured`);
+      continue;
+    }
+
+    const [poolId, config] = match;
+    const configuredMints = [config.tokenA.address.toBase58(), config.tokenB.address.toBase58()];
+    const missing = doc.mints.filter(mint => !configuredMints.includes(mint));
+    if (missing.length) {
+      drift.push(`${poolId}: pools.md mints ${missing.join(', ')} not in pools.ts (${configuredMints.join(', ')})`);
+    }
+  }
+
+  for (const [poolId, config] of configured) {
+    if (!documented.some(doc => doc.address === config.address.toBase58())) {
+      drift.push(`${poolId}: ${config.address.toBase58()} is configured but not documented in pools.md`);
+    }
+  }
+  return drift;
+}
+
+async function validatePools() {
+  try {
+    logger.info(`Validating ${Object.keys(POOLS).length} pools against on-chain state...`);
+    const results = await poolValidator.validatePools();
+    results.forEach(result => poolValidator.logResult(result));
+
+    if (fs.existsSync(POOLS_DOC)) {
+      const drift = findDocDrift(parsePoolsDoc(fs.readFileSync(POOLS_DOC, 'utf8')));
+      logger.info(`\npools.md drift: ${drift.length ? '' : 'none'}`);
+      drift.forEach(line => logger.warn(`- ${line}`));
+    }
+
+    const failed = results.filter(result => !result.valid && !result.overridden);
+    logger.info(`\n${results.length - failed.length}/${results.length} pools passed or are overridden`);
+    process.exit(failed.length ? 1 : 0);
+  } catch (error) {
+    logger.error('Pool validation failed:', error);
+    process.exit(1);
+  }
+}
+
+validatePools();
@@ -0,0 +1,22 @@
+import { apiServer } from './api/server';
+import { logger } from './utils/logger';
+
+async function main() {
+  try {
+    logger.info('Starting pool data API...');
+
+    // Handle graceful shutdown
+    process.on('SIGINT', async () => {
+      logger.info('\nReceived SIGINT. Shutting down gracefully...');
+      await apiServer.stop();
+      process.exit(0);
+    });
+
+    await apiServer.start();
+  } catch (error) {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,115 @@
+import { TABLE_NAMES } from '../config/constants';
+import { IAlert, AlertSeverity, AlertType } from './alerts';
+import { dbService } from './database';
+import { logger } from '../utils/logger';
+
+interface IAlertRow {
+  timestamp: Date;
+  pool_address: string;
+  pool_name: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  change: string;
+  threshold: string;
+  reference_value: string;
+  current_value: string;
+  snapshot_timestamp: Date;
+}
+
+function mapAlertRow(row: IAlertRow): IAlert {
+  return {
+    timestamp: row.timestamp,
+    poolAddress: row.pool_address,
+    poolName: row.pool_name,
+    type: row.type,
+    severity: row.severity,
+    message: row.message,
+    change: parseFloat(row.change),
+    threshold: parseFloat(row.threshold),
+    referenceValue: parseFloat(row.reference_value),
+    currentValue: parseFloat(row.current_value),
+    snapshotTimestamp: row.snapshot_timestamp,
+  };
+}
+
+/**
+ * Reads and writes of pool alerts
+ */
+export class AlertStore {
+  private static instance: AlertStore;
+
+  private constructor() {}
+
+  public static getInstance(): AlertStore {
+    if (!AlertStore.instance) {
+      AlertStore.instance = new AlertStore();
+    }
+    return AlertStore.instance;
+  }
+
+  public async saveAlerts(alerts: IAlert[]): Promise<void> {
+    if (!alerts.length) return;
+
+    try {
+      const values = alerts.map(alert => ({
+        timestamp: alert.timestamp,
+        pool_address: alert.poolAddress,
+        pool_name: alert.poolName,
+        type: alert.type,
+        severity: alert.severity,
+        message: alert.message,
+        change: alert.change,
+        threshold: alert.threshold,
+        reference_value: alert.referenceValue,
+        current_value: alert.currentValue,
+        snapshot_timestamp: alert.snapshotTimestamp,
+      }));
+
+      const cs = new dbService.pgp.helpers.ColumnSet([
+        'timestamp',
+        'pool_address',
+        'pool_name',
+        'type',
+        'severity',
+        'message',
+        'change',
+        'threshold',
+        'reference_value',
+        'current_value',
+        'snapshot_timestamp'
+      ], { table: TABLE_NAMES.ALERTS });
+
+      const query = dbService.pgp.helpers.insert(values, cs) +
+        ' ON CONFLICT (timestamp, pool_address, type) DO NOTHING';
+
+      await dbService.measureWrite('alerts', () => dbService.db.none(query));
+    } catch (error: any) {
+      logger.error(`Error saving alerts: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get fired alerts in a time range, newest first
+   */
+  public async getAlerts(startTime: Date, endTime: Date, poolAddress?: string): Promise<IAlert[]> {
+    try {
+      const rows = await dbService.db.any<IAlertRow>(`
+        SELECT *
+        FROM ${TABLE_NAMES.ALERTS}
+        WHERE timestamp BETWEEN $1 AND $2
+          AND ($3::text IS NULL OR pool_address = $3)
+        ORDER BY timestamp DESC;
+      `, [startTime, endTime, poolAddress ?? null]);
+
+      return rows.map(mapAlertRow);
+    } catch (error: any) {
+      logger.error(`Error getting alerts: ${error.message}`);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const alertStore = AlertStore.getInstance();
@@ -0,0 +1,228 @@
+import { IPoolData } from './source';
+import { dbService } from './database';
+import { poolStore } from './pool-store';
+import { alertStore } from './alert-store';
+import { IVolumeInterval } from './volume';
+import { IAlertSink, createSinks } from './sinks';
+import { getPoolConfigByAddress, IAlertThresholds } from '../config/pools';
+import { ALERT_CONFIG, MONITORING_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+export type AlertType = 'price_change' | 'liquidity_change' | 'volume_spike';
+export type AlertSeverity = 'warning' | 'critical';
+
+export interface IAlert {
+  timestamp: Date;
+  poolAddress: string;
+  poolName: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  message: string;
+  change: number; // relative move, or the volume multiple for spikes
+  threshold: number;
+  referenceValue: number;
+  currentValue: number;
+  snapshotTimestamp: Date;
+}
+
+export class AlertService {
+  private static instance: AlertService;
+  private sinks: IAlertSink[];
+  // Snapshot time each alert key last fired at, for cooldowns and deduplication
+  private lastFired = new Map<string, number>();
+  private isSeeded: boolean = false;
+
+  private constructor() {
+    this.sinks = createSinks(ALERT_CONFIG.SINKS);
+  }
+
+  public static getInstance(): AlertService {
+    if (!AlertService.instance) {
+      AlertService.instance = new AlertService();
+    }
+    return AlertService.instance;
+  }
+
+  /**
+   * Replace the delivery sinks
+   */
+  public setSinks(sinks: IAlertSink[]): void {
+    this.sinks = sinks;
+  }
+
+  /**
+   * Effective thresholds of a pool: its own overrides on top of MONITORING_CONFIG
+   */
+  public getThresholds(poolAddress: string): IAlertThresholds {
+    return {
+      priceChange: MONITORING_CONFIG.PRICE_CHANGE_ALERT,
+      liquidityChange: MONITORING_CONFIG.LIQUIDITY_CHANGE_ALERT,
+      volumeSpike: MONITORING_CONFIG.VOLUME_SPIKE_ALERT,
+      ...getPoolConfigByAddress(poolAddress)?.alertThresholds
+    };
+  }
+
+  /**
+   * Check a new pool snapshot against recent history and fire any alerts it crosses.
+   * Price and liquidity are compared to the oldest snapshot in ALERT_CONFIG.LOOKBACK_WINDOW,
+   * the latest volume interval to the average volume rate over the baseline window.
+   * Never throws, so collection is not interrupted by alerting failures.
+   * @param poolData Snapshot that was just stored
+   * @param interval Volume interval ending at the snapshot, if any
+   * @returns Alerts fired
+   */
+  public async checkSnapshot(poolData: IPoolData, interval?: IVolumeInterval | null): Promise<IAlert[]> {
+    try {
+      await this.seedCooldowns();
+
+      const candidates = [
+        ...await this.checkHistory(poolData),
+        ...(interval ? [await this.checkVolume(poolData, interval)] : [])
+      ].filter((alert): alert is IAlert => alert !== null);
+
+      const fired = candidates.filter(alert => this.shouldFire(alert));
+      if (!fired.length) return [];
+
+      await Promise.all(fired.map(alert => this.deliver(alert)));
+      await alertStore.saveAlerts(fired);
+      return fired;
+    } catch (error: any) {
+      logger.error(`Error checking alerts for ${poolData.poolAddress}: ${error.message}`);
+      return [];
+    }
+  }
+
+  private async checkHistory(poolData: IPoolData): Promise<Array<IAlert | null>> {
+    const history = await dbService.getPoolHistory(
+      poolData.poolAddress,
+      new Date(poolData.timestamp.getTime() - ALERT_CONFIG.LOOKBACK_WINDOW),
+      poolData.timestamp
+    );
+    const reference = history.find(snapshot => snapshot.timestamp < poolData.timestamp);
+    if (!reference) return [];
+
+    const thresholds = this.getThresholds(poolData.poolAddress);
+    const alerts: Array<IAlert | null> = [];
+
+    if (reference.price > 0) {
+      alerts.push(this.createAlert(
+        poolData, 'price_change', poolData.price / reference.price - 1,
+        thresholds.priceChange, reference.price, poolData.price
+      ));
+    }
+
+    if (reference.liquidity > 0n) {
+      alerts.push(this.createAlert(
+        poolData, 'liquidity_change', Number(poolData.liquidity - reference.liquidity) / Number(reference.liquidity),
+        thresholds.liquidityChange, Number(reference.liquidity), Number(poolData.liquidity)
+      ));
+    }
+
+    return alerts;
+  }
+
+  private async checkVolume(poolData: IPoolData, interval: IVolumeInterval): Promise<IAlert | null> {
+    if (interval.intervalSeconds <= 0) return null;
+
+    // Baseline ends where the new interval starts
+    const intervalStart = new Date(interval.timestamp.getTime() - interval.intervalSeconds * 1000);
+    const baseline = await poolStore.getVolumeSummary(
+      poolData.poolAddress,
+      new Date(intervalStart.getTime() - ALERT_CONFIG.VOLUME_BASELINE_WINDOW),
+      intervalStart
+    );
+    if (baseline.coveredSeconds < ALERT_CONFIG.MIN_BASELINE_COVERAGE) return null;
+
+    // Compare in USD when both sides are priced, otherwise in token A
+    const useUsd = interval.volumeUsd !== undefined && baseline.volumeUsd > 0;
+    const baselineRate = (useUsd ? baseline.volumeUsd : baseline.volumeA) / baseline.coveredSeconds;
+    const currentRate = (useUsd ? interval.volumeUsd! : interval.volumeA) / interval.intervalSeconds;
+    if (baselineRate <= 0) return null;
+
+    const thresholds = this.getThresholds(poolData.poolAddress);
+    return this.createAlert(
+      poolData, 'volume_spike', currentRate / baselineRate,
+      thresholds.volumeSpike, baselineRate, currentRate
+    );
+  }
+
+  private createAlert(
+    poolData: IPoolData,
+    type: AlertType,
+    change: number,
+    threshold: number,
+    referenceValue: number,
+    currentValue: number
+  ): IAlert | null {
+    if (!Number.isFinite(change) || Math.abs(change) < threshold) return null;
+
+    const poolName = getPoolConfigByAddress(poolData.poolAddress)?.name || poolData.poolAddress;
+    const severity: AlertSeverity = Math.abs(change) >= threshold * ALERT_CONFIG.CRITICAL_MULTIPLIER
+      ? 'critical'
+      : 'warning';
+    const message = type === 'volume_spike'
+      ? `${poolName} volume at ${change.toFixed(1)}x its baseline rate (threshold ${threshold}x)`
+      : `${poolName} ${type === 'price_change' ? 'price' : 'liquidity'} ${change > 0 ? 'up' : 'down'} ` +
+        `${(Math.abs(change) * 100).toFixed(2)}% (threshold ${(threshold * 100).toFixed(0)}%)`;
+
+    return {
+      timestamp: new Date(),
+      poolAddress: poolData.poolAddress,
+      poolName,
+      type,
+      severity,
+      message,
+      change,
+      threshold,
+      referenceValue,
+      currentValue,
+      snapshotTimestamp: poolData.timestamp
+    };
+  }
+
+  /**
+   * Apply the per-pool, per-direction cooldown. Measured on snapshot time, so
+   * re-processing the same snapshot never fires twice.
+   */
+  private shouldFire(alert: IAlert): boolean {
+    const key = this.getKey(alert.poolAddress, alert.type, alert.change);
+    const last = this.lastFired.get(key);
+    const at = alert.snapshotTimestamp.getTime();
+    if (last !== undefined && at - last < ALERT_CONFIG.COOLDOWN) {
+      return false;
+    }
+    this.lastFired.set(key, at);
+    return true;
+  }
+
+  private async deliver(alert: IAlert): Promise<void> {
+    const results = await Promise.allSettled(this.sinks.map(sink => sink.send(alert)));
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        logger.warn(`Alert sink ${this.sinks[i].name} failed: ${result.reason?.message || result.reason}`);
+      }
+    });
+  }
+
+  /**
+   * Restore cooldowns from stored alerts so a restart does not re-fire them
+   */
+  private async seedCooldowns(): Promise<void> {
+    if (this.isSeeded) return;
+    this.isSeeded = true;
+
+    const recent = await alertStore.getAlerts(new Date(Date.now() - ALERT_CONFIG.COOLDOWN), new Date());
+    for (const alert of recent) {
+      const key = this.getKey(alert.poolAddress, alert.type, alert.change);
+      this.lastFired.set(key, Math.max(this.lastFired.get(key) ?? 0, alert.snapshotTimestamp.getTime()));
+    }
+  }
+
+  private getKey(poolAddress: string, type: AlertType, change: number): string {
+    const direction = type === 'volume_spike' ? '' : change > 0 ? ':up' : ':down';
+    return `${poolAddress}:${type}${direction}`;
+  }
+}
+
+// Export singleton instance
+export const alertService = AlertService.getInstance();
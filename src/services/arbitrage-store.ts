@@ -0,0 +1,66 @@
+import { TABLE_NAMES } from '../config/constants';
+import { IArbitrageOpportunity } from './arbitrage';
+import { dbService } from './database';
+import { logger } from '../utils/logger';
+import { bigintReplacer } from '../utils/common';
+
+/**
+ * Writes of detected arbitrage opportunities
+ */
+export class ArbitrageStore {
+  private static instance: ArbitrageStore;
+
+  private constructor() {}
+
+  public static getInstance(): ArbitrageStore {
+    if (!ArbitrageStore.instance) {
+      ArbitrageStore.instance = new ArbitrageStore();
+    }
+    return ArbitrageStore.instance;
+  }
+
+  public async saveArbitrageOpportunities(opportunities: IArbitrageOpportunity[]): Promise<void> {
+    if (!opportunities.length) return;
+
+    try {
+      const values = opportunities.map(opportunity => ({
+        timestamp: opportunity.timestamp,
+        route: opportunity.route,
+        kind: opportunity.kind,
+        start_mint: opportunity.startMint,
+        amount_in: opportunity.amountIn,
+        amount_out: opportunity.amountOut,
+        amount_in_usd: opportunity.amountInUsd,
+        profit_usd: opportunity.profitUsd,
+        profit_pct: opportunity.profitPct,
+        legs: JSON.stringify(opportunity.legs, bigintReplacer),
+        snapshot_timestamps: opportunity.snapshotTimestamps,
+      }));
+
+      const cs = new dbService.pgp.helpers.ColumnSet([
+        'timestamp',
+        'route',
+        'kind',
+        'start_mint',
+        'amount_in',
+        'amount_out',
+        'amount_in_usd',
+        'profit_usd',
+        'profit_pct',
+        { name: 'legs', cast: 'jsonb' },
+        { name: 'snapshot_timestamps', cast: 'timestamptz[]' }
+      ], { table: TABLE_NAMES.ARBITRAGE });
+
+      const query = dbService.pgp.helpers.insert(values, cs) +
+        ' ON CONFLICT (timestamp, route) DO NOTHING';
+
+      await dbService.measureWrite('arbitrage_opportunities', () => dbService.db.none(query));
+    } catch (error: any) {
+      logger.error(`Error saving arbitrage opportunities: ${error.message}`);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const arbitrageStore = ArbitrageStore.getInstance();
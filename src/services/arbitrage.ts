@@ -0,0 +1,161 @@
+import { IPoolSnapshot } from './source';
+import { arbitrageStore } from './arbitrage-store';
+import { pricingService, ITokenPrice } from './pricing';
+import {
+  findArbitrageCycles,
+  evaluateCycle,
+  ArbitrageKind,
+  IArbitrageCycle,
+  IArbitrageLeg,
+  IArbitrageResult
+} from '../analytics/arbitrage';
+import { getTokenConfigByMint } from '../config/pools';
+import { ARBITRAGE_CONFIG } from '../config/constants';
+import { bigintReplacer } from '../utils/common';
+import { logger, arbitrageLogger } from '../utils/logger';
+
+export interface IArbitrageOpportunity {
+  timestamp: Date;
+  kind: ArbitrageKind;
+  route: string; // e.g. SOL > USDC > cbBTC > SOL via SOL/USDC, CBBTC_USDC, CBBTC_SOL
+  startMint: string;
+  amountIn: bigint; // raw start token
+  amountOut: bigint;
+  amountInUsd: number;
+  profitUsd: number;
+  profitPct: number;
+  legs: IArbitrageLeg[];
+  snapshotTimestamps: Date[]; // one per leg
+}
+
+export class ArbitrageService {
+  private static instance: ArbitrageService;
+  // Snapshot timestamps each route was last evaluated on, to skip unchanged state
+  private lastEvaluated = new Map<string, string>();
+
+  private constructor() {}
+
+  public static getInstance(): ArbitrageService {
+    if (!ArbitrageService.instance) {
+      ArbitrageService.instance = new ArbitrageService();
+    }
+    return ArbitrageService.instance;
+  }
+
+  /**
+   * Check every direct and triangular loop across the snapshots for a profitable round trip.
+   * Each loop is run at ARBITRAGE_CONFIG.TRADE_SIZES_USD through the swap simulator, so
+   * fees and price impact are included; the most profitable filled size is kept.
+   * Opportunities above the thresholds are stored and written to the alert stream.
+   * @param snapshots Latest snapshot of every pool, with ticks
+   * @param prices USD prices, computed from the snapshots when omitted
+   * @returns Recorded opportunities
+   */
+  public async detect(
+    snapshots: IPoolSnapshot[],
+    prices: Map<string, ITokenPrice> = pricingService.computePrices(snapshots.map(snapshot => snapshot.poolData))
+  ): Promise<IArbitrageOpportunity[]> {
+    const snapshotMap = new Map(snapshots.map(snapshot => [snapshot.poolId, snapshot]));
+    // Start loops at the best-priced tokens so profit is measured in something liquid
+    const startPriority = [...prices.values()]
+      .sort((a, b) => b.depthUsd - a.depthUsd)
+      .map(price => price.mint);
+
+    const opportunities: IArbitrageOpportunity[] = [];
+    for (const cycle of findArbitrageCycles(snapshots, startPriority)) {
+      const timestamps = cycle.hops.map(hop => snapshotMap.get(hop.poolId)!.poolData.timestamp.getTime());
+      if (Math.max(...timestamps) - Math.min(...timestamps) > ARBITRAGE_CONFIG.MAX_SNAPSHOT_SKEW) continue;
+
+      const route = this.formatRoute(cycle.hops.map(hop => hop.tokenIn), cycle.hops.map(hop => hop.poolId));
+      const stateKey = timestamps.join(',');
+      if (this.lastEvaluated.get(route) === stateKey) continue;
+      this.lastEvaluated.set(route, stateKey);
+
+      const opportunity = this.evaluate(cycle, route, snapshotMap, prices);
+      if (opportunity
+        && opportunity.profitPct >= ARBITRAGE_CONFIG.MIN_PROFIT_PCT
+        && opportunity.profitUsd >= ARBITRAGE_CONFIG.MIN_PROFIT_USD) {
+        opportunities.push(opportunity);
+      }
+    }
+
+    if (opportunities.length) {
+      for (const opportunity of opportunities) {
+        logger.info(`Arbitrage ${opportunity.kind} ${opportunity.route}: ` +
+          `$${opportunity.profitUsd.toFixed(2)} (${(opportunity.profitPct * 100).toFixed(3)}%) ` +
+          `on $${opportunity.amountInUsd.toFixed(0)}`);
+        arbitrageLogger.info('arbitrage_opportunity', JSON.parse(JSON.stringify(opportunity, bigintReplacer)));
+      }
+
+      try {
+        await arbitrageStore.saveArbitrageOpportunities(opportunities);
+      } catch (error: any) {
+        logger.error(`Error saving arbitrage opportunities: ${error.message}`);
+      }
+    }
+
+    return opportunities;
+  }
+
+  /**
+   * Run a loop at every configured size and keep the most profitable filled result
+   */
+  private evaluate(
+    cycle: IArbitrageCycle,
+    route: string,
+    snapshots: Map<string, IPoolSnapshot>,
+    prices: Map<string, ITokenPrice>
+  ): IArbitrageOpportunity | null {
+    const { startMint } = cycle;
+    const price = prices.get(startMint);
+    const token = getTokenConfigByMint(startMint);
+    if (!price || !token || price.priceUsd <= 0) return null;
+
+    const scale = 10 ** token.decimals;
+    let best: { result: IArbitrageResult; profitUsd: number } | null = null;
+
+    for (const sizeUsd of ARBITRAGE_CONFIG.TRADE_SIZES_USD) {
+      const amountIn = BigInt(Math.floor(sizeUsd / price.priceUsd * scale));
+      if (amountIn <= 0n) continue;
+
+      let result: IArbitrageResult;
+      try {
+        result = evaluateCycle(cycle, snapshots, amountIn);
+      } catch (error: any) {
+        logger.warn(`Failed to simulate ${route}: ${error.message}`);
+        return null;
+      }
+      if (!result.filled) continue;
+
+      const profitUsd = Number(result.profit) / scale * price.priceUsd;
+      if (!best || profitUsd > best.profitUsd) {
+        best = { result, profitUsd };
+      }
+    }
+
+    if (!best) return null;
+
+    const { result, profitUsd } = best;
+    return {
+      timestamp: new Date(),
+      kind: cycle.kind,
+      route,
+      startMint,
+      amountIn: result.amountIn,
+      amountOut: result.amountOut,
+      amountInUsd: Number(result.amountIn) / scale * price.priceUsd,
+      profitUsd,
+      profitPct: result.profitPct,
+      legs: result.legs,
+      snapshotTimestamps: result.legs.map(leg => leg.snapshotTimestamp)
+    };
+  }
+
+  private formatRoute(mints: string[], poolIds: string[]): string {
+    const symbols = [...mints, mints[0]].map(mint => getTokenConfigByMint(mint)?.symbol || mint);
+    return `${symbols.join(' > ')} via ${poolIds.join(', ')}`;
+  }
+}
+
+// Export singleton instance
+export const arbitrageService = ArbitrageService.getInstance();
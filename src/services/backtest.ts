@@ -0,0 +1,289 @@
+import { dbService } from './database';
+import { tickSnapshotStore } from './tick-snapshot-store';
+import { IPoolData } from './source';
+import { POOLS, IPoolConfig, getPoolVenue } from '../config/pools';
+import { BACKTEST_CONFIG } from '../config/constants';
+import { BacktestStrategy, describeStrategy, getStrategyRange, shouldRebalance } from '../analytics/backtest';
+import {
+  IFeeGrowth,
+  ITickRange,
+  REFERENCE_LIQUIDITY,
+  crossTickOutside,
+  getDepositAmounts,
+  getFeeGrowthInside,
+  initTickOutside
+} from '../analytics/fees';
+import { logger } from '../utils/logger';
+
+const U128 = 1n << 128n;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const FEE_RATE_DENOMINATOR = 1_000_000;
+
+export interface IBacktestOptions {
+  initialCapital: number; // in token B
+  slippagePct: number;
+  rebalanceCostUsd: number;
+}
+
+export interface IBacktestPoint {
+  timestamp: Date;
+  price: number;
+  tickLower: number;
+  tickUpper: number;
+  inRange: boolean;
+  tokenA: number; // position balances, decimal-adjusted
+  tokenB: number;
+  feesValue: number; // cumulative fees in token B, valued when earned
+  value: number; // position plus uncollected fees, in token B
+  holdValue: number; // initial deposit held, in token B
+}
+
+export interface IBacktestReport {
+  poolId: string;
+  strategy: string;
+  start: Date;
+  end: Date;
+  windowSeconds: number;
+  initialValue: number; // all values in token B
+  finalValue: number;
+  holdValue: number;
+  feesA: number;
+  feesB: number;
+  feesValue: number;
+  rebalances: number;
+  rebalanceCost: number;
+  impermanentLoss: number; // price-driven loss against holding, excluding fees and rebalance costs
+  return: number;
+  apr: number;
+  vsHold: number; // final value relative to holding
+  timeInRange: number;
+  equityCurve: IBacktestPoint[];
+}
+
+interface IPosition {
+  range: ITickRange;
+  units: number; // liquidity in multiples of REFERENCE_LIQUIDITY
+  lowerOutside: IFeeGrowth;
+  upperOutside: IFeeGrowth;
+  feeGrowthInside: IFeeGrowth; // at the last accrual
+  feesA: number; // uncollected, decimal-adjusted
+  feesB: number;
+}
+
+export class BacktestService {
+  private static instance: BacktestService;
+
+  private constructor() {}
+
+  public static getInstance(): BacktestService {
+    if (!BacktestService.instance) {
+      BacktestService.instance = new BacktestService();
+    }
+    return BacktestService.instance;
+  }
+
+  /**
+   * Replay stored snapshots of a pool and simulate a position run by a strategy.
+   * Fees accrue from fee growth inside the position's range between snapshots.
+   * On a rebalance, the position and its fees are withdrawn, swapped into the new
+   * range's token ratio at the pool fee plus slippage, and redeposited.
+   * @param poolId Pool identifier
+   * @param strategy Strategy to run
+   * @param startTime Start of the replay
+   * @param endTime End of the replay
+   * @param options Capital and rebalance costs, BACKTEST_CONFIG by default
+   * @returns Run report, or null if fewer than two snapshots fall in the window
+   */
+  public async runBacktest(
+    poolId: string,
+    strategy: BacktestStrategy,
+    startTime: Date,
+    endTime: Date,
+    options: Partial<IBacktestOptions> = {}
+  ): Promise<IBacktestReport | null> {
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+    if (getPoolVenue(poolConfig) === 'meteora') {
+      throw new Error(`Fee growth is not tracked for Meteora DLMM pairs (${poolId})`);
+    }
+
+    const settings: IBacktestOptions = {
+      initialCapital: options.initialCapital ?? BACKTEST_CONFIG.INITIAL_CAPITAL,
+      slippagePct: options.slippagePct ?? BACKTEST_CONFIG.SLIPPAGE_PCT,
+      rebalanceCostUsd: options.rebalanceCostUsd ?? BACKTEST_CONFIG.REBALANCE_COST_USD
+    };
+
+    try {
+      const series = await dbService.getPoolHistory(poolConfig.address.toBase58(), startTime, endTime);
+      if (series.length < 2) {
+        return null;
+      }
+      return await this.simulate(poolId, poolConfig, strategy, series, settings);
+    } catch (error: any) {
+      logger.error(`Error running backtest for ${poolId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async simulate(
+    poolId: string,
+    poolConfig: IPoolConfig,
+    strategy: BacktestStrategy,
+    series: IPoolData[],
+    options: IBacktestOptions
+  ): Promise<IBacktestReport> {
+    const decimalsA = poolConfig.tokenA.decimals;
+    const decimalsB = poolConfig.tokenB.decimals;
+    const first = series[0];
+
+    let position = await this.openPosition(poolConfig, strategy, series, 0, options.initialCapital);
+    const [holdA, holdB] = this.getBalances(position, first, poolConfig);
+
+    const equityCurve: IBacktestPoint[] = [];
+    let feesA = 0;
+    let feesB = 0;
+    let feesValue = 0;
+    let rebalances = 0;
+    let rebalanceCost = 0;
+    let inRangeMs = 0;
+
+    for (let i = 0; i < series.length; i++) {
+      const snapshot = series[i];
+
+      if (i > 0) {
+        const previous = series[i - 1];
+        if (this.isInRange(previous, position.range)) {
+          inRangeMs += snapshot.timestamp.getTime() - previous.timestamp.getTime();
+        }
+
+        // Accrue fees since the previous snapshot
+        position.lowerOutside = crossTickOutside(position.range.tickLower, position.lowerOutside, previous, snapshot);
+        position.upperOutside = crossTickOutside(position.range.tickUpper, position.upperOutside, previous, snapshot);
+        const inside = getFeeGrowthInside(snapshot, position.range, position.lowerOutside, position.upperOutside);
+        const earnedA = position.units * Number((inside.a - position.feeGrowthInside.a + U128) % U128) / 10 ** decimalsA;
+        const earnedB = position.units * Number((inside.b - position.feeGrowthInside.b + U128) % U128) / 10 ** decimalsB;
+        position.feeGrowthInside = inside;
+        position.feesA += earnedA;
+        position.feesB += earnedB;
+        feesA += earnedA;
+        feesB += earnedB;
+        feesValue += earnedA * snapshot.price + earnedB;
+
+        if (i < series.length - 1 && shouldRebalance(strategy, snapshot, position.range)) {
+          const [balanceA, balanceB] = this.getBalances(position, snapshot, poolConfig);
+          const heldA = balanceA + position.feesA;
+          const value = heldA * snapshot.price + balanceB + position.feesB;
+
+          // Size the new range, then charge for swapping into its token ratio
+          const next = await this.openPosition(poolConfig, strategy, series, i, value);
+          const [targetA] = this.getBalances(next, snapshot, poolConfig);
+          const swapValue = Math.abs(targetA - heldA) * snapshot.price;
+          const fixedCost = snapshot.tokenBPriceUsd ? options.rebalanceCostUsd / snapshot.tokenBPriceUsd : 0;
+          const cost = swapValue * (snapshot.feeRate / FEE_RATE_DENOMINATOR + options.slippagePct) + fixedCost;
+
+          next.units *= value > 0 ? Math.max(0, value - cost) / value : 0;
+          position = next;
+          rebalances++;
+          rebalanceCost += cost;
+        }
+      }
+
+      const [tokenA, tokenB] = this.getBalances(position, snapshot, poolConfig);
+      equityCurve.push({
+        timestamp: snapshot.timestamp,
+        price: snapshot.price,
+        tickLower: position.range.tickLower,
+        tickUpper: position.range.tickUpper,
+        inRange: this.isInRange(snapshot, position.range),
+        tokenA,
+        tokenB,
+        feesValue,
+        value: (tokenA + position.feesA) * snapshot.price + tokenB + position.feesB,
+        holdValue: holdA * snapshot.price + holdB
+      });
+    }
+
+    const last = equityCurve[equityCurve.length - 1];
+    const initialValue = equityCurve[0].value;
+    const windowSeconds = (last.timestamp.getTime() - first.timestamp.getTime()) / 1000;
+    const periodReturn = initialValue > 0 ? last.value / initialValue - 1 : 0;
+    const totalMs = windowSeconds * 1000;
+
+    const report: IBacktestReport = {
+      poolId,
+      strategy: describeStrategy(strategy),
+      start: first.timestamp,
+      end: last.timestamp,
+      windowSeconds,
+      initialValue,
+      finalValue: last.value,
+      holdValue: last.holdValue,
+      feesA,
+      feesB,
+      feesValue,
+      rebalances,
+      rebalanceCost,
+      impermanentLoss: last.holdValue > 0 ? (last.value - feesValue + rebalanceCost) / last.holdValue - 1 : 0,
+      return: periodReturn,
+      apr: windowSeconds > 0 ? periodReturn * SECONDS_PER_YEAR / windowSeconds : 0,
+      vsHold: last.holdValue > 0 ? last.value / last.holdValue - 1 : 0,
+      timeInRange: totalMs > 0 ? inRangeMs / totalMs : 0,
+      equityCurve
+    };
+
+    logger.info(`Backtest ${poolId} ${report.strategy}: return ${(report.return * 100).toFixed(2)}%, ` +
+      `${rebalances} rebalances, ${(report.timeInRange * 100).toFixed(1)}% in range`);
+    return report;
+  }
+
+  /**
+   * Open the strategy's range at a snapshot with a given value in token B
+   */
+  private async openPosition(
+    poolConfig: IPoolConfig,
+    strategy: BacktestStrategy,
+    series: IPoolData[],
+    index: number,
+    value: number
+  ): Promise<IPosition> {
+    const snapshot = series[index];
+    const range = getStrategyRange(strategy, series.slice(0, index + 1), poolConfig);
+    const ticks = await tickSnapshotStore.getTicksAt(snapshot.poolAddress, snapshot.timestamp);
+    const lowerOutside = initTickOutside(range.tickLower, snapshot, ticks);
+    const upperOutside = initTickOutside(range.tickUpper, snapshot, ticks);
+
+    const position: IPosition = {
+      range,
+      units: 1,
+      lowerOutside,
+      upperOutside,
+      feeGrowthInside: getFeeGrowthInside(snapshot, range, lowerOutside, upperOutside),
+      feesA: 0,
+      feesB: 0
+    };
+    const [unitA, unitB] = this.getBalances(position, snapshot, poolConfig);
+    const unitValue = unitA * snapshot.price + unitB;
+    position.units = unitValue > 0 ? value / unitValue : 0;
+    return position;
+  }
+
+  /**
+   * Decimal-adjusted token balances of a position at a snapshot's price
+   */
+  private getBalances(position: IPosition, snapshot: IPoolData, poolConfig: IPoolConfig): [number, number] {
+    const amounts = getDepositAmounts(snapshot.sqrtPrice, position.range, REFERENCE_LIQUIDITY);
+    return [
+      position.units * Number(amounts.a) / 10 ** poolConfig.tokenA.decimals,
+      position.units * Number(amounts.b) / 10 ** poolConfig.tokenB.decimals
+    ];
+  }
+
+  private isInRange(snapshot: IPoolData, range: ITickRange): boolean {
+    return snapshot.tickCurrent >= range.tickLower && snapshot.tickCurrent < range.tickUpper;
+  }
+}
+
+// Export singleton instance
+export const backtestService = BacktestService.getInstance();
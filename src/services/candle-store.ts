@@ -0,0 +1,111 @@
+import { TABLE_NAMES, CANDLE_CONFIG } from '../config/constants';
+import { dbService } from './database';
+import { logger } from '../utils/logger';
+
+export type CandleInterval = keyof typeof CANDLE_CONFIG.INTERVALS;
+
+export interface ICandle {
+  poolAddress: string;
+  interval: CandleInterval;
+  timestamp: Date; // bucket start
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  avgLiquidityUsd: number | null;
+  volumeA: number; // fee-derived, decimal-adjusted
+  volumeB: number;
+  volumeUsd: number | null;
+  feesUsd: number | null;
+  samples: number; // price snapshots in the bucket
+}
+
+interface ICandleRow {
+  pool_address: string;
+  bucket: Date;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  avg_liquidity_usd: string | null;
+  samples: string;
+  volume_a: string | null;
+  volume_b: string | null;
+  volume_usd: string | null;
+  fees_usd: string | null;
+}
+
+function mapCandleRow(row: ICandleRow, interval: CandleInterval): ICandle {
+  return {
+    poolAddress: row.pool_address,
+    interval,
+    timestamp: row.bucket,
+    open: parseFloat(row.open),
+    high: parseFloat(row.high),
+    low: parseFloat(row.low),
+    close: parseFloat(row.close),
+    avgLiquidityUsd: row.avg_liquidity_usd !== null ? parseFloat(row.avg_liquidity_usd) : null,
+    volumeA: row.volume_a !== null ? parseFloat(row.volume_a) : 0,
+    volumeB: row.volume_b !== null ? parseFloat(row.volume_b) : 0,
+    volumeUsd: row.volume_usd !== null ? parseFloat(row.volume_usd) : null,
+    feesUsd: row.fees_usd !== null ? parseFloat(row.fees_usd) : null,
+    samples: parseInt(row.samples, 10),
+  };
+}
+
+/**
+ * Reads of OHLCV candles from the continuous aggregates
+ */
+export class CandleStore {
+  private static instance: CandleStore;
+
+  private constructor() {}
+
+  public static getInstance(): CandleStore {
+    if (!CandleStore.instance) {
+      CandleStore.instance = new CandleStore();
+    }
+    return CandleStore.instance;
+  }
+
+  /**
+   * Get OHLCV candles for a pool from the continuous aggregates
+   * @param poolAddress Pool address
+   * @param interval Candle width
+   * @param startTime Start of the range, rounded down to the candle boundary
+   * @param endTime End of the range, inclusive
+   */
+  public async getCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    startTime: Date,
+    endTime: Date
+  ): Promise<ICandle[]> {
+    const config = CANDLE_CONFIG.INTERVALS[interval];
+    if (!config) {
+      throw new Error(`Unknown candle interval: ${interval}`);
+    }
+
+    try {
+      const rows = await dbService.db.any<ICandleRow>(`
+        SELECT p.*, v.volume_a, v.volume_b, v.volume_usd, v.fees_usd
+        FROM ${TABLE_NAMES.PRICE_CANDLES}_${interval} p
+        LEFT JOIN ${TABLE_NAMES.VOLUME_CANDLES}_${interval} v
+          ON v.pool_address = p.pool_address
+          AND v.bucket = p.bucket
+        WHERE p.pool_address = $1
+          AND p.bucket >= time_bucket(INTERVAL '${config.BUCKET}', $2::timestamptz)
+          AND p.bucket <= $3
+        ORDER BY p.bucket ASC;
+      `, [poolAddress, startTime, endTime]);
+
+      return rows.map(row => mapCandleRow(row, interval));
+    } catch (error: any) {
+      logger.error(`Error getting candles: ${error.message}`);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const candleStore = CandleStore.getInstance();
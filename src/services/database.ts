@@ -1,13 +1,18 @@
-import pgPromise, { IDatabase, IMain, ColumnSet, ITask, IBaseProtocol, IQueryFileOptions } from 'pg-promise';
-import { DB_CONFIG, TABLE_NAMES, QUERIES } from '../config/constants';
-import { IPoolData, ITickData } from './orca';
+import pgPromise, { IDatabase, IMain } from 'pg-promise';
+import { DB_CONFIG } from '../config/constants';
+import { IPoolData } from './source';
+import { poolStore } from './pool-store';
+import { candleStore, CandleInterval, ICandle } from './candle-store';
+import { metricsService } from './metrics';
 import { logger } from '../utils/logger';
 
-interface IExtensions {
+export { CandleInterval, ICandle } from './candle-store';
+
+export interface IExtensions {
   // Add any custom extensions here
 }
 
-type DatabaseConnection = IDatabase<IExtensions>;
+export type DatabaseConnection = IDatabase<IExtensions>;
 
 interface IPgError extends Error {
   code?: string;
@@ -19,10 +24,15 @@ interface IPgEvent {
   ctx: any;
 }
 
+/**
+ * Connection pool and health of the TimescaleDB database. Table reads and writes live in
+ * the stores next to the services that own the data; the query methods consumers share
+ * stay here and delegate to them.
+ */
 class DatabaseService {
   private static instance: DatabaseService;
-  private db: DatabaseConnection;
-  private pgp: IMain;
+  public readonly db: DatabaseConnection;
+  public readonly pgp: IMain;
   private isConnected: boolean = false;
   private retryCount: number = 0;
   private readonly MAX_RETRIES = 5;
@@ -75,6 +85,8 @@ class DatabaseService {
 
     // Test connection on initialization
     this.testConnection();
+
+    metricsService.dbHealthy.onCollect(gauge => gauge.set({}, this.isConnected ? 1 : 0));
   }
 
   private async testConnection(): Promise<void> {
@@ -108,199 +120,56 @@ class DatabaseService {
     return this.isConnected;
   }
 
-  public async ensureTablesExist(): Promise<void> {
-    try {
-      logger.info('Ensuring database tables exist...');
-      
-      await this.db.none(`
-        CREATE TABLE IF NOT EXISTS ${TABLE_NAMES.POOL_DATA} (
-          timestamp TIMESTAMPTZ NOT NULL,
-          pool_address TEXT NOT NULL,
-          token_a_amount NUMERIC NOT NULL,
-          token_b_amount NUMERIC NOT NULL,
-          sqrt_price NUMERIC NOT NULL,
-          liquidity NUMERIC NOT NULL,
-          tick_current INTEGER NOT NULL,
-          fee_growth_global_a NUMERIC NOT NULL,
-          fee_growth_global_b NUMERIC NOT NULL,
-          PRIMARY KEY (timestamp, pool_address)
-        );
-        SELECT create_hypertable('${TABLE_NAMES.POOL_DATA}', 'timestamp', if_not_exists => TRUE);
-
-        CREATE TABLE IF NOT EXISTS ${TABLE_NAMES.PRICE_DATA} (
-          timestamp TIMESTAMPTZ NOT NULL,
-          pool_address TEXT NOT NULL,
-          price NUMERIC NOT NULL,
-          volume_24h NUMERIC,
-          liquidity_usd NUMERIC,
-          PRIMARY KEY (timestamp, pool_address)
-        );
-        SELECT create_hypertable('${TABLE_NAMES.PRICE_DATA}', 'timestamp', if_not_exists => TRUE);
-
-        CREATE TABLE IF NOT EXISTS ${TABLE_NAMES.TICKS_DATA} (
-          timestamp TIMESTAMPTZ NOT NULL,
-          pool_address TEXT NOT NULL,
-          tick_index INTEGER NOT NULL,
-          liquidity_net NUMERIC,
-          liquidity_gross NUMERIC,
-          fee_growth_outside_a NUMERIC,
-          fee_growth_outside_b NUMERIC,
-          PRIMARY KEY (timestamp, pool_address, tick_index)
-        );
-        SELECT create_hypertable('${TABLE_NAMES.TICKS_DATA}', 'timestamp', if_not_exists => TRUE);
-
-        CREATE INDEX IF NOT EXISTS idx_pool_data_pool_address 
-        ON ${TABLE_NAMES.POOL_DATA} (pool_address, timestamp DESC);
-
-        CREATE INDEX IF NOT EXISTS idx_price_data_pool_address 
-        ON ${TABLE_NAMES.PRICE_DATA} (pool_address, timestamp DESC);
-
-        CREATE INDEX IF NOT EXISTS idx_ticks_data_pool_address 
-        ON ${TABLE_NAMES.TICKS_DATA} (pool_address, timestamp DESC);
-      `);
-      
-      logger.info('Database tables created or verified successfully');
-    } catch (error: any) {
-      logger.error(`Error creating tables: ${error.message}`);
-      throw error;
-    }
-  }
-
-  public async savePoolData(data: IPoolData): Promise<void> {
-    try {
-      await this.db.tx(async (t: ITask<IExtensions>) => {
-        await t.none(QUERIES.INSERT_POOL_DATA, [
-          data.timestamp,
-          data.poolAddress,
-          data.tokenAAmount,
-          data.tokenBAmount,
-          data.sqrtPrice,
-          data.liquidity,
-          data.tickCurrent,
-          data.feeGrowthGlobalA,
-          data.feeGrowthGlobalB,
-        ]);
-
-        await t.none(QUERIES.INSERT_PRICE_DATA, [
-          data.timestamp,
-          data.poolAddress,
-          data.price,
-          data.volume24h || 0,
-          data.liquidityUsd,
-        ]);
-      });
-    } catch (error: any) {
-      logger.error(`Error saving pool data: ${error.message}`);
-      throw error;
-    }
-  }
-
-  public async saveTicksData(data: ITickData[]): Promise<void> {
-    if (!data.length) return;
-
+  /**
+   * Time a write and count its failures for the collector metrics
+   * @param operation Metrics label, e.g. the table written
+   */
+  public async measureWrite<T>(operation: string, write: () => Promise<T>): Promise<T> {
+    const endTimer = metricsService.dbWriteDuration.startTimer({ operation });
     try {
-      const values = data.map(tick => ({
-        timestamp: tick.timestamp,
-        pool_address: tick.poolAddress,
-        tick_index: tick.tickIndex,
-        liquidity_net: tick.liquidityNet,
-        liquidity_gross: tick.liquidityGross,
-        fee_growth_outside_a: tick.feeGrowthOutsideA,
-        fee_growth_outside_b: tick.feeGrowthOutsideB,
-      }));
-
-      const cs = new this.pgp.helpers.ColumnSet([
-        'timestamp',
-        'pool_address',
-        'tick_index',
-        'liquidity_net',
-        'liquidity_gross',
-        'fee_growth_outside_a',
-        'fee_growth_outside_b'
-      ], { table: TABLE_NAMES.TICKS_DATA });
-
-      const query = this.pgp.helpers.insert(values, cs) +
-        ' ON CONFLICT (timestamp, pool_address, tick_index) DO UPDATE SET ' +
-        cs.columns.map((col: { name: string }) => `${col.name} = EXCLUDED.${col.name}`).join(', ');
-
-      await this.db.none(query);
-    } catch (error: any) {
-      logger.error(`Error saving ticks data: ${error.message}`);
+      return await write();
+    } catch (error) {
+      metricsService.dbWriteFailures.inc({ operation });
       throw error;
+    } finally {
+      endTimer();
     }
   }
 
+  /**
+   * Latest price of every pool, kept here for existing consumers; see PoolStore
+   */
   public async getLatestPrices(): Promise<Array<{ pool_address: string; price: number; timestamp: Date }>> {
-    try {
-      return this.db.any<{ pool_address: string; price: number; timestamp: Date }>(`
-        WITH latest_timestamps AS (
-          SELECT pool_address, MAX(timestamp) as max_timestamp
-          FROM ${TABLE_NAMES.PRICE_DATA}
-          GROUP BY pool_address
-        )
-        SELECT p.pool_address, p.price, p.timestamp
-        FROM ${TABLE_NAMES.PRICE_DATA} p
-        INNER JOIN latest_timestamps lt
-          ON p.pool_address = lt.pool_address
-          AND p.timestamp = lt.max_timestamp
-        ORDER BY p.pool_address;
-      `);
-    } catch (error: any) {
-      logger.error(`Error getting latest prices: ${error.message}`);
-      return [];
-    }
+    return poolStore.getLatestPrices();
   }
 
+  /**
+   * Pool snapshots in a time range, oldest first; see PoolStore
+   */
   public async getPoolHistory(
     poolAddress: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    limit?: number,
+    offset: number = 0
   ): Promise<IPoolData[]> {
-    interface IPoolRow {
-      timestamp: Date;
-      pool_address: string;
-      token_a_amount: string;
-      token_b_amount: string;
-      sqrt_price: string;
-      liquidity: string;
-      tick_current: number;
-      fee_growth_global_a: string;
-      fee_growth_global_b: string;
-      price: string;
-      liquidity_usd: string;
-      volume_24h: string | null;
-    }
-
-    try {
-      const rows = await this.db.any<IPoolRow>(`
-        SELECT pd.*, p.price, p.liquidity_usd, p.volume_24h
-        FROM ${TABLE_NAMES.POOL_DATA} pd
-        LEFT JOIN ${TABLE_NAMES.PRICE_DATA} p
-          ON pd.timestamp = p.timestamp
-          AND pd.pool_address = p.pool_address
-        WHERE pd.pool_address = $1
-          AND pd.timestamp BETWEEN $2 AND $3
-        ORDER BY pd.timestamp ASC;
-      `, [poolAddress, startTime, endTime]);
+    return poolStore.getPoolHistory(poolAddress, startTime, endTime, limit, offset);
+  }
 
-      return rows.map((row: IPoolRow) => ({
-        timestamp: row.timestamp,
-        poolAddress: row.pool_address,
-        tokenAAmount: parseFloat(row.token_a_amount),
-        tokenBAmount: parseFloat(row.token_b_amount),
-        sqrtPrice: parseFloat(row.sqrt_price),
-        liquidity: parseFloat(row.liquidity),
-        tickCurrent: row.tick_current,
-        feeGrowthGlobalA: parseFloat(row.fee_growth_global_a),
-        feeGrowthGlobalB: parseFloat(row.fee_growth_global_b),
-        price: parseFloat(row.price),
-        liquidityUsd: parseFloat(row.liquidity_usd),
-        volume24h: row.volume_24h ? parseFloat(row.volume_24h) : undefined,
-      }));
-    } catch (error: any) {
-      logger.error(`Error getting pool history: ${error.message}`);
-      return [];
-    }
+  /**
+   * OHLCV candles for a pool from the continuous aggregates; see CandleStore
+   * @param poolAddress Pool address
+   * @param interval Candle width
+   * @param startTime Start of the range, rounded down to the candle boundary
+   * @param endTime End of the range, inclusive
+   */
+  public async getCandles(
+    poolAddress: string,
+    interval: CandleInterval,
+    startTime: Date,
+    endTime: Date
+  ): Promise<ICandle[]> {
+    return candleStore.getCandles(poolAddress, interval, startTime, endTime);
   }
 
   public async cleanup(): Promise<void> {
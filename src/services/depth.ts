@@ -0,0 +1,107 @@
+import { sourceService, IPoolData, ITickData } from './source';
+import { poolStore } from './pool-store';
+import { tickSnapshotStore } from './tick-snapshot-store';
+import { POOLS, IPoolConfig, getPoolVenue } from '../config/pools';
+import {
+  buildLiquidityCurve,
+  getDepth,
+  getPriceImpact,
+  IDepth,
+  ILiquidityCurve,
+  IPriceImpact,
+  TradeSide,
+  TradeToken
+} from '../analytics/liquidity';
+
+const FEE_RATE_DENOMINATOR = 1_000_000;
+
+export class DepthService {
+  private static instance: DepthService;
+
+  private constructor() {}
+
+  public static getInstance(): DepthService {
+    if (!DepthService.instance) {
+      DepthService.instance = new DepthService();
+    }
+    return DepthService.instance;
+  }
+
+  /**
+   * Build the liquidity curve from live on-chain state, or from the last
+   * stored snapshot at or before a timestamp. Needs tick-based concentrated liquidity,
+   * so Meteora DLMM bins are rejected.
+   * @param poolId The pool identifier
+   * @param at Historical timestamp, omit for live data
+   */
+  public async getCurve(poolId: string, at?: Date): Promise<{ pool: IPoolData; curve: ILiquidityCurve }> {
+    const poolConfig = this.getPoolConfig(poolId);
+    if (getPoolVenue(poolConfig) === 'meteora') {
+      throw new Error(`Liquidity curves are not supported for Meteora DLMM pairs (${poolId})`);
+    }
+    const { pool, ticks } = at
+      ? await this.loadHistorical(poolConfig, at)
+      : await this.loadLive(poolId);
+
+    return { pool, curve: buildLiquidityCurve(pool, ticks, poolConfig) };
+  }
+
+  /**
+   * Token depth within ±percent of the price
+   * @param poolId The pool identifier
+   * @param percent Price move as a fraction
+   * @param at Historical timestamp, omit for live data
+   */
+  public async getDepth(poolId: string, percent: number, at?: Date): Promise<IDepth> {
+    const { curve } = await this.getCurve(poolId, at);
+    return getDepth(curve, percent);
+  }
+
+  /**
+   * Price impact of buying or selling token A, including the pool's swap fee
+   * @param poolId The pool identifier
+   * @param side Whether token A is bought or sold
+   * @param amount Decimal-adjusted trade size
+   * @param amountToken Token the amount is denominated in
+   * @param at Historical timestamp, omit for live data
+   */
+  public async getPriceImpact(
+    poolId: string,
+    side: TradeSide,
+    amount: number,
+    amountToken: TradeToken,
+    at?: Date
+  ): Promise<IPriceImpact> {
+    const { pool, curve } = await this.getCurve(poolId, at);
+    return getPriceImpact(curve, side, amount, amountToken, pool.feeRate / FEE_RATE_DENOMINATOR);
+  }
+
+  private async loadLive(poolId: string): Promise<{ pool: IPoolData; ticks: ITickData[] }> {
+    const [snapshot] = await sourceService.fetchPoolSnapshots([poolId]);
+    if (!snapshot) {
+      throw new Error(`Pool not found for ${poolId}`);
+    }
+    return { pool: snapshot.poolData, ticks: snapshot.ticks };
+  }
+
+  private async loadHistorical(poolConfig: IPoolConfig, at: Date): Promise<{ pool: IPoolData; ticks: ITickData[] }> {
+    const poolAddress = poolConfig.address.toBase58();
+    const pool = await poolStore.getPoolSnapshotAt(poolAddress, at);
+    if (!pool) {
+      throw new Error(`No snapshot stored for ${poolConfig.name} at or before ${at.toISOString()}`);
+    }
+    const ticks = await tickSnapshotStore.getTicksAt(poolAddress, pool.timestamp);
+    return { pool, ticks };
+  }
+
+  private getPoolConfig(poolId: string): IPoolConfig {
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+    return poolConfig;
+  }
+}
+
+// Export singleton instance
+export const depthService = DepthService.getInstance();
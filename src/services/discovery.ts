@@ -0,0 +1,238 @@
+import { fetchConcentratedLiquidityPool, PoolInfo } from '@orca-so/whirlpools';
+import { address } from '@solana/kit';
+import { PublicKey } from '@solana/web3.js';
+import { PDAUtil } from '@orca-so/whirlpools-sdk';
+import { WHIRLPOOL_PROGRAM_ID } from './orca';
+import { IPoolData } from './source';
+import { pricingService } from './pricing';
+import { POOLS, TOKENS, IPoolConfig, ITokenConfig, getPoolConfigByAddress, getTokenConfigByMint, registerPool } from '../config/pools';
+import { DISCOVERY_CONFIG } from '../config/constants';
+import { fetchMultipleAccounts, getRpc } from '../utils/rpc';
+import { decodeMintDecimals, decodeTokenAccountAmount } from '../utils/token';
+import { getVirtualReserves, toDecimalAmount } from '../utils/math';
+import { logger } from '../utils/logger';
+
+export interface IDiscoveredPool {
+  poolId: string; // SYMBOLA_SYMBOLB_<tickSpacing>
+  poolConfig: IPoolConfig;
+  feeRate: number; // hundredths of a basis point
+  liquidity: bigint; // u128
+  price: number;
+  tokenAAmount: number;
+  tokenBAmount: number;
+  liquidityUsd?: number; // undefined when either token has no USD route
+  configuredAs?: string; // POOLS key when the address is already tracked
+}
+
+class DiscoveryService {
+  private static instance: DiscoveryService;
+  private rpc: ReturnType<typeof getRpc>;
+
+  private constructor() {
+    this.rpc = getRpc();
+  }
+
+  public static getInstance(): DiscoveryService {
+    if (!DiscoveryService.instance) {
+      DiscoveryService.instance = new DiscoveryService();
+    }
+    return DiscoveryService.instance;
+  }
+
+  /**
+   * Enumerate every initialized Whirlpool between each pair of mints across the
+   * given tick spacings. Candidate addresses are derived as PDAs and checked in one
+   * batched sweep; only the pools that exist are hydrated with fetchConcentratedLiquidityPool.
+   * @param mints Token mints to pair up, every configured token by default
+   * @param tickSpacings Tick spacings to try for each pair
+   * @returns Discovered pools, deepest first
+   */
+  public async discoverPools(
+    mints: string[] = DISCOVERY_CONFIG.MINTS.length
+      ? DISCOVERY_CONFIG.MINTS
+      : Object.values(TOKENS).map(token => token.address.toBase58()),
+    tickSpacings: number[] = DISCOVERY_CONFIG.TICK_SPACINGS
+  ): Promise<IDiscoveredPool[]> {
+    try {
+      const whirlpoolsConfig = new PublicKey(DISCOVERY_CONFIG.WHIRLPOOLS_CONFIG);
+      const keys = [...new Set(mints)].map(mint => new PublicKey(mint));
+
+      // Whirlpool PDAs are seeded with the mints in byte order
+      const candidates: { mintA: PublicKey; mintB: PublicKey; tickSpacing: number; address: PublicKey }[] = [];
+      for (let i = 0; i < keys.length; i++) {
+        for (let j = i + 1; j < keys.length; j++) {
+          const [mintA, mintB] = Buffer.compare(keys[i].toBuffer(), keys[j].toBuffer()) < 0
+            ? [keys[i], keys[j]]
+            : [keys[j], keys[i]];
+          for (const tickSpacing of tickSpacings) {
+            const { publicKey } = PDAUtil.getWhirlpool(WHIRLPOOL_PROGRAM_ID, whirlpoolsConfig, mintA, mintB, tickSpacing);
+            candidates.push({ mintA, mintB, tickSpacing, address: publicKey });
+          }
+        }
+      }
+
+      logger.info(`Checking ${candidates.length} Whirlpool addresses for ${keys.length} mints...`);
+      const accounts = await fetchMultipleAccounts(candidates.map(candidate => candidate.address));
+      const existing = candidates.filter(candidate => accounts.get(candidate.address.toBase58()));
+
+      const pools: Extract<PoolInfo, { initialized: true }>[] = [];
+      for (const { mintA, mintB, tickSpacing } of existing) {
+        const info = await fetchConcentratedLiquidityPool(
+          this.rpc,
+          address(mintA.toBase58()),
+          address(mintB.toBase58()),
+          tickSpacing
+        );
+        if (info.initialized) {
+          pools.push(info);
+        }
+      }
+
+      // Vault balances and mint decimals in one more sweep
+      const dependentAccounts = await fetchMultipleAccounts(pools.flatMap(pool => [
+        new PublicKey(pool.tokenVaultA),
+        new PublicKey(pool.tokenVaultB),
+        new PublicKey(pool.tokenMintA),
+        new PublicKey(pool.tokenMintB)
+      ]));
+
+      const timestamp = new Date();
+      const discovered: IDiscoveredPool[] = [];
+      const snapshots: IPoolData[] = [];
+      for (const pool of pools) {
+        const vaultA = dependentAccounts.get(pool.tokenVaultA);
+        const vaultB = dependentAccounts.get(pool.tokenVaultB);
+        const mintA = dependentAccounts.get(pool.tokenMintA);
+        const mintB = dependentAccounts.get(pool.tokenMintB);
+        if (!vaultA || !vaultB || !mintA || !mintB) {
+          logger.warn(`Skipping ${pool.address}: vault or mint accounts not found`);
+          continue;
+        }
+
+        const tokenA = this.getTokenConfig(pool.tokenMintA, decodeMintDecimals(mintA.data));
+        const tokenB = this.getTokenConfig(pool.tokenMintB, decodeMintDecimals(mintB.data));
+        const tokenAAmountRaw = decodeTokenAccountAmount(vaultA.data);
+        const tokenBAmountRaw = decodeTokenAccountAmount(vaultB.data);
+        const virtualReserves = getVirtualReserves(pool.liquidity, pool.sqrtPrice);
+        const configured = getPoolConfigByAddress(pool.address);
+
+        const entry: IDiscoveredPool = {
+          poolId: `${tokenA.symbol}_${tokenB.symbol}_${pool.tickSpacing}`,
+          poolConfig: {
+            name: `${tokenA.symbol}/${tokenB.symbol}`,
+            address: new PublicKey(pool.address),
+            tokenA,
+            tokenB,
+            tickSpacing: pool.tickSpacing
+          },
+          feeRate: pool.feeRate,
+          liquidity: pool.liquidity,
+          price: pool.price,
+          tokenAAmount: toDecimalAmount(tokenAAmountRaw, tokenA.decimals),
+          tokenBAmount: toDecimalAmount(tokenBAmountRaw, tokenB.decimals),
+          configuredAs: configured
+            ? Object.keys(POOLS).find(poolId => POOLS[poolId] === configured)
+            : undefined
+        };
+        discovered.push(entry);
+
+        // Snapshot for the pricing graph
+        snapshots.push({
+          timestamp,
+          poolAddress: pool.address,
+          venue: 'orca',
+          tokenAAmount: entry.tokenAAmount,
+          tokenBAmount: entry.tokenBAmount,
+          tokenAAmountRaw,
+          tokenBAmountRaw,
+          virtualTokenAAmount: toDecimalAmount(virtualReserves.tokenA, tokenA.decimals),
+          virtualTokenBAmount: toDecimalAmount(virtualReserves.tokenB, tokenB.decimals),
+          sqrtPrice: pool.sqrtPrice,
+          liquidity: pool.liquidity,
+          tickCurrent: pool.tickCurrentIndex,
+          feeGrowthGlobalA: pool.feeGrowthGlobalA,
+          feeGrowthGlobalB: pool.feeGrowthGlobalB,
+          feeRate: pool.feeRate,
+          protocolFeeRate: pool.protocolFeeRate,
+          price: pool.price
+        });
+      }
+
+      // Rank by TVL in USD, priced through the discovered pools themselves
+      const byAddress = new Map(discovered.map(entry => [entry.poolConfig.address.toBase58(), entry.poolConfig]));
+      const prices = pricingService.computePrices(snapshots, poolAddress => byAddress.get(poolAddress));
+      for (const entry of discovered) {
+        const priceA = prices.get(entry.poolConfig.tokenA.address.toBase58());
+        const priceB = prices.get(entry.poolConfig.tokenB.address.toBase58());
+        if (priceA && priceB) {
+          entry.liquidityUsd = entry.tokenAAmount * priceA.priceUsd + entry.tokenBAmount * priceB.priceUsd;
+        }
+      }
+
+      discovered.sort((a, b) => (b.liquidityUsd ?? -1) - (a.liquidityUsd ?? -1));
+      logger.info(`Discovered ${discovered.length} initialized Whirlpools`);
+      return discovered;
+    } catch (error: any) {
+      logger.error(`Error discovering pools: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Pick the deepest pools of each pair that clear the liquidity floor
+   * @param discovered Discovered pools, deepest first
+   * @returns Selected pools, including ones already configured
+   */
+  public selectPools(
+    discovered: IDiscoveredPool[],
+    maxPoolsPerPair: number = DISCOVERY_CONFIG.MAX_POOLS_PER_PAIR,
+    minLiquidityUsd: number = DISCOVERY_CONFIG.MIN_LIQUIDITY_USD
+  ): IDiscoveredPool[] {
+    const perPair = new Map<string, number>();
+    return discovered.filter(entry => {
+      if (entry.liquidityUsd === undefined || entry.liquidityUsd < minLiquidityUsd) return false;
+
+      const pair = `${entry.poolConfig.tokenA.address.toBase58()}/${entry.poolConfig.tokenB.address.toBase58()}`;
+      const count = perPair.get(pair) || 0;
+      if (count >= maxPoolsPerPair) return false;
+      perPair.set(pair, count + 1);
+      return true;
+    });
+  }
+
+  /**
+   * Add the selected pools that are not tracked yet to the pool registry
+   * @param discovered Discovered pools, deepest first
+   * @returns Registry keys of the added pools
+   */
+  public mergeIntoRegistry(discovered: IDiscoveredPool[]): string[] {
+    const added: string[] = [];
+    for (const entry of this.selectPools(discovered)) {
+      if (entry.configuredAs || POOLS[entry.poolId]) continue;
+
+      registerPool(entry.poolId, entry.poolConfig);
+      added.push(entry.poolId);
+      logger.info(`Tracking discovered pool ${entry.poolId} (${entry.poolConfig.address.toBase58()}), ` +
+        `$${entry.liquidityUsd!.toFixed(0)} TVL`);
+    }
+    return added;
+  }
+
+  /**
+   * Token config for a mint, reusing TOKENS when its decimals agree with the mint
+   */
+  private getTokenConfig(mint: string, decimals: number): ITokenConfig {
+    const known = getTokenConfigByMint(mint);
+    if (known && known.decimals === decimals) {
+      return known;
+    }
+    return {
+      address: new PublicKey(mint),
+      decimals,
+      symbol: known ? known.symbol : mint.slice(0, 6)
+    };
+  }
+}
+
+// Export singleton instance
+export const discoveryService = DiscoveryService.getInstance();
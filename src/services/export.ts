@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import { poolStore } from './pool-store';
+import { tickStoreService } from './ticks';
+import { IPoolData, ITickData } from './source';
+import { POOLS } from '../config/pools';
+import { EXPORT_CONFIG } from '../config/constants';
+import { ParquetWriter, IParquetColumn, ParquetValue } from '../utils/parquet';
+import { logger } from '../utils/logger';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'parquet';
+export type ExportDataset = 'pools' | 'ticks';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'parquet'];
+
+export interface IExportOptions {
+  format: ExportFormat;
+  includeTicks?: boolean;
+  outDir?: string;
+}
+
+export interface IExportFile {
+  dataset: ExportDataset;
+  path: string;
+  start: Date;
+  end: Date;
+  rows: number | null; // null when skipped
+  skipped: boolean; // already exported by an earlier run
+}
+
+export interface IExportResult {
+  poolId: string;
+  format: ExportFormat;
+  files: IExportFile[];
+  rows: number;
+}
+
+interface IExportColumn<T> extends IParquetColumn {
+  value: (row: T) => ParquetValue;
+}
+
+interface IExportWriter {
+  write(rows: ParquetValue[][]): void;
+  close(): void;
+}
+
+// u128 and i128 values don't fit a double or INT64, so they are exported as decimal strings
+const decimal = (value: bigint): string => value.toString();
+
+// Same join and names as the pool and price tables
+const POOL_COLUMNS: IExportColumn<IPoolData>[] = [
+  { name: 'timestamp', type: 'timestamp', value: row => row.timestamp },
+  { name: 'pool_address', type: 'string', value: row => row.poolAddress },
+  { name: 'venue', type: 'string', value: row => row.venue },
+  { name: 'price', type: 'double', value: row => row.price },
+  { name: 'token_a_amount', type: 'double', value: row => row.tokenAAmount },
+  { name: 'token_b_amount', type: 'double', value: row => row.tokenBAmount },
+  { name: 'token_a_amount_raw', type: 'string', value: row => decimal(row.tokenAAmountRaw) },
+  { name: 'token_b_amount_raw', type: 'string', value: row => decimal(row.tokenBAmountRaw) },
+  { name: 'virtual_token_a_amount', type: 'double', value: row => row.virtualTokenAAmount },
+  { name: 'virtual_token_b_amount', type: 'double', value: row => row.virtualTokenBAmount },
+  { name: 'sqrt_price', type: 'string', value: row => decimal(row.sqrtPrice) },
+  { name: 'liquidity', type: 'string', value: row => decimal(row.liquidity) },
+  { name: 'tick_current', type: 'int32', value: row => row.tickCurrent },
+  { name: 'fee_growth_global_a', type: 'string', value: row => decimal(row.feeGrowthGlobalA) },
+  { name: 'fee_growth_global_b', type: 'string', value: row => decimal(row.feeGrowthGlobalB) },
+  { name: 'fee_rate', type: 'int32', value: row => row.feeRate },
+  { name: 'protocol_fee_rate', type: 'int32', value: row => row.protocolFeeRate },
+  { name: 'token_a_price_usd', type: 'double', value: row => row.tokenAPriceUsd },
+  { name: 'token_b_price_usd', type: 'double', value: row => row.tokenBPriceUsd },
+  { name: 'liquidity_usd', type: 'double', value: row => row.liquidityUsd },
+  { name: 'volume_24h', type: 'double', value: row => row.volume24h },
+];
+
+const TICK_COLUMNS: IExportColumn<ITickData>[] = [
+  { name: 'timestamp', type: 'timestamp', value: row => row.timestamp },
+  { name: 'pool_address', type: 'string', value: row => row.poolAddress },
+  { name: 'tick_index', type: 'int32', value: row => row.tickIndex },
+  { name: 'liquidity_net', type: 'string', value: row => decimal(row.liquidityNet) },
+  { name: 'liquidity_gross', type: 'string', value: row => decimal(row.liquidityGross) },
+  { name: 'fee_growth_outside_a', type: 'string', value: row => decimal(row.feeGrowthOutsideA) },
+  { name: 'fee_growth_outside_b', type: 'string', value: row => decimal(row.feeGrowthOutsideB) },
+];
+
+/**
+ * Path of an export file: `<poolId>_<dataset>_<start>_<end>.<format>` with compact UTC timestamps
+ */
+export function getExportFileName(poolId: string, dataset: ExportDataset, start: Date, end: Date, format: ExportFormat): string {
+  const stamp = (date: Date) => date.toISOString().replace(/[-:]|\.\d+/g, '');
+  return `${poolId.replace(/[^\w.-]/g, '_')}_${dataset}_${stamp(start)}_${stamp(end)}.${format}`;
+}
+
+function formatValue(value: ParquetValue): string | number | null {
+  if (value === null || value === undefined || (typeof value === 'number' && isNaN(value))) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+function csvCell(value: ParquetValue): string {
+  const formatted = formatValue(value);
+  if (formatted === null) return '';
+  const text = String(formatted);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function createWriter(format: ExportFormat, filePath: string, columns: IParquetColumn[]): IExportWriter {
+  if (format === 'parquet') {
+    const writer = new ParquetWriter(filePath, columns, EXPORT_CONFIG.ROW_GROUP_SIZE);
+    return { write: rows => writer.writeRows(rows), close: () => writer.close() };
+  }
+
+  const fd = fs.openSync(filePath, 'w');
+  const formatRow = format === 'csv'
+    ? (row: ParquetValue[]) => row.map(csvCell).join(',')
+    : (row: ParquetValue[]) => JSON.stringify(Object.fromEntries(columns.map((column, i) => [column.name, formatValue(row[i])])));
+
+  if (format === 'csv') {
+    fs.writeSync(fd, `${columns.map(column => column.name).join(',')}\n`);
+  }
+  return {
+    write: rows => {
+      if (rows.length) fs.writeSync(fd, `${rows.map(formatRow).join('\n')}\n`);
+    },
+    close: () => fs.closeSync(fd)
+  };
+}
+
+export class ExportService {
+  private static instance: ExportService;
+
+  private constructor() {}
+
+  public static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  /**
+   * Stream a pool's history to one file per dataset and UTC day. Files are written
+   * under a `.partial` name and renamed once complete, so rerunning an interrupted
+   * export skips the days already on disk and redoes at most one.
+   * @param poolId Pool identifier
+   * @param startTime Start of the range, inclusive
+   * @param endTime End of the range, exclusive
+   * @param options Output format, tick snapshots and directory
+   */
+  public async exportPool(
+    poolId: string,
+    startTime: Date,
+    endTime: Date,
+    options: IExportOptions
+  ): Promise<IExportResult> {
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+
+    const poolAddress = poolConfig.address.toBase58();
+    const outDir = options.outDir || EXPORT_CONFIG.OUTPUT_DIR;
+    const datasets: ExportDataset[] = options.includeTicks ? ['pools', 'ticks'] : ['pools'];
+    const files: IExportFile[] = [];
+
+    try {
+      fs.mkdirSync(outDir, { recursive: true });
+
+      for (const [start, end] of this.getChunks(startTime, endTime)) {
+        for (const dataset of datasets) {
+          const filePath = path.join(outDir, getExportFileName(poolId, dataset, start, end, options.format));
+          if (fs.existsSync(filePath)) {
+            logger.debug(`Skipping ${filePath}, already exported`);
+            files.push({ dataset, path: filePath, start, end, rows: null, skipped: true });
+            continue;
+          }
+
+          const rows = dataset === 'pools'
+            ? await this.writeFile(filePath, options.format, POOL_COLUMNS, this.poolPages(poolAddress, start, end))
+            : await this.writeFile(filePath, options.format, TICK_COLUMNS, tickStoreService.streamSnapshots(poolAddress, start, end));
+
+          logger.info(`Exported ${rows} ${dataset} rows to ${filePath}`);
+          files.push({ dataset, path: filePath, start, end, rows, skipped: false });
+        }
+      }
+
+      return {
+        poolId,
+        format: options.format,
+        files,
+        rows: files.reduce((sum, file) => sum + (file.rows ?? 0), 0)
+      };
+    } catch (error: any) {
+      logger.error(`Error exporting ${poolId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Split a range at UTC chunk boundaries so reruns over overlapping ranges name the same files
+   */
+  private getChunks(startTime: Date, endTime: Date): Array<[Date, Date]> {
+    const chunks: Array<[Date, Date]> = [];
+    const interval = EXPORT_CONFIG.CHUNK_INTERVAL;
+    let start = startTime.getTime();
+    while (start < endTime.getTime()) {
+      const end = Math.min((Math.floor(start / interval) + 1) * interval, endTime.getTime());
+      chunks.push([new Date(start), new Date(end)]);
+      start = end;
+    }
+    return chunks;
+  }
+
+  /**
+   * Pool snapshots joined with prices, one keyset page at a time
+   */
+  private async *poolPages(poolAddress: string, startTime: Date, endTime: Date): AsyncGenerator<IPoolData[]> {
+    let after: Date | null = null;
+    for (;;) {
+      const page = await poolStore.getPoolHistoryPage(poolAddress, startTime, endTime, after, EXPORT_CONFIG.BATCH_SIZE);
+      if (page.length) yield page;
+      if (page.length < EXPORT_CONFIG.BATCH_SIZE) return;
+      after = page[page.length - 1].timestamp;
+    }
+  }
+
+  /**
+   * Write pages to `<filePath>.partial`, then move it into place
+   * @returns Rows written
+   */
+  private async writeFile<T>(
+    filePath: string,
+    format: ExportFormat,
+    columns: IExportColumn<T>[],
+    pages: AsyncIterable<T[]>
+  ): Promise<number> {
+    const partialPath = `${filePath}.partial`;
+    const writer = createWriter(format, partialPath, columns);
+    let rows = 0;
+
+    try {
+      for await (const page of pages) {
+        writer.write(page.map(row => columns.map(column => column.value(row))));
+        rows += page.length;
+      }
+    } finally {
+      writer.close();
+    }
+
+    fs.renameSync(partialPath, filePath);
+    return rows;
+  }
+}
+
+// Export singleton instance
+export const exportService = ExportService.getInstance();
@@ -0,0 +1,80 @@
+import { dbService } from './database';
+import { tickSnapshotStore } from './tick-snapshot-store';
+import { ITickData } from './source';
+import { POOLS, getPoolVenue } from '../config/pools';
+import { computeRangeFees, resolveTickRange, IRangeFees, RangeSpec } from '../analytics/fees';
+import { logger } from '../utils/logger';
+
+export class FeeService {
+  private static instance: FeeService;
+
+  private constructor() {}
+
+  public static getInstance(): FeeService {
+    if (!FeeService.instance) {
+      FeeService.instance = new FeeService();
+    }
+    return FeeService.instance;
+  }
+
+  /**
+   * Fees and APR a position over a range would have earned from recorded snapshots
+   * @param poolId Pool identifier
+   * @param range Tick, price or percent range
+   * @param startTime Start of the window
+   * @param endTime End of the window
+   * @returns Range fees, or null if fewer than two snapshots fall in the window
+   */
+  public async getRangeFees(
+    poolId: string,
+    range: RangeSpec,
+    startTime: Date,
+    endTime: Date
+  ): Promise<IRangeFees | null> {
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+    if (getPoolVenue(poolConfig) === 'meteora') {
+      throw new Error(`Fee growth is not tracked for Meteora DLMM pairs (${poolId})`);
+    }
+
+    try {
+      const poolAddress = poolConfig.address.toBase58();
+      const series = await dbService.getPoolHistory(poolAddress, startTime, endTime);
+      if (series.length < 2) {
+        return null;
+      }
+
+      const entry = series[0];
+      const exit = series[series.length - 1];
+      const [entryTicks, exitTicks] = await Promise.all([
+        tickSnapshotStore.getTicksAt(poolAddress, entry.timestamp),
+        tickSnapshotStore.getTicksAt(poolAddress, exit.timestamp)
+      ]);
+
+      const result = computeRangeFees(
+        series,
+        this.ticksTakenAt(entryTicks, entry.timestamp),
+        this.ticksTakenAt(exitTicks, exit.timestamp),
+        resolveTickRange(range, entry, poolConfig),
+        poolConfig
+      );
+      logger.debug(`Range fees for ${poolId} [${result.tickLower}, ${result.tickUpper}]: APR ${(result.apr * 100).toFixed(2)}%`);
+      return result;
+    } catch (error: any) {
+      logger.error(`Error computing range fees for ${poolId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Tick outside values are only comparable with the pool snapshot recorded alongside them
+   */
+  private ticksTakenAt(ticks: ITickData[], timestamp: Date): ITickData[] {
+    return ticks.length && ticks[0].timestamp.getTime() === timestamp.getTime() ? ticks : [];
+  }
+}
+
+// Export singleton instance
+export const feeService = FeeService.getInstance();
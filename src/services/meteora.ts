@@ -0,0 +1,224 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { fetchMultipleAccounts } from '../utils/rpc';
+import { POOLS, IPoolConfig, Venue } from '../config/pools';
+import { IPoolData, IPoolSnapshot, IPoolSource, IPoolAccountInfo } from './source';
+import { logger } from '../utils/logger';
+import { Q64, toDecimalAmount } from '../utils/math';
+import { decodeTokenAccountAmount } from '../utils/token';
+import { MIN_SQRT_PRICE, MAX_SQRT_PRICE, sqrtPriceToTickIndex } from '../analytics/swap';
+
+// Constants
+export const METEORA_DLMM_PROGRAM_ID = new PublicKey('LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo');
+const BINS_PER_ARRAY = 70;
+const BASIS_POINT_MAX = 10_000;
+const FEE_PRECISION = 1_000_000_000; // DLMM fee rates, 1e9 = 100%
+const MAX_FEE_RATE = 100_000_000; // 10%
+const FEE_RATE_DENOMINATOR = 1_000_000; // IPoolData.feeRate scale
+
+// LbPair layout (after the 8-byte discriminator)
+const LB_PAIR_MIN_SIZE = 216;
+const LB_PAIR_BASE_FACTOR_OFFSET = 8;
+const LB_PAIR_VARIABLE_FEE_CONTROL_OFFSET = 16;
+const LB_PAIR_PROTOCOL_SHARE_OFFSET = 32;
+const LB_PAIR_BASE_FEE_POWER_FACTOR_OFFSET = 34;
+const LB_PAIR_VOLATILITY_ACCUMULATOR_OFFSET = 40;
+const LB_PAIR_ACTIVE_ID_OFFSET = 76;
+const LB_PAIR_BIN_STEP_OFFSET = 80;
+const LB_PAIR_MINT_X_OFFSET = 88;
+const LB_PAIR_MINT_Y_OFFSET = 120;
+const LB_PAIR_RESERVE_X_OFFSET = 152;
+const LB_PAIR_RESERVE_Y_OFFSET = 184;
+
+// BinArray layout: index (i64) + version + padding + pair (32) + 70 bins of 144 bytes
+const BIN_ARRAY_BINS_OFFSET = 56;
+const BIN_SIZE = 144;
+
+export interface IMeteoraLbPair {
+  tokenMintX: PublicKey;
+  tokenMintY: PublicKey;
+  reserveX: PublicKey;
+  reserveY: PublicKey;
+  activeId: number;
+  binStep: number; // basis points between bins
+  baseFactor: number;
+  baseFeePowerFactor: number;
+  variableFeeControl: number;
+  volatilityAccumulator: number;
+  protocolShare: number; // basis points of the fee
+}
+
+class MeteoraService implements IPoolSource {
+  private static instance: MeteoraService;
+  public readonly venue: Venue = 'meteora';
+  public readonly programId = METEORA_DLMM_PROGRAM_ID;
+
+  private constructor() {}
+
+  public static getInstance(): MeteoraService {
+    if (!MeteoraService.instance) {
+      MeteoraService.instance = new MeteoraService();
+    }
+    return MeteoraService.instance;
+  }
+
+  /**
+   * Fetch pair state for several Meteora DLMM pairs. Token X and Y map to A and B.
+   * DLMM liquidity lives in constant-sum bins rather than ticks, so snapshots carry
+   * no ticks, no in-range liquidity and no fee growth; the active bin's reserves
+   * stand in for the virtual reserves.
+   * @param poolIds Pool identifiers
+   * @returns Snapshots for every pair that could be fetched and decoded
+   */
+  public async fetchPoolSnapshots(poolIds: string[]): Promise<IPoolSnapshot[]> {
+    const timestamp = new Date();
+    const pairAccounts = await fetchMultipleAccounts(poolIds.map(poolId => POOLS[poolId].address));
+
+    const decoded: { poolId: string; poolConfig: IPoolConfig; pair: IMeteoraLbPair; binArray: PublicKey }[] = [];
+    for (const poolId of poolIds) {
+      const poolConfig = POOLS[poolId];
+      const account = pairAccounts.get(poolConfig.address.toBase58());
+      if (!account) {
+        logger.warn(`Pool account not found for ${poolConfig.name} (${poolId})`);
+        continue;
+      }
+
+      try {
+        const pair = this.decodeLbPair(account);
+        decoded.push({ poolId, poolConfig, pair, binArray: this.getBinArrayAddress(poolConfig.address, pair.activeId) });
+      } catch (error) {
+        logger.warn(`Failed to decode pool ${poolId}: ${error}`);
+      }
+    }
+
+    const dependentAccounts = await fetchMultipleAccounts(decoded.flatMap(({ pair, binArray }) => [
+      pair.reserveX,
+      pair.reserveY,
+      binArray
+    ]));
+
+    const snapshots: IPoolSnapshot[] = [];
+    for (const { poolId, poolConfig, pair, binArray } of decoded) {
+      try {
+        const reserveX = dependentAccounts.get(pair.reserveX.toBase58());
+        const reserveY = dependentAccounts.get(pair.reserveY.toBase58());
+        if (!reserveX || !reserveY) {
+          throw new Error(`Token reserves not found for ${poolConfig.name}`);
+        }
+
+        const binArrayAccount = dependentAccounts.get(binArray.toBase58()) || null;
+        const poolData = this.buildPoolData(poolConfig, pair, reserveX, reserveY, binArrayAccount, timestamp);
+        logger.debug(`Decoded ${poolId}: active bin ${pair.activeId}`);
+        snapshots.push({ poolId, poolData, ticks: [] });
+      } catch (error) {
+        logger.warn(`Failed to build snapshot for ${poolId}: ${error}`);
+      }
+    }
+
+    return snapshots;
+  }
+
+  public decodePoolInfo(account: AccountInfo<Buffer>): IPoolAccountInfo {
+    const pair = this.decodeLbPair(account);
+    return { tokenMintA: pair.tokenMintX, tokenMintB: pair.tokenMintY, tickSpacing: pair.binStep };
+  }
+
+  /**
+   * Decode a raw LbPair account
+   */
+  public decodeLbPair(account: AccountInfo<Buffer>): IMeteoraLbPair {
+    const data = account.data;
+    if (data.length < LB_PAIR_MIN_SIZE) {
+      throw new Error(`Invalid Meteora pair account data length: ${data.length}`);
+    }
+
+    return {
+      tokenMintX: new PublicKey(data.subarray(LB_PAIR_MINT_X_OFFSET, LB_PAIR_MINT_X_OFFSET + 32)),
+      tokenMintY: new PublicKey(data.subarray(LB_PAIR_MINT_Y_OFFSET, LB_PAIR_MINT_Y_OFFSET + 32)),
+      reserveX: new PublicKey(data.subarray(LB_PAIR_RESERVE_X_OFFSET, LB_PAIR_RESERVE_X_OFFSET + 32)),
+      reserveY: new PublicKey(data.subarray(LB_PAIR_RESERVE_Y_OFFSET, LB_PAIR_RESERVE_Y_OFFSET + 32)),
+      activeId: data.readInt32LE(LB_PAIR_ACTIVE_ID_OFFSET),
+      binStep: data.readUInt16LE(LB_PAIR_BIN_STEP_OFFSET),
+      baseFactor: data.readUInt16LE(LB_PAIR_BASE_FACTOR_OFFSET),
+      baseFeePowerFactor: data.readUInt8(LB_PAIR_BASE_FEE_POWER_FACTOR_OFFSET),
+      variableFeeControl: data.readUInt32LE(LB_PAIR_VARIABLE_FEE_CONTROL_OFFSET),
+      volatilityAccumulator: data.readUInt32LE(LB_PAIR_VOLATILITY_ACCUMULATOR_OFFSET),
+      protocolShare: data.readUInt16LE(LB_PAIR_PROTOCOL_SHARE_OFFSET)
+    };
+  }
+
+  /**
+   * Address of the bin array holding a bin, seeded with the little-endian i64 array index
+   */
+  public getBinArrayAddress(pairAddress: PublicKey, binId: number): PublicKey {
+    const indexSeed = Buffer.alloc(8);
+    indexSeed.writeBigInt64LE(BigInt(Math.floor(binId / BINS_PER_ARRAY)));
+    return PublicKey.findProgramAddressSync(
+      [Buffer.from('bin_array'), pairAddress.toBuffer(), indexSeed],
+      METEORA_DLMM_PROGRAM_ID
+    )[0];
+  }
+
+  /**
+   * Swap fee at the last recorded volatility, base plus variable fee in 1e9 precision
+   */
+  public getTotalFeeRate(pair: IMeteoraLbPair): number {
+    const baseFee = pair.baseFactor * pair.binStep * 10 * Math.pow(10, pair.baseFeePowerFactor);
+    const volatility = pair.volatilityAccumulator * pair.binStep;
+    const variableFee = pair.variableFeeControl > 0
+      ? Math.ceil(pair.variableFeeControl * volatility * volatility / 100_000_000_000)
+      : 0;
+    return Math.min(baseFee + variableFee, MAX_FEE_RATE);
+  }
+
+  /**
+   * Build a pool snapshot from a decoded pair, its reserves and the active bin array
+   */
+  public buildPoolData(
+    poolConfig: IPoolConfig,
+    pair: IMeteoraLbPair,
+    reserveX: AccountInfo<Buffer>,
+    reserveY: AccountInfo<Buffer>,
+    binArray: AccountInfo<Buffer> | null,
+    timestamp: Date
+  ): IPoolData {
+    const tokenAAmountRaw = decodeTokenAccountAmount(reserveX.data);
+    const tokenBAmountRaw = decodeTokenAccountAmount(reserveY.data);
+
+    // Bin price is token Y per token X in base units
+    const rawPrice = Math.pow(1 + pair.binStep / BASIS_POINT_MAX, pair.activeId);
+    let sqrtPrice = BigInt(Math.floor(Math.sqrt(rawPrice) * Number(Q64)));
+    sqrtPrice = sqrtPrice < MIN_SQRT_PRICE ? MIN_SQRT_PRICE : sqrtPrice > MAX_SQRT_PRICE ? MAX_SQRT_PRICE : sqrtPrice;
+
+    let activeBinX = 0n;
+    let activeBinY = 0n;
+    if (binArray) {
+      const binOffset = BIN_ARRAY_BINS_OFFSET +
+        (pair.activeId - Math.floor(pair.activeId / BINS_PER_ARRAY) * BINS_PER_ARRAY) * BIN_SIZE;
+      activeBinX = binArray.data.readBigUInt64LE(binOffset);
+      activeBinY = binArray.data.readBigUInt64LE(binOffset + 8);
+    }
+
+    return {
+      timestamp,
+      poolAddress: poolConfig.address.toString(),
+      venue: this.venue,
+      tokenAAmount: toDecimalAmount(tokenAAmountRaw, poolConfig.tokenA.decimals),
+      tokenBAmount: toDecimalAmount(tokenBAmountRaw, poolConfig.tokenB.decimals),
+      tokenAAmountRaw,
+      tokenBAmountRaw,
+      virtualTokenAAmount: toDecimalAmount(activeBinX, poolConfig.tokenA.decimals),
+      virtualTokenBAmount: toDecimalAmount(activeBinY, poolConfig.tokenB.decimals),
+      sqrtPrice,
+      liquidity: 0n,
+      tickCurrent: sqrtPriceToTickIndex(sqrtPrice),
+      feeGrowthGlobalA: 0n,
+      feeGrowthGlobalB: 0n,
+      feeRate: Math.round(this.getTotalFeeRate(pair) * FEE_RATE_DENOMINATOR / FEE_PRECISION),
+      protocolFeeRate: pair.protocolShare,
+      price: rawPrice * Math.pow(10, poolConfig.tokenA.decimals - poolConfig.tokenB.decimals)
+    };
+  }
+}
+
+// Export singleton instance
+export const meteoraService = MeteoraService.getInstance();
@@ -0,0 +1,153 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { METRICS_CONFIG } from '../config/constants';
+import { MetricsRegistry } from '../utils/metrics';
+import { rpcPool } from '../utils/rpc-pool';
+import { logger } from '../utils/logger';
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export class MetricsService {
+  private static instance: MetricsService;
+  private server: http.Server | null = null;
+  private lastSnapshotAt: Map<string, number> = new Map();
+  public readonly registry = new MetricsRegistry();
+
+  public readonly cycleDuration = this.registry.histogram(
+    'solana_collection_cycle_duration_seconds',
+    'Duration of a polling cycle: fetch, persist and arbitrage detection',
+    [],
+    METRICS_CONFIG.CYCLE_BUCKETS
+  );
+  public readonly venueSweepDuration = this.registry.histogram(
+    'solana_venue_sweep_duration_seconds',
+    'Duration of one batched fetch and decode of every requested pool on a venue',
+    ['venue'],
+    METRICS_CONFIG.LATENCY_BUCKETS
+  );
+  public readonly rpcRequests = this.registry.counter(
+    'solana_rpc_requests_total',
+    'RPC requests sent, counting every attempt',
+    ['method', 'endpoint']
+  );
+  public readonly rpcErrors = this.registry.counter(
+    'solana_rpc_errors_total',
+    'RPC requests that failed',
+    ['method', 'endpoint', 'retryable']
+  );
+  public readonly rpcRateLimited = this.registry.counter(
+    'solana_rpc_rate_limited_total',
+    'RPC requests rejected with 429 Too Many Requests',
+    ['method', 'endpoint']
+  );
+  public readonly dbWriteDuration = this.registry.histogram(
+    'solana_db_write_duration_seconds',
+    'Duration of database writes',
+    ['operation'],
+    METRICS_CONFIG.LATENCY_BUCKETS
+  );
+  public readonly dbWriteFailures = this.registry.counter(
+    'solana_db_write_failures_total',
+    'Database writes that failed',
+    ['operation']
+  );
+  public readonly dbHealthy = this.registry.gauge(
+    'solana_db_healthy',
+    'Whether the database connection is up (1) or down (0)'
+  );
+  public readonly ticksCollected = this.registry.counter(
+    'solana_ticks_collected_total',
+    'Initialized ticks collected',
+    ['pool']
+  );
+  public readonly snapshotAge = this.registry.gauge(
+    'solana_pool_last_snapshot_age_seconds',
+    'Seconds since the last pool snapshot was stored',
+    ['pool']
+  );
+
+  private constructor() {
+    rpcPool.instrument({
+      onRequest: (method, endpoint) => this.rpcRequests.inc({ method, endpoint }),
+      onError: (method, endpoint, retryable, statusCode) => {
+        this.rpcErrors.inc({ method, endpoint, retryable: String(retryable) });
+        if (statusCode === 429) {
+          this.rpcRateLimited.inc({ method, endpoint });
+        }
+      }
+    });
+
+    this.snapshotAge.onCollect(gauge => {
+      const now = Date.now();
+      for (const [pool, timestamp] of this.lastSnapshotAt) {
+        gauge.set({ pool }, (now - timestamp) / 1000);
+      }
+    });
+  }
+
+  public static getInstance(): MetricsService {
+    if (!MetricsService.instance) {
+      MetricsService.instance = new MetricsService();
+    }
+    return MetricsService.instance;
+  }
+
+  /**
+   * Record that a pool snapshot was stored, resetting its age
+   * @param poolId Pool identifier
+   */
+  public recordSnapshot(poolId: string): void {
+    this.lastSnapshotAt.set(poolId, Date.now());
+  }
+
+  /**
+   * Serve `/metrics` in the Prometheus text format
+   */
+  public async start(port: number = METRICS_CONFIG.PORT, host: string = METRICS_CONFIG.HOST): Promise<void> {
+    if (this.server) {
+      logger.warn('Metrics server is already running');
+      return;
+    }
+
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, host, () => resolve());
+    });
+    logger.info(`Metrics available on http://${host}:${port}/metrics`);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (path !== '/metrics') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { 'Content-Type': 'text/plain', Allow: 'GET, HEAD' });
+      res.end('Method not allowed\n');
+      return;
+    }
+
+    try {
+      const body = this.registry.render();
+      res.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    } catch (error: any) {
+      logger.error(`Error rendering metrics: ${error.message}`);
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Error rendering metrics\n');
+    }
+  }
+}
+
+// Export singleton instance
+export const metricsService = MetricsService.getInstance();
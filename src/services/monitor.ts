@@ -1,20 +1,26 @@
-import { OrcaService } from './orca';
+import { sourceService, IPoolData, IPoolSnapshot } from './source';
 import { dbService } from './database';
+import { poolStore } from './pool-store';
+import { priceStore } from './price-store';
+import { schemaService } from './schema';
+import { tickStoreService } from './ticks';
+import { pricingService, ITokenPrice } from './pricing';
+import { volumeService } from './volume';
+import { positionService } from './positions';
+import { portfolioService } from './portfolio';
+import { arbitrageService } from './arbitrage';
+import { alertService } from './alerts';
+import { metricsService } from './metrics';
 import { sleep } from '../utils/common';
 import { logger } from '../utils/logger';
 
 class MonitorService {
   private static instance: MonitorService;
   private isRunning: boolean = false;
-  private orcaService: OrcaService;
-  private retryDelays: { [key: string]: number } = {};
-  private readonly MAX_RETRY_DELAY = 60000; // 1 minute
-  private readonly BASE_RETRY_DELAY = 1000; // 1 second
   private readonly FETCH_INTERVAL = 120000; // 2 minutes
+  private readonly BATCH_SIZE = 3; // Persist 3 pools at a time
 
-  private constructor() {
-    this.orcaService = OrcaService.getInstance();
-  }
+  private constructor() {}
 
   public static getInstance(): MonitorService {
     if (!MonitorService.instance) {
@@ -23,37 +29,104 @@ class MonitorService {
     return MonitorService.instance;
   }
 
-  private async processPool(poolId: string): Promise<void> {
+  private async fetchSnapshots(): Promise<IPoolSnapshot[]> {
+    try {
+      return await sourceService.fetchPoolSnapshots(sourceService.getPoolIds());
+    } catch (error: any) {
+      // Rate limits and flaky endpoints are already retried and failed over by the RPC pool
+      logger.error(`Error fetching pools: ${error.message}`);
+      return [];
+    }
+  }
+
+  private async processPool(poolId: string, snapshot: IPoolSnapshot): Promise<void> {
     try {
       logger.info(`Processing ${poolId}...`);
-      
-      // Check if we need to wait due to previous rate limiting
-      if (this.retryDelays[poolId]) {
-        await sleep(this.retryDelays[poolId]);
-      }
+      metricsService.ticksCollected.inc({ pool: poolId }, snapshot.ticks.length);
 
-      const poolData = await this.orcaService.getPoolData(poolId);
-      await dbService.savePoolData(poolData);
+      const { poolData, interval } = await volumeService.processSnapshot(snapshot.poolData);
+      await poolStore.savePoolData(poolData, interval);
+      metricsService.recordSnapshot(poolId);
       logger.info(`Saved pool data for ${poolId}`);
 
-      const ticksData = await this.orcaService.getTicksData(poolId);
-      await dbService.saveTicksData(ticksData);
-      logger.info(`Saved ${ticksData.length} ticks for ${poolId}`);
+      await alertService.checkSnapshot(poolData, interval);
 
-      // Reset retry delay on success
-      this.retryDelays[poolId] = 0;
+      await tickStoreService.saveTicks(snapshot.poolData.poolAddress, snapshot.poolData.timestamp, snapshot.ticks);
+      logger.info(`Saved ${snapshot.ticks.length} ticks for ${poolId}`);
+    } catch (error: any) {
+      logger.error(`Error processing ${poolId}: ${error.message}`);
+    }
+  }
 
+  /**
+   * Price and persist pool snapshots
+   * @param snapshots Snapshots to store
+   * @param pricingPools Pool states used to route USD prices, defaults to the snapshots themselves
+   */
+  public async persistSnapshots(
+    snapshots: IPoolSnapshot[],
+    pricingPools: IPoolData[] = snapshots.map(snapshot => snapshot.poolData)
+  ): Promise<void> {
+    const prices = await this.savePrices(pricingPools);
+    await this.persistPools(snapshots, prices);
+  }
+
+  /**
+   * Route USD token prices over pool states and store them without failing the cycle
+   * @returns Prices by token mint
+   */
+  public async savePrices(pricingPools: IPoolData[]): Promise<Map<string, ITokenPrice>> {
+    const prices = pricingService.computePrices(pricingPools);
+    try {
+      await priceStore.saveTokenPrices([...prices.values()]);
     } catch (error: any) {
-      if (error?.context?.statusCode === 429) {
-        // Rate limit hit - implement exponential backoff
-        this.retryDelays[poolId] = Math.min(
-          (this.retryDelays[poolId] || this.BASE_RETRY_DELAY) * 2,
-          this.MAX_RETRY_DELAY
-        );
-        logger.warn(`Rate limit hit for ${poolId}, next retry in ${this.retryDelays[poolId]}ms`);
-      } else {
-        logger.error(`Error processing ${poolId}: ${error.message}`);
-      }
+      logger.error(`Error saving token prices: ${error.message}`);
+    }
+    return prices;
+  }
+
+  /**
+   * Value pool snapshots with already routed prices and store them
+   * @param snapshots Snapshots to store
+   * @param prices Prices by token mint
+   */
+  public async persistPools(snapshots: IPoolSnapshot[], prices: Map<string, ITokenPrice>): Promise<void> {
+    for (let i = 0; i < snapshots.length; i += this.BATCH_SIZE) {
+      const batch = snapshots.slice(i, i + this.BATCH_SIZE);
+      await Promise.all(batch.map(snapshot =>
+        this.processPool(snapshot.poolId, {
+          ...snapshot,
+          poolData: pricingService.applyUsdValuation(snapshot.poolData, prices)
+        })
+      ));
+    }
+  }
+
+  /**
+   * Run a single polling cycle over every configured pool
+   * @returns Snapshots fetched in this cycle
+   */
+  public async runCycle(): Promise<IPoolSnapshot[]> {
+    const endTimer = metricsService.cycleDuration.startTimer();
+    try {
+      // One batched sweep fetches every pool and its tick arrays
+      const snapshots = await this.fetchSnapshots();
+      await this.persistSnapshots(snapshots);
+      await this.detectArbitrage(snapshots);
+      return snapshots;
+    } finally {
+      endTimer();
+    }
+  }
+
+  /**
+   * Look for arbitrage across the latest snapshots without failing the cycle
+   */
+  public async detectArbitrage(snapshots: IPoolSnapshot[]): Promise<void> {
+    try {
+      await arbitrageService.detect(snapshots);
+    } catch (error: any) {
+      logger.error(`Error detecting arbitrage: ${error.message}`);
     }
   }
 
@@ -67,20 +140,15 @@ class MonitorService {
     logger.info('Starting pool monitoring service...\n');
 
     try {
-      await dbService.ensureTablesExist();
+      await schemaService.migrate();
 
       while (this.isRunning) {
         const startTime = Date.now();
         logger.info(`\nFetching data at ${new Date().toLocaleString()}\n`);
 
-        // Process pools in parallel with a concurrency limit
-        const pools = this.orcaService.getPoolIds();
-        const BATCH_SIZE = 3; // Process 3 pools at a time
-        
-        for (let i = 0; i < pools.length; i += BATCH_SIZE) {
-          const batch = pools.slice(i, i + BATCH_SIZE);
-          await Promise.all(batch.map(poolId => this.processPool(poolId)));
-        }
+        await this.runCycle();
+        await positionService.indexIfDue();
+        await portfolioService.snapshotIfDue();
 
         // Calculate time to next fetch
         const elapsed = Date.now() - startTime;
@@ -104,4 +172,4 @@ class MonitorService {
 }
 
 // Export singleton instance
-export const monitorService = MonitorService.getInstance(); 
\ No newline at end of file
+export const monitorService = MonitorService.getInstance(); 
@@ -1,57 +1,41 @@
-import { fetchConcentratedLiquidityPool, setWhirlpoolsConfig } from '@orca-so/whirlpools';
-import { sqrtPriceToPrice, tickIndexToPrice } from '@orca-so/whirlpools-core';
-import { Connection, PublicKey, Transaction, Keypair } from '@solana/web3.js';
-import { createSolanaRpc, mainnet, address } from '@solana/kit';
-import { getConnection, withRetry } from '../utils/rpc';
-import { POOLS } from '../config/pools';
+import { setWhirlpoolsConfig } from '@orca-so/whirlpools';
+import { sqrtPriceToPrice } from '@orca-so/whirlpools-core';
+import { AccountInfo, Connection, PublicKey, Keypair } from '@solana/web3.js';
+import { getConnection, getRpc, fetchMultipleAccounts } from '../utils/rpc';
+import { POOLS, IPoolConfig, Venue, getPoolVenue } from '../config/pools';
+import { IPoolData, ITickData, IPoolSnapshot, IPoolSource, IPoolAccountInfo } from './source';
 import { logger } from '../utils/logger';
-import { RPC_CONFIG } from '../config/constants';
-import { WhirlpoolContext, TickArrayUtil, buildWhirlpoolClient } from '@orca-so/whirlpools-sdk';
+import {
+  WhirlpoolContext,
+  WhirlpoolData,
+  TickArrayData,
+  PositionData,
+  PositionBundleData,
+  PDAUtil,
+  TickUtil
+} from '@orca-so/whirlpools-sdk';
 import { AnchorProvider } from '@coral-xyz/anchor';
-import { BN } from 'bn.js';
+import { getVirtualReserves, toBigInt, toDecimalAmount } from '../utils/math';
+import { decodeTokenAccountAmount } from '../utils/token';
 
 // Constants
-const WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
-const TICK_ARRAY_SIZE = 88; // Standard size for Orca tick arrays
-
-export interface IPoolData {
-  timestamp: Date;
-  poolAddress: string;
-  tokenAAmount: number;
-  tokenBAmount: number;
-  sqrtPrice: number;
-  liquidity: number;
-  tickCurrent: number;
-  feeGrowthGlobalA: number;
-  feeGrowthGlobalB: number;
-  price: number;
-  liquidityUsd: number;
-  volume24h?: number;
-}
-
-export interface ITickData {
-  timestamp: Date;
-  poolAddress: string;
-  tickIndex: number;
-  liquidityNet: number;
-  liquidityGross: number;
-  feeGrowthOutsideA: number;
-  feeGrowthOutsideB: number;
-}
+export const WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
+const TICK_ARRAYS_PER_SIDE = 10; // Tick arrays fetched on each side of the current one
 
-export class OrcaService {
+export class OrcaService implements IPoolSource {
   private static instance: OrcaService;
+  public readonly venue: Venue = 'orca';
+  public readonly programId = WHIRLPOOL_PROGRAM_ID;
   private connection: Connection;
-  private rpc: ReturnType<typeof createSolanaRpc>;
+  private rpc: ReturnType<typeof getRpc>;
   private context: WhirlpoolContext;
-  private client: ReturnType<typeof buildWhirlpoolClient>;
 
   private constructor() {
     this.connection = getConnection();
     setWhirlpoolsConfig('solanaMainnet');
-    this.rpc = createSolanaRpc(mainnet(RPC_CONFIG.MAINNET_URL));
+    this.rpc = getRpc();
 
-    // Initialize WhirlpoolContext and client with a read-only provider
+    // Initialize WhirlpoolContext with a read-only provider, used for account decoding
     const readOnlyKeypair = Keypair.generate(); // Generate a throwaway keypair
     const provider = new AnchorProvider(
       this.connection,
@@ -64,7 +48,6 @@ export class OrcaService {
     );
 
     this.context = WhirlpoolContext.withProvider(provider, WHIRLPOOL_PROGRAM_ID);
-    this.client = buildWhirlpoolClient(this.context);
   }
 
   public static getInstance(): OrcaService {
@@ -75,58 +58,98 @@ export class OrcaService {
   }
 
   /**
-   * Get all configured pool IDs
+   * Get all configured Orca pool IDs
    * @returns Array of pool IDs
    */
   public getPoolIds(): string[] {
-    return Object.keys(POOLS);
+    return Object.keys(POOLS).filter(poolId => getPoolVenue(POOLS[poolId]) === this.venue);
   }
 
   /**
-   * Get pool data for a specific pool
-   * @param poolId The pool identifier
-   * @returns Promise resolving to pool data
+   * Fetch pool state and tick arrays for several pools in a few batched RPC calls.
+   * Whirlpool accounts are fetched first, then every vault and tick array in one
+   * chunked sweep, and everything is decoded locally.
+   * @param poolIds Pool identifiers
+   * @param includeTicks Whether to fetch tick arrays
+   * @returns Snapshots for every pool that could be fetched and decoded
    */
-  public async getPoolData(poolId: string): Promise<IPoolData> {
-    const poolConfig = POOLS[poolId];
-    if (!poolConfig) {
-      throw new Error(`Pool configuration not found for ${poolId}`);
+  public async fetchPoolSnapshots(poolIds: string[], includeTicks: boolean = true): Promise<IPoolSnapshot[]> {
+    const poolConfigs = poolIds.map(poolId => {
+      const poolConfig = POOLS[poolId];
+      if (!poolConfig) {
+        throw new Error(`Pool configuration not found for ${poolId}`);
+      }
+      return poolConfig;
+    });
+
+    const timestamp = new Date();
+    const poolAccounts = await fetchMultipleAccounts(poolConfigs.map(poolConfig => poolConfig.address));
+
+    // Decode whirlpools and collect the dependent accounts for the second sweep
+    const decoded: { poolId: string; poolConfig: IPoolConfig; whirlpool: WhirlpoolData; tickArrays: PublicKey[] }[] = [];
+    for (let i = 0; i < poolIds.length; i++) {
+      const poolConfig = poolConfigs[i];
+      const account = poolAccounts.get(poolConfig.address.toBase58());
+      if (!account) {
+        logger.warn(`Pool account not found for ${poolConfig.name} (${poolIds[i]})`);
+        continue;
+      }
+
+      try {
+        const whirlpool = this.decodeWhirlpool(account);
+        const tickArrays = includeTicks
+          ? this.getTickArrayAddresses(poolConfig.address, whirlpool.tickCurrentIndex, whirlpool.tickSpacing)
+          : [];
+        decoded.push({ poolId: poolIds[i], poolConfig, whirlpool, tickArrays });
+      } catch (error) {
+        logger.warn(`Failed to decode pool ${poolIds[i]}: ${error}`);
+      }
     }
 
-    return withRetry(async () => {
-      const pool = await this.client.getPool(new PublicKey(poolConfig.address));
-      const poolData = await pool.getData();
+    const dependentAccounts = await fetchMultipleAccounts(decoded.flatMap(({ whirlpool, tickArrays }) => [
+      whirlpool.tokenVaultA,
+      whirlpool.tokenVaultB,
+      ...tickArrays
+    ]));
+
+    const snapshots: IPoolSnapshot[] = [];
+    for (const { poolId, poolConfig, whirlpool, tickArrays } of decoded) {
+      try {
+        const vaultA = dependentAccounts.get(whirlpool.tokenVaultA.toBase58());
+        const vaultB = dependentAccounts.get(whirlpool.tokenVaultB.toBase58());
+        if (!vaultA || !vaultB) {
+          throw new Error(`Token vaults not found for ${poolConfig.name}`);
+        }
 
-      // Convert sqrtPrice to price
-      const price = sqrtPriceToPrice(
-        BigInt(poolData.sqrtPrice.toString()),
-        poolConfig.tokenA.decimals,
-        poolConfig.tokenB.decimals
-      );
+        const poolData = this.buildPoolData(poolConfig, whirlpool, vaultA, vaultB, timestamp);
+        const ticks: ITickData[] = [];
+        for (const tickArrayAddress of tickArrays) {
+          const tickArrayAccount = dependentAccounts.get(tickArrayAddress.toBase58());
+          if (!tickArrayAccount) continue; // Uninitialized tick array
+          ticks.push(...this.decodeTicks(poolConfig, this.decodeTickArray(tickArrayAccount), whirlpool.tickSpacing, timestamp));
+        }
 
-      const liquidity = Number(poolData.liquidity);
-      const liquidityUsd = liquidity * Number(price);
+        logger.debug(`Decoded ${poolId}: tick ${whirlpool.tickCurrentIndex}, ${ticks.length} initialized ticks`);
+        snapshots.push({ poolId, poolData, ticks });
+      } catch (error) {
+        logger.warn(`Failed to build snapshot for ${poolId}: ${error}`);
+      }
+    }
 
-      // Calculate token amounts based on liquidity and current price
-      const priceNum = Number(price);
-      const tokenAAmount = liquidity / Math.sqrt(priceNum);
-      const tokenBAmount = liquidity * Math.sqrt(priceNum);
+    return snapshots;
+  }
 
-      return {
-        timestamp: new Date(),
-        poolAddress: poolConfig.address.toString(),
-        tokenAAmount,
-        tokenBAmount,
-        sqrtPrice: Number(poolData.sqrtPrice),
-        liquidity,
-        tickCurrent: poolData.tickCurrentIndex,
-        feeGrowthGlobalA: Number(poolData.feeGrowthGlobalA),
-        feeGrowthGlobalB: Number(poolData.feeGrowthGlobalB),
-        price: priceNum,
-        liquidityUsd,
-        volume24h: 0 // This would need to be calculated from historical data
-      };
-    });
+  /**
+   * Get pool data for a specific pool
+   * @param poolId The pool identifier
+   * @returns Promise resolving to pool data
+   */
+  public async getPoolData(poolId: string): Promise<IPoolData> {
+    const [snapshot] = await this.fetchPoolSnapshots([poolId], false);
+    if (!snapshot) {
+      throw new Error(`Pool not found for ${poolId}`);
+    }
+    return snapshot.poolData;
   }
 
   /**
@@ -135,336 +158,141 @@ export class OrcaService {
    * @returns Promise resolving to array of tick data
    */
   public async getTicksData(poolId: string): Promise<ITickData[]> {
-    const poolConfig = POOLS[poolId];
-    if (!poolConfig) {
-      throw new Error(`Pool configuration not found for ${poolId}`);
+    const [snapshot] = await this.fetchPoolSnapshots([poolId]);
+    if (!snapshot) {
+      throw new Error(`Pool not found for ${poolId}`);
     }
+    return snapshot.ticks;
+  }
 
-    return withRetry(async () => {
-      const pool = await this.client.getPool(new PublicKey(poolConfig.address));
-      if (!pool) {
-        throw new Error(`Pool not found for ${poolConfig.name}`);
-      }
+  /**
+   * Decode a raw Whirlpool account
+   */
+  public decodeWhirlpool(account: AccountInfo<Buffer>): WhirlpoolData {
+    return this.context.program.coder.accounts.decode('Whirlpool', account.data);
+  }
 
-      const poolData = await pool.getData();
-      const currentTick = poolData.tickCurrentIndex;
-      const tickSpacing = poolData.tickSpacing;
-
-      logger.info(`\n${'='.repeat(80)}`);
-      logger.info(`🔍 FETCHING TICK DATA FOR POOL: ${poolConfig.name} (${poolId})`);
-      logger.info(`${'='.repeat(80)}\n`);
-      logger.info(`Pool address: ${poolConfig.address}`);
-      logger.info(`Current tick: ${currentTick}, Tick spacing: ${tickSpacing}`);
-      logger.info(`Pool price: ${poolData.sqrtPrice ? sqrtPriceToPrice(
-        BigInt(poolData.sqrtPrice.toString()),
-        poolConfig.tokenA.decimals,
-        poolConfig.tokenB.decimals
-      ) : 'Unknown'}`);
-      logger.info(`Liquidity: ${poolData.liquidity ? poolData.liquidity.toString() : 'Unknown'}`);
-
-      // Get tick array PDAs around the current tick with increased range
-      // We'll get 20 tick arrays to ensure we capture all active ticks
-      const tickArrayPDAs = TickArrayUtil.getTickArrayPDAs(
-        currentTick,
-        tickSpacing,
-        20, // Get more tick arrays to ensure we capture all activity
-        WHIRLPOOL_PROGRAM_ID,
-        new PublicKey(poolConfig.address),
-        true // Direction doesn't matter since we're getting arrays on both sides
-      );
-
-      logger.info(`\n📊 Found ${tickArrayPDAs.length} tick arrays to process`);
-      
-      // Log the startTickIndex of each tick array to better understand the coverage
-      logger.info(`\n${'*'.repeat(60)}`);
-      logger.info(`📊 TICK ARRAY COVERAGE`);
-      logger.info(`${'*'.repeat(60)}\n`);
-      
-      const tickArrayStartIndices = tickArrayPDAs.map((pda, index) => {
-        // Calculate approximate start tick index based on current tick and array width
-        const arrayWidth = TICK_ARRAY_SIZE * tickSpacing;
-        const offset = index - Math.floor(tickArrayPDAs.length / 2);
-        const startTickIndex = Math.floor(currentTick / arrayWidth) * arrayWidth + (offset * arrayWidth);
-        
-        return { 
-          index,
-          pda: pda.publicKey.toString(), 
-          approximateStartTickIndex: startTickIndex,
-          approximateEndTickIndex: startTickIndex + arrayWidth,
-          priceRangeLower: tickIndexToPrice(startTickIndex, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals),
-          priceRangeUpper: tickIndexToPrice(startTickIndex + arrayWidth, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals)
-        };
-      });
-      
-      for (const array of tickArrayStartIndices) {
-        logger.info(`Tick Array ${array.index + 1}:`);
-        logger.info(`   └─ PDA: ${array.pda.slice(0, 10)}...`);
-        logger.info(`   └─ Tick Range: ${array.approximateStartTickIndex} to ${array.approximateEndTickIndex}`);
-        logger.info(`   └─ Price Range: ${array.priceRangeLower} to ${array.priceRangeUpper}`);
-        logger.info(`   └─ Includes current tick: ${
-          array.approximateStartTickIndex <= currentTick && 
-          currentTick < array.approximateEndTickIndex ? 'YES ✓' : 'NO'
-        }`);
-      }
+  public decodePoolInfo(account: AccountInfo<Buffer>): IPoolAccountInfo {
+    const whirlpool = this.decodeWhirlpool(account);
+    return {
+      tokenMintA: whirlpool.tokenMintA,
+      tokenMintB: whirlpool.tokenMintB,
+      tickSpacing: whirlpool.tickSpacing
+    };
+  }
 
-      const ticksData: ITickData[] = [];
-      const timestamp = new Date();
-
-      // Fetch and process each tick array
-      for (const pda of tickArrayPDAs) {
-        try {
-          const tickArrayAccount = await this.connection.getAccountInfo(pda.publicKey);
-          if (!tickArrayAccount) {
-            logger.debug(`❌ No tick array account found for PDA ${pda.publicKey.toString()}`);
-            continue;
-          }
-
-          // Decode the tick array data
-          const tickArray = this.context.program.coder.accounts.decode(
-            'TickArray',
-            tickArrayAccount.data
-          );
-
-          const startTickIndex = tickArray.startTickIndex;
-          logger.info(`\n${'*'.repeat(60)}`);
-          logger.info(`📈 PROCESSING TICK ARRAY: ${startTickIndex}`);
-          logger.info(`${'*'.repeat(60)}\n`);
-          logger.info(`Array PDA: ${pda.publicKey.toString()}`);
-          logger.info(`Start tick index: ${startTickIndex}`);
-          logger.info(`End tick index: ${startTickIndex + (TICK_ARRAY_SIZE * tickSpacing)}`);
-          
-          // Try to fetch active positions around this tick range to ensure we get live data
-          await this.getActivePositionsAroundTickArray(poolConfig.address.toString(), startTickIndex, tickSpacing);
-          
-          // Log the raw tick array data structure for debugging
-          logger.debug(`Raw tick array data: ${JSON.stringify(tickArray, (_, v) => 
-            typeof v === 'bigint' ? v.toString() : v, 2)}`);
-
-          // Process each tick in the array
-          let initializedTicks = 0;
-          for (let i = 0; i < tickArray.ticks.length; i++) {
-            const tick = tickArray.ticks[i];
-            
-            // Skip uninitialized ticks but also log the first few to understand the structure
-            if (!tick.initialized) {
-              if (i < 3) {
-                logger.debug(`Example uninitialized tick at index ${i}: ${JSON.stringify(tick, (_, v) => 
-                  typeof v === 'bigint' ? v.toString() : v, 2)}`);
-              }
-              continue;
-            }
-
-            initializedTicks++;
-
-            // Calculate the actual tick index based on position in array and tick spacing
-            const tickIndex = startTickIndex + (i * tickSpacing);
-            
-            // Validate tick index
-            if (typeof tickIndex !== 'number' || isNaN(tickIndex)) {
-              logger.warn(`⚠️ Invalid tick index calculated for pool ${poolId}: ${tickIndex}`);
-              continue;
-            }
-
-            // Log the raw tick data for debugging
-            logger.debug(`Raw tick data for ${tickIndex}: ${JSON.stringify(tick, (_, v) => 
-              typeof v === 'bigint' ? v.toString() : v, 2)}`);
-
-            // Convert BigInts to numbers safely with proper access patterns
-            // Handle both object-style access and direct property access that might be used in different SDK versions
-            let liquidityNet = 0;
-            if (tick.liquidityNet !== undefined) {
-              if (typeof tick.liquidityNet === 'object' && tick.liquidityNet !== null) {
-                liquidityNet = Number(tick.liquidityNet.toString());
-              } else if (typeof tick.liquidityNet === 'bigint') {
-                liquidityNet = Number(tick.liquidityNet.toString());
-              } else {
-                liquidityNet = Number(tick.liquidityNet);
-              }
-            }
-
-            let liquidityGross = 0;
-            if (tick.liquidityGross !== undefined) {
-              if (typeof tick.liquidityGross === 'object' && tick.liquidityGross !== null) {
-                liquidityGross = Number(tick.liquidityGross.toString());
-              } else if (typeof tick.liquidityGross === 'bigint') {
-                liquidityGross = Number(tick.liquidityGross.toString());
-              } else {
-                liquidityGross = Number(tick.liquidityGross);
-              }
-            }
-
-            let feeGrowthOutsideA = 0;
-            if (tick.feeGrowthOutsideA !== undefined) {
-              if (typeof tick.feeGrowthOutsideA === 'object' && tick.feeGrowthOutsideA !== null) {
-                feeGrowthOutsideA = Number(tick.feeGrowthOutsideA.toString());
-              } else if (typeof tick.feeGrowthOutsideA === 'bigint') {
-                feeGrowthOutsideA = Number(tick.feeGrowthOutsideA.toString());
-              } else {
-                feeGrowthOutsideA = Number(tick.feeGrowthOutsideA);
-              }
-            }
-
-            let feeGrowthOutsideB = 0;
-            if (tick.feeGrowthOutsideB !== undefined) {
-              if (typeof tick.feeGrowthOutsideB === 'object' && tick.feeGrowthOutsideB !== null) {
-                feeGrowthOutsideB = Number(tick.feeGrowthOutsideB.toString());
-              } else if (typeof tick.feeGrowthOutsideB === 'bigint') {
-                feeGrowthOutsideB = Number(tick.feeGrowthOutsideB.toString());
-              } else {
-                feeGrowthOutsideB = Number(tick.feeGrowthOutsideB);
-              }
-            }
-
-            // Enhanced debug logging with better formatting
-            logger.info(`\n${'~'.repeat(40)}`);
-            logger.info(`🎯 TICK DATA [${tickIndex}]:`);
-            logger.info(`${'~'.repeat(40)}`);
-            logger.info(`   └─ Array position: ${i}/${tickArray.ticks.length}`);
-            logger.info(`   └─ Initialized: ${tick.initialized ? 'YES ✓' : 'NO'}`);
-            logger.info(`   └─ Liquidity Net: ${liquidityNet} (${liquidityNet !== 0 ? '✓' : '✗'})`);
-            logger.info(`   └─ Liquidity Gross: ${liquidityGross} (${liquidityGross !== 0 ? '✓' : '✗'})`);
-            logger.info(`   └─ Fee Growth Outside A: ${feeGrowthOutsideA} (${feeGrowthOutsideA !== 0 ? '✓' : '✗'})`);
-            logger.info(`   └─ Fee Growth Outside B: ${feeGrowthOutsideB} (${feeGrowthOutsideB !== 0 ? '✓' : '✗'})`);
-            
-            const tickPrice = tickIndexToPrice(tickIndex, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals);
-            logger.info(`   └─ Price: ${tickPrice}`);
-            logger.info(`   └─ Is active: ${liquidityNet !== 0 || liquidityGross !== 0 ? 'YES ✓' : 'NO ✗'}`);
-
-            ticksData.push({
-              timestamp,
-              poolAddress: poolConfig.address.toString(),
-              tickIndex,
-              liquidityNet,
-              liquidityGross,
-              feeGrowthOutsideA,
-              feeGrowthOutsideB
-            });
-          }
-
-          logger.info(`\n✅ Processed ${initializedTicks} initialized ticks in this array`);
-        } catch (error) {
-          logger.warn(`❌ Failed to fetch tick array for pool ${poolId}: ${error}`);
-          continue;
-        }
-      }
+  /**
+   * Decode a raw Position account
+   */
+  public decodePosition(account: AccountInfo<Buffer>): PositionData {
+    return this.context.program.coder.accounts.decode('Position', account.data);
+  }
 
-      logger.info(`\n${'='.repeat(80)}`);
-      logger.info(`📊 SUMMARY FOR POOL: ${poolConfig.name}`);
-      logger.info(`${'='.repeat(80)}\n`);
-      logger.info(`   └─ Total ticks processed: ${ticksData.length}`);
-      
-      const nonZeroLiquidityTicks = ticksData.filter(t => t.liquidityNet !== 0 || t.liquidityGross !== 0);
-      const nonZeroFeeTicks = ticksData.filter(t => t.feeGrowthOutsideA !== 0 || t.feeGrowthOutsideB !== 0);
-      
-      logger.info(`   └─ Ticks with non-zero liquidity: ${nonZeroLiquidityTicks.length} (${Math.round(nonZeroLiquidityTicks.length / ticksData.length * 100)}%)`);
-      logger.info(`   └─ Ticks with non-zero fee growth: ${nonZeroFeeTicks.length} (${Math.round(nonZeroFeeTicks.length / ticksData.length * 100)}%)`);
-      
-      // Show first few non-zero ticks if any exist
-      if (nonZeroLiquidityTicks.length > 0) {
-        logger.info(`\n   └─ Sample of non-zero liquidity ticks:`);
-        for (let i = 0; i < Math.min(3, nonZeroLiquidityTicks.length); i++) {
-          const tick = nonZeroLiquidityTicks[i];
-          logger.info(`      └─ Tick ${tick.tickIndex}: liquidityNet=${tick.liquidityNet}, liquidityGross=${tick.liquidityGross}`);
-        }
-      }
-      return ticksData;
-    });
+  /**
+   * Decode a raw PositionBundle account
+   */
+  public decodePositionBundle(account: AccountInfo<Buffer>): PositionBundleData {
+    return this.context.program.coder.accounts.decode('PositionBundle', account.data);
   }
 
   /**
-   * Helper method to find active positions around a tick array
-   * This helps ensure we get actual liquidity data
+   * Decode a raw TickArray account
    */
-  private async getActivePositionsAroundTickArray(
-    poolAddress: string,
-    startTickIndex: number,
-    tickSpacing: number
-  ): Promise<void> {
-    try {
-      logger.info(`\n${'#'.repeat(60)}`);
-      logger.info(`🔎 CHECKING FOR ACTIVE POSITIONS`);
-      logger.info(`${'#'.repeat(60)}\n`);
-      logger.info(`Pool: ${poolAddress}`);
-      logger.info(`Tick array starting at: ${startTickIndex}`);
-      
-      // Query for positions on this pool - we use getProgramAccounts to find all position accounts
-      const positions = await this.connection.getProgramAccounts(
-        WHIRLPOOL_PROGRAM_ID,
-        {
-          filters: [
-            { dataSize: 200 }, // Approximate size of position accounts
-            {
-              memcmp: {
-                offset: 8, // After the discriminator
-                bytes: new PublicKey(poolAddress).toBase58() // Filter by the pool address
-              }
-            }
-          ]
-        }
-      );
-      
-      if (positions.length > 0) {
-        logger.info(`\n📋 Found ${positions.length} positions for pool ${poolAddress}`);
-        
-        // Decode and log the first few positions for debugging
-        for (let i = 0; i < Math.min(5, positions.length); i++) {
-          try {
-            const positionData = this.context.program.coder.accounts.decode(
-              'Position',
-              positions[i].account.data
-            );
-            
-            logger.info(`\n👤 Position ${i + 1} (${positions[i].pubkey.toString().slice(0, 8)}...):`);
-            const liquidity = positionData.liquidity ? positionData.liquidity.toString() : '0';
-            const lowerTickIndex = positionData.tickLowerIndex;
-            const upperTickIndex = positionData.tickUpperIndex;
-            
-            logger.info(`   └─ Liquidity: ${liquidity} (${liquidity !== '0' ? 'ACTIVE ✓' : 'INACTIVE ✗'})`);
-            logger.info(`   └─ Lower Tick: ${lowerTickIndex}`);
-            logger.info(`   └─ Upper Tick: ${upperTickIndex}`);
-            
-            // Calculate price range
-            if (lowerTickIndex !== undefined && upperTickIndex !== undefined) {
-              try {
-                // Get the pool configuration to determine token decimals for price calculation
-                const poolConfig = Object.values(POOLS).find(p => p.address.toString() === poolAddress);
-                if (poolConfig) {
-                  const lowerPrice = tickIndexToPrice(lowerTickIndex, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals);
-                  const upperPrice = tickIndexToPrice(upperTickIndex, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals);
-                  
-                  logger.info(`   └─ Price Range: ${lowerPrice} to ${upperPrice}`);
-                }
-              } catch (error) {
-                logger.debug(`Failed to calculate price range: ${error}`);
-              }
-              
-              // Determine if position intersects with current tick array range
-              const arrayEnd = startTickIndex + (TICK_ARRAY_SIZE * tickSpacing);
-              const inRange = (lowerTickIndex <= arrayEnd && upperTickIndex >= startTickIndex);
-              logger.info(`   └─ Intersects with current tick array: ${inRange ? 'YES ✓' : 'NO ✗'}`);
-              
-              // Calculate which tick arrays this position covers
-              const lowerTickArrayStartIndex = Math.floor(lowerTickIndex / (TICK_ARRAY_SIZE * tickSpacing)) * (TICK_ARRAY_SIZE * tickSpacing);
-              const upperTickArrayStartIndex = Math.floor(upperTickIndex / (TICK_ARRAY_SIZE * tickSpacing)) * (TICK_ARRAY_SIZE * tickSpacing);
-              
-              logger.info(`   └─ Tick Arrays Covered:`);
-              logger.info(`      └─ Lower: ${lowerTickArrayStartIndex} to ${lowerTickArrayStartIndex + (TICK_ARRAY_SIZE * tickSpacing)}`);
-              logger.info(`      └─ Upper: ${upperTickArrayStartIndex} to ${upperTickArrayStartIndex + (TICK_ARRAY_SIZE * tickSpacing)}`);
-              
-              // Log the raw position data for deeper inspection
-              logger.debug(`Position raw data: ${JSON.stringify(positionData, (_, v) => 
-                typeof v === 'bigint' ? v.toString() : v, 2)}`);
-            }
-          } catch (error) {
-            logger.warn(`Failed to decode position: ${error}`);
-          }
-        }
-      } else {
-        logger.info(`No positions found for pool ${poolAddress}`);
+  public decodeTickArray(account: AccountInfo<Buffer>): TickArrayData {
+    return this.context.program.coder.accounts.decode('TickArray', account.data);
+  }
+
+  /**
+   * Get the tick array addresses covering the current tick and its neighbours on both sides
+   * @param poolAddress Whirlpool address
+   * @param tickCurrent Current tick index
+   * @param tickSpacing Pool tick spacing
+   */
+  public getTickArrayAddresses(poolAddress: PublicKey, tickCurrent: number, tickSpacing: number): PublicKey[] {
+    const addresses: PublicKey[] = [];
+    for (let offset = -TICK_ARRAYS_PER_SIDE; offset <= TICK_ARRAYS_PER_SIDE; offset++) {
+      let startTickIndex: number;
+      try {
+        startTickIndex = TickUtil.getStartTickIndex(tickCurrent, tickSpacing, offset);
+      } catch {
+        continue; // Beyond the min/max tick bounds
       }
-    } catch (error) {
-      logger.warn(`Error fetching positions: ${error}`);
+      addresses.push(PDAUtil.getTickArray(WHIRLPOOL_PROGRAM_ID, poolAddress, startTickIndex).publicKey);
     }
+    return addresses;
+  }
+
+  /**
+   * Build a pool snapshot from decoded Whirlpool state and its vault accounts
+   */
+  public buildPoolData(
+    poolConfig: IPoolConfig,
+    whirlpool: WhirlpoolData,
+    vaultA: AccountInfo<Buffer>,
+    vaultB: AccountInfo<Buffer>,
+    timestamp: Date
+  ): IPoolData {
+    const sqrtPrice = toBigInt(whirlpool.sqrtPrice);
+    const liquidity = toBigInt(whirlpool.liquidity);
+
+    // Convert sqrtPrice to price
+    const price = sqrtPriceToPrice(sqrtPrice, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals);
+
+    // Actual reserves held by the pool's token vaults
+    const tokenAAmountRaw = decodeTokenAccountAmount(vaultA.data);
+    const tokenBAmountRaw = decodeTokenAccountAmount(vaultB.data);
+
+    // Virtual reserves backing the active tick range
+    const virtualReserves = getVirtualReserves(liquidity, sqrtPrice);
+
+    return {
+      timestamp,
+      poolAddress: poolConfig.address.toString(),
+      venue: this.venue,
+      tokenAAmount: toDecimalAmount(tokenAAmountRaw, poolConfig.tokenA.decimals),
+      tokenBAmount: toDecimalAmount(tokenBAmountRaw, poolConfig.tokenB.decimals),
+      tokenAAmountRaw,
+      tokenBAmountRaw,
+      virtualTokenAAmount: toDecimalAmount(virtualReserves.tokenA, poolConfig.tokenA.decimals),
+      virtualTokenBAmount: toDecimalAmount(virtualReserves.tokenB, poolConfig.tokenB.decimals),
+      sqrtPrice,
+      liquidity,
+      tickCurrent: whirlpool.tickCurrentIndex,
+      feeGrowthGlobalA: toBigInt(whirlpool.feeGrowthGlobalA),
+      feeGrowthGlobalB: toBigInt(whirlpool.feeGrowthGlobalB),
+      feeRate: whirlpool.feeRate,
+      protocolFeeRate: whirlpool.protocolFeeRate,
+      price
+    };
+  }
+
+  /**
+   * Extract the initialized ticks of a decoded tick array
+   */
+  public decodeTicks(
+    poolConfig: IPoolConfig,
+    tickArray: TickArrayData,
+    tickSpacing: number,
+    timestamp: Date
+  ): ITickData[] {
+    const ticks: ITickData[] = [];
+
+    tickArray.ticks.forEach((tick, i) => {
+      if (!tick.initialized) return;
+
+      // Keep raw u128/i128 values exact
+      ticks.push({
+        timestamp,
+        poolAddress: poolConfig.address.toString(),
+        tickIndex: tickArray.startTickIndex + i * tickSpacing,
+        liquidityNet: toBigInt(tick.liquidityNet),
+        liquidityGross: toBigInt(tick.liquidityGross),
+        feeGrowthOutsideA: toBigInt(tick.feeGrowthOutsideA),
+        feeGrowthOutsideB: toBigInt(tick.feeGrowthOutsideB)
+      });
+    });
+
+    return ticks;
   }
 }
 
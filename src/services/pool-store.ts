@@ -0,0 +1,307 @@
+import { ITask } from 'pg-promise';
+import { TABLE_NAMES, QUERIES } from '../config/constants';
+import { IPoolData } from './source';
+import { Venue } from '../config/pools';
+import { IVolumeInterval, IVolumeSummary } from './volume';
+import { dbService, IExtensions } from './database';
+import { logger } from '../utils/logger';
+import { parseBigInt } from '../utils/math';
+
+interface IPoolRow {
+  timestamp: Date;
+  pool_address: string;
+  venue: Venue | null;
+  token_a_amount: string;
+  token_b_amount: string;
+  token_a_amount_raw: string | null;
+  token_b_amount_raw: string | null;
+  virtual_token_a_amount: string | null;
+  virtual_token_b_amount: string | null;
+  sqrt_price: string;
+  liquidity: string;
+  tick_current: number;
+  fee_growth_global_a: string;
+  fee_growth_global_b: string;
+  fee_rate: number | null;
+  protocol_fee_rate: number | null;
+  price: string;
+  liquidity_usd: string | null;
+  token_a_price_usd: string | null;
+  token_b_price_usd: string | null;
+  volume_24h: string | null;
+}
+
+function mapPoolRow(row: IPoolRow): IPoolData {
+  return {
+    timestamp: row.timestamp,
+    poolAddress: row.pool_address,
+    venue: row.venue ?? 'orca',
+    tokenAAmount: parseFloat(row.token_a_amount),
+    tokenBAmount: parseFloat(row.token_b_amount),
+    tokenAAmountRaw: parseBigInt(row.token_a_amount_raw),
+    tokenBAmountRaw: parseBigInt(row.token_b_amount_raw),
+    virtualTokenAAmount: row.virtual_token_a_amount ? parseFloat(row.virtual_token_a_amount) : 0,
+    virtualTokenBAmount: row.virtual_token_b_amount ? parseFloat(row.virtual_token_b_amount) : 0,
+    sqrtPrice: parseBigInt(row.sqrt_price),
+    liquidity: parseBigInt(row.liquidity),
+    tickCurrent: row.tick_current,
+    feeGrowthGlobalA: parseBigInt(row.fee_growth_global_a),
+    feeGrowthGlobalB: parseBigInt(row.fee_growth_global_b),
+    feeRate: row.fee_rate ?? 0,
+    protocolFeeRate: row.protocol_fee_rate ?? 0,
+    price: parseFloat(row.price),
+    tokenAPriceUsd: row.token_a_price_usd ? parseFloat(row.token_a_price_usd) : undefined,
+    tokenBPriceUsd: row.token_b_price_usd ? parseFloat(row.token_b_price_usd) : undefined,
+    liquidityUsd: row.liquidity_usd ? parseFloat(row.liquidity_usd) : undefined,
+    volume24h: row.volume_24h ? parseFloat(row.volume_24h) : undefined,
+  };
+}
+
+/**
+ * Reads and writes of pool snapshots, volume intervals and price history
+ */
+export class PoolStore {
+  private static instance: PoolStore;
+
+  private constructor() {}
+
+  public static getInstance(): PoolStore {
+    if (!PoolStore.instance) {
+      PoolStore.instance = new PoolStore();
+    }
+    return PoolStore.instance;
+  }
+
+  public async savePoolData(data: IPoolData, volume?: IVolumeInterval | null): Promise<void> {
+    try {
+      await dbService.measureWrite('pool_data', () => dbService.db.tx(async (t: ITask<IExtensions>) => {
+        await t.none(QUERIES.INSERT_POOL_DATA, [
+          data.timestamp,
+          data.poolAddress,
+          data.tokenAAmount,
+          data.tokenBAmount,
+          data.tokenAAmountRaw,
+          data.tokenBAmountRaw,
+          data.virtualTokenAAmount,
+          data.virtualTokenBAmount,
+          data.sqrtPrice,
+          data.liquidity,
+          data.tickCurrent,
+          data.feeGrowthGlobalA,
+          data.feeGrowthGlobalB,
+          data.feeRate,
+          data.protocolFeeRate,
+          data.venue,
+        ]);
+
+        await t.none(QUERIES.INSERT_PRICE_DATA, [
+          data.timestamp,
+          data.poolAddress,
+          data.price,
+          data.volume24h || 0,
+          data.liquidityUsd ?? null,
+          data.tokenAPriceUsd ?? null,
+          data.tokenBPriceUsd ?? null,
+        ]);
+
+        if (volume) {
+          await t.none(QUERIES.INSERT_VOLUME_DATA, [
+            volume.timestamp,
+            volume.poolAddress,
+            volume.intervalSeconds,
+            volume.feesA,
+            volume.feesB,
+            volume.volumeA,
+            volume.volumeB,
+            volume.feesUsd ?? null,
+            volume.volumeUsd ?? null,
+          ]);
+        }
+      }));
+    } catch (error: any) {
+      logger.error(`Error saving pool data: ${error.message}`);
+      throw error;
+    }
+  }
+
+  public async getLatestPrices(): Promise<Array<{ pool_address: string; price: number; timestamp: Date }>> {
+    try {
+      return dbService.db.any<{ pool_address: string; price: number; timestamp: Date }>(`
+        WITH latest_timestamps AS (
+          SELECT pool_address, MAX(timestamp) as max_timestamp
+          FROM ${TABLE_NAMES.PRICE_DATA}
+          GROUP BY pool_address
+        )
+        SELECT p.pool_address, p.price, p.timestamp
+        FROM ${TABLE_NAMES.PRICE_DATA} p
+        INNER JOIN latest_timestamps lt
+          ON p.pool_address = lt.pool_address
+          AND p.timestamp = lt.max_timestamp
+        ORDER BY p.pool_address;
+      `);
+    } catch (error: any) {
+      logger.error(`Error getting latest prices: ${error.message}`);
+      return [];
+    }
+  }
+
+  public async getPoolHistory(
+    poolAddress: string,
+    startTime: Date,
+    endTime: Date,
+    limit?: number,
+    offset: number = 0
+  ): Promise<IPoolData[]> {
+    try {
+      const rows = await dbService.db.any<IPoolRow>(`
+        SELECT pd.*, p.price, p.liquidity_usd, p.volume_24h,
+          p.token_a_price_usd, p.token_b_price_usd
+        FROM ${TABLE_NAMES.POOL_DATA} pd
+        LEFT JOIN ${TABLE_NAMES.PRICE_DATA} p
+          ON pd.timestamp = p.timestamp
+          AND pd.pool_address = p.pool_address
+        WHERE pd.pool_address = $1
+          AND pd.timestamp BETWEEN $2 AND $3
+        ORDER BY pd.timestamp ASC
+        LIMIT $4 OFFSET $5;
+      `, [poolAddress, startTime, endTime, limit ?? null, offset]);
+
+      return rows.map(mapPoolRow);
+    } catch (error: any) {
+      logger.error(`Error getting pool history: ${error.message}`);
+      return [];
+    }
+  }
+
+  public async getLatestPoolSnapshot(poolAddress: string): Promise<IPoolData | null> {
+    try {
+      const row = await dbService.db.oneOrNone<IPoolRow>(`
+        SELECT pd.*, p.price, p.liquidity_usd, p.volume_24h,
+          p.token_a_price_usd, p.token_b_price_usd
+        FROM ${TABLE_NAMES.POOL_DATA} pd
+        LEFT JOIN ${TABLE_NAMES.PRICE_DATA} p
+          ON pd.timestamp = p.timestamp
+          AND pd.pool_address = p.pool_address
+        WHERE pd.pool_address = $1
+        ORDER BY pd.timestamp DESC
+        LIMIT 1;
+      `, [poolAddress]);
+
+      return row ? mapPoolRow(row) : null;
+    } catch (error: any) {
+      logger.error(`Error getting latest pool snapshot: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get the last pool snapshot taken at or before a point in time
+   */
+  public async getPoolSnapshotAt(poolAddress: string, at: Date): Promise<IPoolData | null> {
+    try {
+      const row = await dbService.db.oneOrNone<IPoolRow>(`
+        SELECT pd.*, p.price, p.liquidity_usd, p.volume_24h,
+          p.token_a_price_usd, p.token_b_price_usd
+        FROM ${TABLE_NAMES.POOL_DATA} pd
+        LEFT JOIN ${TABLE_NAMES.PRICE_DATA} p
+          ON pd.timestamp = p.timestamp
+          AND pd.pool_address = p.pool_address
+        WHERE pd.pool_address = $1
+          AND pd.timestamp <= $2
+        ORDER BY pd.timestamp DESC
+        LIMIT 1;
+      `, [poolAddress, at]);
+
+      return row ? mapPoolRow(row) : null;
+    } catch (error: any) {
+      logger.error(`Error getting pool snapshot: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Page through pool snapshots joined with prices, keyset-paginated so exports
+   * never hold more than one page
+   * @param startTime Start of the range, inclusive
+   * @param endTime End of the range, exclusive
+   * @param after Timestamp of the last row of the previous page
+   * @param limit Page size
+   */
+  public async getPoolHistoryPage(
+    poolAddress: string,
+    startTime: Date,
+    endTime: Date,
+    after: Date | null,
+    limit: number
+  ): Promise<IPoolData[]> {
+    try {
+      const rows = await dbService.db.any<IPoolRow>(`
+        SELECT pd.*, p.price, p.liquidity_usd, p.volume_24h,
+          p.token_a_price_usd, p.token_b_price_usd
+        FROM ${TABLE_NAMES.POOL_DATA} pd
+        LEFT JOIN ${TABLE_NAMES.PRICE_DATA} p
+          ON pd.timestamp = p.timestamp
+          AND pd.pool_address = p.pool_address
+        WHERE pd.pool_address = $1
+          AND pd.timestamp >= $2
+          AND pd.timestamp < $3
+          AND ($4::timestamptz IS NULL OR pd.timestamp > $4)
+        ORDER BY pd.timestamp ASC
+        LIMIT $5;
+      `, [poolAddress, startTime, endTime, after, limit]);
+
+      return rows.map(mapPoolRow);
+    } catch (error: any) {
+      logger.error(`Error getting pool history page: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Sum fee-derived volume over a window. Intervals that start before the window
+   * are pro-rated by the share of their duration that falls inside it.
+   */
+  public async getVolumeSummary(
+    poolAddress: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<IVolumeSummary> {
+    try {
+      const row = await dbService.db.one(`
+        WITH weighted AS (
+          SELECT *,
+            LEAST(1, EXTRACT(EPOCH FROM (timestamp - $2::timestamptz)) / NULLIF(interval_seconds, 0)) AS weight
+          FROM ${TABLE_NAMES.VOLUME_DATA}
+          WHERE pool_address = $1
+            AND timestamp > $2
+            AND timestamp <= $3
+        )
+        SELECT
+          COALESCE(SUM(fees_a * weight), 0) AS fees_a,
+          COALESCE(SUM(fees_b * weight), 0) AS fees_b,
+          COALESCE(SUM(volume_a * weight), 0) AS volume_a,
+          COALESCE(SUM(volume_b * weight), 0) AS volume_b,
+          COALESCE(SUM(fees_usd * weight), 0) AS fees_usd,
+          COALESCE(SUM(volume_usd * weight), 0) AS volume_usd,
+          COALESCE(SUM(interval_seconds * weight), 0) AS covered_seconds
+        FROM weighted;
+      `, [poolAddress, startTime, endTime]);
+
+      return {
+        feesA: parseFloat(row.fees_a),
+        feesB: parseFloat(row.fees_b),
+        volumeA: parseFloat(row.volume_a),
+        volumeB: parseFloat(row.volume_b),
+        feesUsd: parseFloat(row.fees_usd),
+        volumeUsd: parseFloat(row.volume_usd),
+        coveredSeconds: parseFloat(row.covered_seconds),
+      };
+    } catch (error: any) {
+      logger.error(`Error getting volume summary: ${error.message}`);
+      return { feesA: 0, feesB: 0, volumeA: 0, volumeB: 0, feesUsd: 0, volumeUsd: 0, coveredSeconds: 0 };
+    }
+  }
+}
+
+// Export singleton instance
+export const poolStore = PoolStore.getInstance();
@@ -0,0 +1,400 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import {
+  PDAUtil,
+  PositionBundleUtil,
+  PositionData,
+  TickArrayData,
+  TickData,
+  TickUtil,
+  WhirlpoolData
+} from '@orca-so/whirlpools-sdk';
+import { orcaService, WHIRLPOOL_PROGRAM_ID } from './orca';
+import { sourceService } from './source';
+import { pricingService, ITokenPrice } from './pricing';
+import { positionStore } from './position-store';
+import { POOLS, IPoolConfig, getPoolConfigByAddress, getTokenConfigByMint } from '../config/pools';
+import { PORTFOLIO_CONFIG } from '../config/constants';
+import { ITickRange, getDepositAmounts, getGrowthInside } from '../analytics/fees';
+import { sqrtPriceToPrice, tickIndexToSqrtPrice } from '../analytics/swap';
+import { fetchMultipleAccounts, getConnection } from '../utils/rpc';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, decodeMintDecimals, decodeTokenAccountAmount, decodeTokenAccountMint } from '../utils/token';
+import { toBigInt, toDecimalAmount } from '../utils/math';
+import { logger } from '../utils/logger';
+
+const U128 = 1n << 128n;
+const U64_MAX = (1n << 64n) - 1n;
+
+export interface IWalletReward {
+  mint: string;
+  symbol: string;
+  amount: number; // uncollected, decimal-adjusted
+  valueUsd?: number;
+}
+
+export interface IWalletPosition {
+  timestamp: Date;
+  owner: string;
+  poolId: string;
+  poolAddress: string;
+  positionAddress: string;
+  positionMint: string;
+  bundleMint?: string; // set for positions held through a position bundle
+  bundleIndex?: number;
+  tickLowerIndex: number;
+  tickUpperIndex: number;
+  priceLower: number;
+  priceUpper: number;
+  liquidity: bigint;
+  inRange: boolean;
+  tokenAAmount: number; // withdrawable now, decimal-adjusted
+  tokenBAmount: number;
+  feesA: number; // uncollected, decimal-adjusted
+  feesB: number;
+  rewards: IWalletReward[];
+  valueUsd?: number; // token amounts only
+  feesUsd?: number;
+  rewardsUsd?: number;
+}
+
+export interface IPortfolio {
+  timestamp: Date;
+  owner: string;
+  positions: IWalletPosition[];
+  valueUsd: number; // sum over positions with a USD price, fees and rewards included
+  unpricedPositions: number;
+}
+
+interface IHeldPosition {
+  address: PublicKey;
+  positionMint: PublicKey;
+  bundleMint?: PublicKey;
+  bundleIndex?: number;
+}
+
+export class PortfolioService {
+  private static instance: PortfolioService;
+  private lastSnapshotAt: number = 0;
+
+  private constructor() {}
+
+  public static getInstance(): PortfolioService {
+    if (!PortfolioService.instance) {
+      PortfolioService.instance = new PortfolioService();
+    }
+    return PortfolioService.instance;
+  }
+
+  /**
+   * Find and value every Whirlpool position a wallet holds in the configured pools,
+   * directly or through position bundles. Fees and rewards are what a collect would
+   * pay out now: the amounts owed at the last position update plus growth inside
+   * the range since its checkpoints, with reward growth brought up to date.
+   * @param owner Owner wallet address
+   */
+  public async getPortfolio(owner: string): Promise<IPortfolio> {
+    try {
+      const ownerKey = new PublicKey(owner);
+      const timestamp = new Date();
+
+      const held = await this.findHeldPositions(ownerKey);
+      const positionAccounts = await fetchMultipleAccounts(held.map(position => position.address));
+
+      const decoded: { held: IHeldPosition; position: PositionData; poolConfig: IPoolConfig; poolId: string }[] = [];
+      for (const entry of held) {
+        const account = positionAccounts.get(entry.address.toBase58());
+        if (!account) continue;
+
+        const position = orcaService.decodePosition(account);
+        const poolConfig = getPoolConfigByAddress(position.whirlpool.toBase58());
+        if (!poolConfig) {
+          logger.debug(`Skipping position ${entry.address.toBase58()} in unconfigured pool ${position.whirlpool.toBase58()}`);
+          continue;
+        }
+        const poolId = Object.keys(POOLS).find(key => POOLS[key] === poolConfig)!;
+        decoded.push({ held: entry, position, poolConfig, poolId });
+      }
+
+      // Whirlpools and the tick arrays holding each position's bounds in one sweep
+      const tickArrayKey = (position: PositionData, tickIndex: number, tickSpacing: number) =>
+        PDAUtil.getTickArrayFromTickIndex(tickIndex, tickSpacing, position.whirlpool, WHIRLPOOL_PROGRAM_ID).publicKey;
+      const accounts = await fetchMultipleAccounts(decoded.flatMap(({ position, poolConfig }) => [
+        position.whirlpool,
+        tickArrayKey(position, position.tickLowerIndex, poolConfig.tickSpacing),
+        tickArrayKey(position, position.tickUpperIndex, poolConfig.tickSpacing)
+      ]));
+
+      const whirlpools = new Map<string, WhirlpoolData>();
+      for (const { position } of decoded) {
+        const account = accounts.get(position.whirlpool.toBase58());
+        if (account && !whirlpools.has(position.whirlpool.toBase58())) {
+          whirlpools.set(position.whirlpool.toBase58(), orcaService.decodeWhirlpool(account));
+        }
+      }
+
+      const prices = await this.getTokenPrices();
+      const rewardDecimals = await this.getRewardDecimals([...whirlpools.values()]);
+
+      const positions: IWalletPosition[] = [];
+      for (const { held: entry, position, poolConfig, poolId } of decoded) {
+        try {
+          const whirlpool = whirlpools.get(position.whirlpool.toBase58());
+          const lowerArray = accounts.get(tickArrayKey(position, position.tickLowerIndex, poolConfig.tickSpacing).toBase58());
+          const upperArray = accounts.get(tickArrayKey(position, position.tickUpperIndex, poolConfig.tickSpacing).toBase58());
+          if (!whirlpool || !lowerArray || !upperArray) {
+            throw new Error('Whirlpool or tick arrays not found');
+          }
+
+          const tickLower = this.getTick(orcaService.decodeTickArray(lowerArray), position.tickLowerIndex, poolConfig.tickSpacing);
+          const tickUpper = this.getTick(orcaService.decodeTickArray(upperArray), position.tickUpperIndex, poolConfig.tickSpacing);
+          positions.push(this.valuePosition(
+            owner, poolId, poolConfig, entry, position, whirlpool, tickLower, tickUpper, prices, rewardDecimals, timestamp
+          ));
+        } catch (error) {
+          logger.warn(`Failed to value position ${entry.address.toBase58()}: ${error}`);
+        }
+      }
+
+      const priced = positions.filter(position => position.valueUsd !== undefined);
+      return {
+        timestamp,
+        owner,
+        positions,
+        valueUsd: priced.reduce((sum, position) =>
+          sum + position.valueUsd! + (position.feesUsd || 0) + (position.rewardsUsd || 0), 0),
+        unpricedPositions: positions.length - priced.length
+      };
+    } catch (error: any) {
+      logger.error(`Error loading portfolio for ${owner}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Value and persist the portfolio of every PORTFOLIO_CONFIG wallet
+   */
+  public async snapshotAll(): Promise<void> {
+    for (const owner of PORTFOLIO_CONFIG.WALLETS) {
+      try {
+        const portfolio = await this.getPortfolio(owner);
+        await positionStore.saveWalletPositions(portfolio.positions);
+        logger.info(`Portfolio ${owner}: ${portfolio.positions.length} positions, $${portfolio.valueUsd.toFixed(2)}`);
+      } catch (error: any) {
+        logger.error(`Error snapshotting portfolio for ${owner}: ${error.message}`);
+      }
+    }
+    this.lastSnapshotAt = Date.now();
+  }
+
+  /**
+   * Snapshot every wallet if PORTFOLIO_CONFIG.SNAPSHOT_INTERVAL has elapsed since the last run
+   */
+  public async snapshotIfDue(): Promise<void> {
+    if (PORTFOLIO_CONFIG.WALLETS.length && Date.now() - this.lastSnapshotAt >= PORTFOLIO_CONFIG.SNAPSHOT_INTERVAL) {
+      await this.snapshotAll();
+    }
+  }
+
+  /**
+   * Position and bundled position addresses for every single-token account the wallet holds
+   */
+  private async findHeldPositions(owner: PublicKey): Promise<IHeldPosition[]> {
+    const tokenAccounts = (await Promise.all([TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+      getConnection().getTokenAccountsByOwner(owner, { programId })
+    ))).flatMap(response => response.value);
+
+    // Position NFTs and bundle NFTs are both held as a balance of one
+    const mints = tokenAccounts
+      .filter(({ account }) => decodeTokenAccountAmount(account.data) === 1n)
+      .map(({ account }) => decodeTokenAccountMint(account.data));
+
+    const candidates = mints.map(mint => ({
+      mint,
+      position: PDAUtil.getPosition(WHIRLPOOL_PROGRAM_ID, mint).publicKey,
+      bundle: PDAUtil.getPositionBundle(WHIRLPOOL_PROGRAM_ID, mint).publicKey
+    }));
+    const accounts = await fetchMultipleAccounts(candidates.flatMap(({ position, bundle }) => [position, bundle]));
+
+    const held: IHeldPosition[] = [];
+    for (const { mint, position, bundle } of candidates) {
+      if (this.isOwnedByWhirlpool(accounts.get(position.toBase58()))) {
+        held.push({ address: position, positionMint: mint });
+      }
+
+      const bundleAccount = accounts.get(bundle.toBase58());
+      if (!bundleAccount || !this.isOwnedByWhirlpool(bundleAccount)) continue;
+
+      const positionBundle = orcaService.decodePositionBundle(bundleAccount);
+      for (const bundleIndex of PositionBundleUtil.getOccupiedBundleIndexes(positionBundle)) {
+        const bundled = PDAUtil.getBundledPosition(WHIRLPOOL_PROGRAM_ID, mint, bundleIndex);
+        held.push({ address: bundled.publicKey, positionMint: mint, bundleMint: mint, bundleIndex });
+      }
+    }
+
+    logger.debug(`Found ${held.length} Whirlpool positions among ${mints.length} NFTs of ${owner.toBase58()}`);
+    return held;
+  }
+
+  private valuePosition(
+    owner: string,
+    poolId: string,
+    poolConfig: IPoolConfig,
+    held: IHeldPosition,
+    position: PositionData,
+    whirlpool: WhirlpoolData,
+    tickLower: TickData,
+    tickUpper: TickData,
+    prices: Map<string, ITokenPrice>,
+    rewardDecimals: Map<string, number>,
+    timestamp: Date
+  ): IWalletPosition {
+    const range: ITickRange = { tickLower: position.tickLowerIndex, tickUpper: position.tickUpperIndex };
+    const liquidity = toBigInt(position.liquidity);
+    const sqrtPrice = toBigInt(whirlpool.sqrtPrice);
+    const tickCurrent = whirlpool.tickCurrentIndex;
+    const { decimals: decimalsA } = poolConfig.tokenA;
+    const { decimals: decimalsB } = poolConfig.tokenB;
+
+    // Owed at the last update plus liquidity × growth inside since the checkpoint
+    const accrue = (owed: bigint, global: bigint, lowerOutside: bigint, upperOutside: bigint, checkpoint: bigint) => {
+      const inside = getGrowthInside(tickCurrent, range, global, lowerOutside, upperOutside);
+      const delta = (inside - checkpoint + U128) % U128;
+      const total = owed + (liquidity * delta >> 64n);
+      return total > U64_MAX ? U64_MAX : total;
+    };
+
+    const amounts = getDepositAmounts(sqrtPrice, range, liquidity, false);
+    const feesA = accrue(
+      toBigInt(position.feeOwedA),
+      toBigInt(whirlpool.feeGrowthGlobalA),
+      toBigInt(tickLower.feeGrowthOutsideA),
+      toBigInt(tickUpper.feeGrowthOutsideA),
+      toBigInt(position.feeGrowthCheckpointA)
+    );
+    const feesB = accrue(
+      toBigInt(position.feeOwedB),
+      toBigInt(whirlpool.feeGrowthGlobalB),
+      toBigInt(tickLower.feeGrowthOutsideB),
+      toBigInt(tickUpper.feeGrowthOutsideB),
+      toBigInt(position.feeGrowthCheckpointB)
+    );
+
+    const rewardGrowths = this.getRewardGrowthGlobals(whirlpool, timestamp);
+    const rewards: IWalletReward[] = [];
+    whirlpool.rewardInfos.forEach((rewardInfo, i) => {
+      if (rewardInfo.mint.equals(PublicKey.default)) return;
+
+      const mint = rewardInfo.mint.toBase58();
+      const owed = accrue(
+        toBigInt(position.rewardInfos[i].amountOwed),
+        rewardGrowths[i],
+        toBigInt(tickLower.rewardGrowthsOutside[i]),
+        toBigInt(tickUpper.rewardGrowthsOutside[i]),
+        toBigInt(position.rewardInfos[i].growthInsideCheckpoint)
+      );
+      const amount = toDecimalAmount(owed, rewardDecimals.get(mint) ?? 0);
+      const price = prices.get(mint);
+      rewards.push({
+        mint,
+        symbol: getTokenConfigByMint(mint)?.symbol || mint,
+        amount,
+        valueUsd: price ? amount * price.priceUsd : undefined
+      });
+    });
+
+    const tokenAAmount = toDecimalAmount(amounts.a, decimalsA);
+    const tokenBAmount = toDecimalAmount(amounts.b, decimalsB);
+    const feesAAmount = toDecimalAmount(feesA, decimalsA);
+    const feesBAmount = toDecimalAmount(feesB, decimalsB);
+    const priceA = prices.get(poolConfig.tokenA.address.toBase58());
+    const priceB = prices.get(poolConfig.tokenB.address.toBase58());
+    const priced = priceA && priceB;
+
+    return {
+      timestamp,
+      owner,
+      poolId,
+      poolAddress: poolConfig.address.toBase58(),
+      positionAddress: held.address.toBase58(),
+      positionMint: position.positionMint.toBase58(),
+      bundleMint: held.bundleMint?.toBase58(),
+      bundleIndex: held.bundleIndex,
+      tickLowerIndex: range.tickLower,
+      tickUpperIndex: range.tickUpper,
+      priceLower: sqrtPriceToPrice(tickIndexToSqrtPrice(range.tickLower), decimalsA, decimalsB),
+      priceUpper: sqrtPriceToPrice(tickIndexToSqrtPrice(range.tickUpper), decimalsA, decimalsB),
+      liquidity,
+      inRange: tickCurrent >= range.tickLower && tickCurrent < range.tickUpper,
+      tokenAAmount,
+      tokenBAmount,
+      feesA: feesAAmount,
+      feesB: feesBAmount,
+      rewards,
+      valueUsd: priced ? tokenAAmount * priceA.priceUsd + tokenBAmount * priceB.priceUsd : undefined,
+      feesUsd: priced ? feesAAmount * priceA.priceUsd + feesBAmount * priceB.priceUsd : undefined,
+      rewardsUsd: rewards.every(reward => reward.valueUsd !== undefined)
+        ? rewards.reduce((sum, reward) => sum + reward.valueUsd!, 0)
+        : undefined
+    };
+  }
+
+  /**
+   * Reward growth brought forward to now, as the program does before any position update
+   */
+  private getRewardGrowthGlobals(whirlpool: WhirlpoolData, timestamp: Date): bigint[] {
+    const liquidity = toBigInt(whirlpool.liquidity);
+    const elapsed = BigInt(Math.max(0, Math.floor(timestamp.getTime() / 1000) - whirlpool.rewardLastUpdatedTimestamp.toNumber()));
+
+    return whirlpool.rewardInfos.map(rewardInfo => {
+      const growth = toBigInt(rewardInfo.growthGlobalX64);
+      if (liquidity === 0n || rewardInfo.mint.equals(PublicKey.default)) {
+        return growth;
+      }
+      return (growth + toBigInt(rewardInfo.emissionsPerSecondX64) * elapsed / liquidity) % U128;
+    });
+  }
+
+  /**
+   * USD prices for every configured token from a fresh sweep of all pools
+   */
+  private async getTokenPrices(): Promise<Map<string, ITokenPrice>> {
+    const snapshots = await sourceService.fetchPoolSnapshots(sourceService.getPoolIds(), false);
+    return pricingService.computePrices(snapshots.map(snapshot => snapshot.poolData));
+  }
+
+  /**
+   * Decimals of every reward mint, from the token config or the mint account
+   */
+  private async getRewardDecimals(whirlpools: WhirlpoolData[]): Promise<Map<string, number>> {
+    const decimals = new Map<string, number>();
+    const unknown: PublicKey[] = [];
+    for (const rewardInfo of whirlpools.flatMap(whirlpool => whirlpool.rewardInfos)) {
+      if (rewardInfo.mint.equals(PublicKey.default)) continue;
+      const token = getTokenConfigByMint(rewardInfo.mint.toBase58());
+      if (token) {
+        decimals.set(rewardInfo.mint.toBase58(), token.decimals);
+      } else {
+        unknown.push(rewardInfo.mint);
+      }
+    }
+
+    const mintAccounts = await fetchMultipleAccounts(unknown);
+    for (const [mint, account] of mintAccounts) {
+      if (account) {
+        decimals.set(mint, decodeMintDecimals(account.data));
+      }
+    }
+    return decimals;
+  }
+
+  private getTick(tickArray: TickArrayData, tickIndex: number, tickSpacing: number): TickData {
+    const startTickIndex = TickUtil.getStartTickIndex(tickIndex, tickSpacing);
+    return tickArray.ticks[(tickIndex - startTickIndex) / tickSpacing];
+  }
+
+  private isOwnedByWhirlpool(account: AccountInfo<Buffer> | null | undefined): boolean {
+    return !!account && account.owner.equals(WHIRLPOOL_PROGRAM_ID);
+  }
+}
+
+// Export singleton instance
+export const portfolioService = PortfolioService.getInstance();
@@ -0,0 +1,267 @@
+import { TABLE_NAMES } from '../config/constants';
+import { IPositionData, PositionEvent } from './positions';
+import { IWalletPosition, IWalletReward } from './portfolio';
+import { dbService } from './database';
+import { logger } from '../utils/logger';
+import { parseBigInt } from '../utils/math';
+
+interface IPositionRow {
+  timestamp: Date;
+  pool_address: string;
+  position_address: string;
+  position_mint: string;
+  tick_lower: number;
+  tick_upper: number;
+  liquidity: string;
+  fee_growth_checkpoint_a: string;
+  fee_growth_checkpoint_b: string;
+  fee_owed_a: string;
+  fee_owed_b: string;
+  reward_growth_checkpoints: string[];
+  reward_amounts_owed: string[];
+  event: PositionEvent;
+}
+
+function mapPositionRow(row: IPositionRow): IPositionData {
+  return {
+    timestamp: row.timestamp,
+    poolAddress: row.pool_address,
+    positionAddress: row.position_address,
+    positionMint: row.position_mint,
+    tickLowerIndex: row.tick_lower,
+    tickUpperIndex: row.tick_upper,
+    liquidity: parseBigInt(row.liquidity),
+    feeGrowthCheckpointA: parseBigInt(row.fee_growth_checkpoint_a),
+    feeGrowthCheckpointB: parseBigInt(row.fee_growth_checkpoint_b),
+    feeOwedA: parseBigInt(row.fee_owed_a),
+    feeOwedB: parseBigInt(row.fee_owed_b),
+    rewardGrowthCheckpoints: row.reward_growth_checkpoints.map(parseBigInt),
+    rewardAmountsOwed: row.reward_amounts_owed.map(parseBigInt),
+    event: row.event,
+  };
+}
+
+interface IWalletPositionRow {
+  timestamp: Date;
+  owner: string;
+  pool_id: string;
+  pool_address: string;
+  position_address: string;
+  position_mint: string;
+  bundle_mint: string | null;
+  bundle_index: number | null;
+  tick_lower: number;
+  tick_upper: number;
+  price_lower: string;
+  price_upper: string;
+  liquidity: string;
+  in_range: boolean;
+  token_a_amount: string;
+  token_b_amount: string;
+  fees_a: string;
+  fees_b: string;
+  rewards: IWalletReward[];
+  value_usd: string | null;
+  fees_usd: string | null;
+  rewards_usd: string | null;
+}
+
+function mapWalletPositionRow(row: IWalletPositionRow): IWalletPosition {
+  return {
+    timestamp: row.timestamp,
+    owner: row.owner,
+    poolId: row.pool_id,
+    poolAddress: row.pool_address,
+    positionAddress: row.position_address,
+    positionMint: row.position_mint,
+    bundleMint: row.bundle_mint ?? undefined,
+    bundleIndex: row.bundle_index ?? undefined,
+    tickLowerIndex: row.tick_lower,
+    tickUpperIndex: row.tick_upper,
+    priceLower: parseFloat(row.price_lower),
+    priceUpper: parseFloat(row.price_upper),
+    liquidity: parseBigInt(row.liquidity),
+    inRange: row.in_range,
+    tokenAAmount: parseFloat(row.token_a_amount),
+    tokenBAmount: parseFloat(row.token_b_amount),
+    feesA: parseFloat(row.fees_a),
+    feesB: parseFloat(row.fees_b),
+    rewards: row.rewards,
+    valueUsd: row.value_usd !== null ? parseFloat(row.value_usd) : undefined,
+    feesUsd: row.fees_usd !== null ? parseFloat(row.fees_usd) : undefined,
+    rewardsUsd: row.rewards_usd !== null ? parseFloat(row.rewards_usd) : undefined,
+  };
+}
+
+/**
+ * Reads and writes of position events and tracked wallet positions
+ */
+export class PositionStore {
+  private static instance: PositionStore;
+
+  private constructor() {}
+
+  public static getInstance(): PositionStore {
+    if (!PositionStore.instance) {
+      PositionStore.instance = new PositionStore();
+    }
+    return PositionStore.instance;
+  }
+
+  public async savePositions(positions: IPositionData[]): Promise<void> {
+    if (!positions.length) return;
+
+    try {
+      const values = positions.map(position => ({
+        timestamp: position.timestamp,
+        pool_address: position.poolAddress,
+        position_address: position.positionAddress,
+        position_mint: position.positionMint,
+        tick_lower: position.tickLowerIndex,
+        tick_upper: position.tickUpperIndex,
+        liquidity: position.liquidity,
+        fee_growth_checkpoint_a: position.feeGrowthCheckpointA,
+        fee_growth_checkpoint_b: position.feeGrowthCheckpointB,
+        fee_owed_a: position.feeOwedA,
+        fee_owed_b: position.feeOwedB,
+        reward_growth_checkpoints: position.rewardGrowthCheckpoints,
+        reward_amounts_owed: position.rewardAmountsOwed,
+        event: position.event,
+      }));
+
+      const cs = new dbService.pgp.helpers.ColumnSet([
+        'timestamp',
+        'pool_address',
+        'position_address',
+        'position_mint',
+        'tick_lower',
+        'tick_upper',
+        'liquidity',
+        'fee_growth_checkpoint_a',
+        'fee_growth_checkpoint_b',
+        'fee_owed_a',
+        'fee_owed_b',
+        { name: 'reward_growth_checkpoints', cast: 'numeric[]' },
+        { name: 'reward_amounts_owed', cast: 'numeric[]' },
+        'event'
+      ], { table: TABLE_NAMES.POSITIONS });
+
+      const query = dbService.pgp.helpers.insert(values, cs) +
+        ' ON CONFLICT (timestamp, position_address) DO NOTHING';
+
+      await dbService.measureWrite('positions', () => dbService.db.none(query));
+    } catch (error: any) {
+      logger.error(`Error saving positions: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the latest recorded state of every position of a pool that has not been closed
+   */
+  public async getOpenPositions(poolAddress: string): Promise<IPositionData[]> {
+    try {
+      const rows = await dbService.db.any<IPositionRow>(`
+        SELECT * FROM (
+          SELECT DISTINCT ON (position_address) *
+          FROM ${TABLE_NAMES.POSITIONS}
+          WHERE pool_address = $1
+          ORDER BY position_address, timestamp DESC
+        ) latest
+        WHERE event <> 'closed';
+      `, [poolAddress]);
+
+      return rows.map(mapPositionRow);
+    } catch (error: any) {
+      logger.error(`Error getting open positions: ${error.message}`);
+      throw error;
+    }
+  }
+
+  public async saveWalletPositions(positions: IWalletPosition[]): Promise<void> {
+    if (!positions.length) return;
+
+    try {
+      const values = positions.map(position => ({
+        timestamp: position.timestamp,
+        owner: position.owner,
+        pool_id: position.poolId,
+        pool_address: position.poolAddress,
+        position_address: position.positionAddress,
+        position_mint: position.positionMint,
+        bundle_mint: position.bundleMint ?? null,
+        bundle_index: position.bundleIndex ?? null,
+        tick_lower: position.tickLowerIndex,
+        tick_upper: position.tickUpperIndex,
+        price_lower: position.priceLower,
+        price_upper: position.priceUpper,
+        liquidity: position.liquidity,
+        in_range: position.inRange,
+        token_a_amount: position.tokenAAmount,
+        token_b_amount: position.tokenBAmount,
+        fees_a: position.feesA,
+        fees_b: position.feesB,
+        rewards: JSON.stringify(position.rewards),
+        value_usd: position.valueUsd ?? null,
+        fees_usd: position.feesUsd ?? null,
+        rewards_usd: position.rewardsUsd ?? null,
+      }));
+
+      const cs = new dbService.pgp.helpers.ColumnSet([
+        'timestamp',
+        'owner',
+        'pool_id',
+        'pool_address',
+        'position_address',
+        'position_mint',
+        'bundle_mint',
+        'bundle_index',
+        'tick_lower',
+        'tick_upper',
+        'price_lower',
+        'price_upper',
+        'liquidity',
+        'in_range',
+        'token_a_amount',
+        'token_b_amount',
+        'fees_a',
+        'fees_b',
+        { name: 'rewards', cast: 'jsonb' },
+        'value_usd',
+        'fees_usd',
+        'rewards_usd'
+      ], { table: TABLE_NAMES.WALLET_POSITIONS });
+
+      const query = dbService.pgp.helpers.insert(values, cs) +
+        ' ON CONFLICT (timestamp, position_address) DO NOTHING';
+
+      await dbService.measureWrite('wallet_positions', () => dbService.db.none(query));
+    } catch (error: any) {
+      logger.error(`Error saving wallet positions: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a wallet's position snapshots in a time range, oldest first
+   */
+  public async getWalletPositionHistory(owner: string, startTime: Date, endTime: Date): Promise<IWalletPosition[]> {
+    try {
+      const rows = await dbService.db.any<IWalletPositionRow>(`
+        SELECT *
+        FROM ${TABLE_NAMES.WALLET_POSITIONS}
+        WHERE owner = $1
+          AND timestamp BETWEEN $2 AND $3
+        ORDER BY timestamp ASC, position_address ASC;
+      `, [owner, startTime, endTime]);
+
+      return rows.map(mapWalletPositionRow);
+    } catch (error: any) {
+      logger.error(`Error getting wallet positions: ${error.message}`);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const positionStore = PositionStore.getInstance();
@@ -0,0 +1,181 @@
+import { PublicKey } from '@solana/web3.js';
+import { OrcaService, WHIRLPOOL_PROGRAM_ID } from './orca';
+import { sourceService } from './source';
+import { positionStore } from './position-store';
+import { POOLS } from '../config/pools';
+import { POSITION_CONFIG } from '../config/constants';
+import { getConnection } from '../utils/rpc';
+import { toBigInt } from '../utils/math';
+import { logger } from '../utils/logger';
+
+// Whirlpool Position account: discriminator (8) + whirlpool (32) + position_mint (32)
+// + liquidity (16) + tick range (8) + fee checkpoints/owed (48) + 3 reward infos (72)
+const POSITION_ACCOUNT_SIZE = 216;
+const POSITION_WHIRLPOOL_OFFSET = 8;
+
+export type PositionEvent = 'opened' | 'changed' | 'closed';
+
+export interface IPositionData {
+  timestamp: Date;
+  poolAddress: string;
+  positionAddress: string;
+  positionMint: string;
+  tickLowerIndex: number;
+  tickUpperIndex: number;
+  liquidity: bigint;
+  feeGrowthCheckpointA: bigint; // Q64.64
+  feeGrowthCheckpointB: bigint; // Q64.64
+  feeOwedA: bigint;
+  feeOwedB: bigint;
+  rewardGrowthCheckpoints: bigint[]; // Q64.64, one per reward slot
+  rewardAmountsOwed: bigint[];
+  event: PositionEvent;
+}
+
+class PositionService {
+  private static instance: PositionService;
+  private orcaService: OrcaService;
+  private knownPositions = new Map<string, Map<string, IPositionData>>();
+  private lastIndexedAt: number = 0;
+
+  private constructor() {
+    this.orcaService = OrcaService.getInstance();
+  }
+
+  public static getInstance(): PositionService {
+    if (!PositionService.instance) {
+      PositionService.instance = new PositionService();
+    }
+    return PositionService.instance;
+  }
+
+  /**
+   * Fetch and decode every position of a pool
+   * @param poolAddress Whirlpool address
+   * @returns Current positions, event set to 'opened'
+   */
+  public async fetchPositions(poolAddress: string): Promise<IPositionData[]> {
+    const timestamp = new Date();
+    const accounts = await getConnection().getProgramAccounts(WHIRLPOOL_PROGRAM_ID, {
+      filters: [
+        { dataSize: POSITION_ACCOUNT_SIZE },
+        { memcmp: { offset: POSITION_WHIRLPOOL_OFFSET, bytes: new PublicKey(poolAddress).toBase58() } }
+      ]
+    });
+
+    const positions: IPositionData[] = [];
+    for (const { pubkey, account } of accounts) {
+      try {
+        const position = this.orcaService.decodePosition(account);
+        positions.push({
+          timestamp,
+          poolAddress,
+          positionAddress: pubkey.toBase58(),
+          positionMint: position.positionMint.toBase58(),
+          tickLowerIndex: position.tickLowerIndex,
+          tickUpperIndex: position.tickUpperIndex,
+          liquidity: toBigInt(position.liquidity),
+          feeGrowthCheckpointA: toBigInt(position.feeGrowthCheckpointA),
+          feeGrowthCheckpointB: toBigInt(position.feeGrowthCheckpointB),
+          feeOwedA: toBigInt(position.feeOwedA),
+          feeOwedB: toBigInt(position.feeOwedB),
+          rewardGrowthCheckpoints: position.rewardInfos.map(reward => toBigInt(reward.growthInsideCheckpoint)),
+          rewardAmountsOwed: position.rewardInfos.map(reward => toBigInt(reward.amountOwed)),
+          event: 'opened'
+        });
+      } catch (error) {
+        logger.warn(`Failed to decode position ${pubkey.toBase58()}: ${error}`);
+      }
+    }
+
+    return positions;
+  }
+
+  /**
+   * Index a pool's positions and persist what opened, changed or closed since the last run
+   * @param poolId The pool identifier
+   * @returns Position events recorded in this run
+   */
+  public async indexPool(poolId: string): Promise<IPositionData[]> {
+    const poolConfig = POOLS[poolId];
+    if (!poolConfig) {
+      throw new Error(`Pool configuration not found for ${poolId}`);
+    }
+
+    const poolAddress = poolConfig.address.toBase58();
+    let known = this.knownPositions.get(poolAddress);
+    if (!known) {
+      // Resume from the last persisted state after a restart
+      const open = await positionStore.getOpenPositions(poolAddress);
+      known = new Map(open.map(position => [position.positionAddress, position]));
+    }
+
+    const current = await this.fetchPositions(poolAddress);
+    const timestamp = current.length ? current[0].timestamp : new Date();
+    const events: IPositionData[] = [];
+    const next = new Map<string, IPositionData>();
+
+    for (const position of current) {
+      next.set(position.positionAddress, position);
+      const previous = known.get(position.positionAddress);
+      if (!previous) {
+        events.push(position);
+      } else if (this.hasChanged(previous, position)) {
+        events.push({ ...position, event: 'changed' });
+      }
+    }
+
+    for (const [positionAddress, previous] of known) {
+      if (!next.has(positionAddress)) {
+        events.push({ ...previous, timestamp, event: 'closed' });
+      }
+    }
+
+    await positionStore.savePositions(events);
+    this.knownPositions.set(poolAddress, next);
+
+    const counts = events.reduce((acc, e) => ({ ...acc, [e.event]: (acc[e.event] || 0) + 1 }), {} as Record<string, number>);
+    logger.info(`Indexed ${current.length} positions for ${poolId}: ` +
+      `${counts.opened || 0} opened, ${counts.changed || 0} changed, ${counts.closed || 0} closed`);
+
+    return events;
+  }
+
+  /**
+   * Index every collected Whirlpool, positions are decoded with the Whirlpool layout
+   */
+  public async indexAll(): Promise<void> {
+    for (const poolId of sourceService.getPoolIds(this.orcaService.venue)) {
+      try {
+        await this.indexPool(poolId);
+      } catch (error: any) {
+        logger.error(`Error indexing positions for ${poolId}: ${error.message}`);
+      }
+    }
+    this.lastIndexedAt = Date.now();
+  }
+
+  /**
+   * Index every pool if POSITION_CONFIG.INDEX_INTERVAL has elapsed since the last run
+   */
+  public async indexIfDue(): Promise<void> {
+    if (Date.now() - this.lastIndexedAt >= POSITION_CONFIG.INDEX_INTERVAL) {
+      await this.indexAll();
+    }
+  }
+
+  private hasChanged(previous: IPositionData, current: IPositionData): boolean {
+    return previous.liquidity !== current.liquidity
+      || previous.tickLowerIndex !== current.tickLowerIndex
+      || previous.tickUpperIndex !== current.tickUpperIndex
+      || previous.feeGrowthCheckpointA !== current.feeGrowthCheckpointA
+      || previous.feeGrowthCheckpointB !== current.feeGrowthCheckpointB
+      || previous.feeOwedA !== current.feeOwedA
+      || previous.feeOwedB !== current.feeOwedB
+      || previous.rewardGrowthCheckpoints.some((value, i) => value !== current.rewardGrowthCheckpoints[i])
+      || previous.rewardAmountsOwed.some((value, i) => value !== current.rewardAmountsOwed[i]);
+  }
+}
+
+// Export singleton instance
+export const positionService = PositionService.getInstance();
@@ -0,0 +1,56 @@
+import { TABLE_NAMES } from '../config/constants';
+import { ITokenPrice } from './pricing';
+import { dbService } from './database';
+import { logger } from '../utils/logger';
+
+/**
+ * Writes of derived token prices
+ */
+export class PriceStore {
+  private static instance: PriceStore;
+
+  private constructor() {}
+
+  public static getInstance(): PriceStore {
+    if (!PriceStore.instance) {
+      PriceStore.instance = new PriceStore();
+    }
+    return PriceStore.instance;
+  }
+
+  public async saveTokenPrices(prices: ITokenPrice[]): Promise<void> {
+    if (!prices.length) return;
+
+    try {
+      const values = prices.map(price => ({
+        timestamp: price.timestamp,
+        token_mint: price.mint,
+        symbol: price.symbol,
+        price_usd: price.priceUsd,
+        // The quote token has no limiting hop
+        depth_usd: Number.isFinite(price.depthUsd) ? price.depthUsd : null,
+        route: price.route,
+      }));
+
+      const cs = new dbService.pgp.helpers.ColumnSet([
+        'timestamp',
+        'token_mint',
+        'symbol',
+        'price_usd',
+        'depth_usd',
+        { name: 'route', mod: ':json' }
+      ], { table: TABLE_NAMES.TOKEN_PRICES });
+
+      const query = dbService.pgp.helpers.insert(values, cs) +
+        ' ON CONFLICT (timestamp, token_mint) DO NOTHING';
+
+      await dbService.measureWrite('token_prices', () => dbService.db.none(query));
+    } catch (error: any) {
+      logger.error(`Error saving token prices: ${error.message}`);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const priceStore = PriceStore.getInstance();
@@ -0,0 +1,190 @@
+import { IPoolData } from './source';
+import { TOKENS, IPoolConfig, getPoolConfigByAddress, getTokenConfigByMint } from '../config/pools';
+import { PRICE_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+export interface IPriceRouteHop {
+  poolAddress: string;
+  snapshotTimestamp: Date;
+  fromMint: string;
+  toMint: string;
+  rate: number; // units of toMint per unit of fromMint
+}
+
+export interface ITokenPrice {
+  timestamp: Date;
+  mint: string;
+  symbol: string;
+  priceUsd: number;
+  depthUsd: number; // shallowest hop along the route, in USD
+  route: IPriceRouteHop[];
+}
+
+interface IPriceEdge {
+  snapshot: IPoolData;
+  fromMint: string;
+  toMint: string;
+  rate: number;
+  fromReserve: number; // active-range reserve of the priced side
+}
+
+export class PricingService {
+  private static instance: PricingService;
+  private readonly quoteMint: string;
+
+  private constructor() {
+    this.quoteMint = TOKENS[PRICE_CONFIG.USD_QUOTE_TOKEN].address.toString();
+  }
+
+  public static getInstance(): PricingService {
+    if (!PricingService.instance) {
+      PricingService.instance = new PricingService();
+    }
+    return PricingService.instance;
+  }
+
+  /**
+   * Price every configured token in USD through the deepest route to the quote token.
+   * Routes are found with a widest-path search where the width of a hop is the
+   * USD value of the active-range reserve on the already priced side.
+   * @param snapshots Latest pool snapshots
+   * @param resolvePool Pool config lookup, the registry by default
+   * @returns Token prices keyed by mint address
+   */
+  public computePrices(
+    snapshots: IPoolData[],
+    resolvePool: (poolAddress: string) => IPoolConfig | undefined = getPoolConfigByAddress
+  ): Map<string, ITokenPrice> {
+    const timestamp = new Date();
+    const edges = this.buildEdges(snapshots, resolvePool);
+    const prices = new Map<string, ITokenPrice>();
+    const visited = new Set<string>();
+
+    prices.set(this.quoteMint, {
+      timestamp,
+      mint: this.quoteMint,
+      symbol: TOKENS[PRICE_CONFIG.USD_QUOTE_TOKEN].symbol,
+      priceUsd: 1,
+      depthUsd: Infinity,
+      route: []
+    });
+
+    while (true) {
+      // Expand the priced token with the deepest route first
+      let current: ITokenPrice | undefined;
+      for (const price of prices.values()) {
+        if (!visited.has(price.mint) && (!current || price.depthUsd > current.depthUsd)) {
+          current = price;
+        }
+      }
+      if (!current) break;
+      visited.add(current.mint);
+
+      for (const edge of edges.get(current.mint) || []) {
+        if (visited.has(edge.toMint)) continue;
+
+        const hopDepthUsd = edge.fromReserve * current.priceUsd;
+        const depthUsd = Math.min(current.depthUsd, hopDepthUsd);
+        const existing = prices.get(edge.toMint);
+        if (existing && existing.depthUsd >= depthUsd) continue;
+
+        const token = getTokenConfigByMint(edge.toMint);
+        prices.set(edge.toMint, {
+          timestamp,
+          mint: edge.toMint,
+          symbol: token ? token.symbol : edge.toMint,
+          priceUsd: current.priceUsd / edge.rate,
+          depthUsd,
+          route: [
+            ...current.route,
+            {
+              poolAddress: edge.snapshot.poolAddress,
+              snapshotTimestamp: edge.snapshot.timestamp,
+              fromMint: edge.fromMint,
+              toMint: edge.toMint,
+              rate: edge.rate
+            }
+          ]
+        });
+      }
+    }
+
+    for (const token of Object.values(TOKENS)) {
+      if (!prices.has(token.address.toString())) {
+        logger.warn(`No USD route found for ${token.symbol}`);
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Fill the USD metrics of a pool snapshot from computed token prices
+   * @param poolData Pool snapshot
+   * @param prices Token prices keyed by mint address
+   * @returns Snapshot with USD fields populated where a price is known
+   */
+  public applyUsdValuation(poolData: IPoolData, prices: Map<string, ITokenPrice>): IPoolData {
+    const poolConfig = getPoolConfigByAddress(poolData.poolAddress);
+    if (!poolConfig) {
+      return poolData;
+    }
+
+    const priceA = prices.get(poolConfig.tokenA.address.toString());
+    const priceB = prices.get(poolConfig.tokenB.address.toString());
+    if (!priceA || !priceB) {
+      return poolData;
+    }
+
+    return {
+      ...poolData,
+      tokenAPriceUsd: priceA.priceUsd,
+      tokenBPriceUsd: priceB.priceUsd,
+      liquidityUsd: poolData.tokenAAmount * priceA.priceUsd + poolData.tokenBAmount * priceB.priceUsd
+    };
+  }
+
+  /**
+   * Build directed price edges from pool snapshots, one per direction
+   */
+  private buildEdges(
+    snapshots: IPoolData[],
+    resolvePool: (poolAddress: string) => IPoolConfig | undefined
+  ): Map<string, IPriceEdge[]> {
+    const edges = new Map<string, IPriceEdge[]>();
+    const addEdge = (edge: IPriceEdge) => {
+      const list = edges.get(edge.fromMint) || [];
+      list.push(edge);
+      edges.set(edge.fromMint, list);
+    };
+
+    for (const snapshot of snapshots) {
+      const poolConfig = resolvePool(snapshot.poolAddress);
+      if (!poolConfig || !(snapshot.price > 0)) continue;
+
+      const mintA = poolConfig.tokenA.address.toString();
+      const mintB = poolConfig.tokenB.address.toString();
+
+      // price is token B per token A
+      addEdge({
+        snapshot,
+        fromMint: mintA,
+        toMint: mintB,
+        rate: snapshot.price,
+        fromReserve: snapshot.virtualTokenAAmount
+      });
+      addEdge({
+        snapshot,
+        fromMint: mintB,
+        toMint: mintA,
+        rate: 1 / snapshot.price,
+        fromReserve: snapshot.virtualTokenBAmount
+      });
+    }
+
+    return edges;
+  }
+}
+
+// Export singleton instance
+export const pricingService = PricingService.getInstance();
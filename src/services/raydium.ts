@@ -0,0 +1,279 @@
+import { sqrtPriceToPrice } from '@orca-so/whirlpools-core';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { fetchMultipleAccounts } from '../utils/rpc';
+import { POOLS, IPoolConfig, Venue } from '../config/pools';
+import { IPoolData, ITickData, IPoolSnapshot, IPoolSource, IPoolAccountInfo } from './source';
+import { logger } from '../utils/logger';
+import { getVirtualReserves, readI128LE, readU128LE, toDecimalAmount } from '../utils/math';
+import { decodeTokenAccountAmount } from '../utils/token';
+import { MIN_TICK_INDEX, MAX_TICK_INDEX } from '../analytics/swap';
+
+// Constants
+export const RAYDIUM_CLMM_PROGRAM_ID = new PublicKey('CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK');
+const TICK_ARRAYS_PER_SIDE = 10; // Tick arrays fetched on each side of the current one
+const TICK_ARRAY_SIZE = 60;
+const FEE_RATE_DENOMINATOR = 1_000_000; // AmmConfig rates are in hundredths of a basis point
+
+// PoolState layout (after the 8-byte discriminator)
+const POOL_STATE_SIZE = 1544;
+const POOL_AMM_CONFIG_OFFSET = 9;
+const POOL_MINT_A_OFFSET = 73;
+const POOL_MINT_B_OFFSET = 105;
+const POOL_VAULT_A_OFFSET = 137;
+const POOL_VAULT_B_OFFSET = 169;
+const POOL_TICK_SPACING_OFFSET = 235;
+const POOL_LIQUIDITY_OFFSET = 237;
+const POOL_SQRT_PRICE_OFFSET = 253;
+const POOL_TICK_CURRENT_OFFSET = 269;
+const POOL_FEE_GROWTH_A_OFFSET = 277;
+const POOL_FEE_GROWTH_B_OFFSET = 293;
+
+// AmmConfig layout
+const AMM_CONFIG_PROTOCOL_FEE_RATE_OFFSET = 43;
+const AMM_CONFIG_TRADE_FEE_RATE_OFFSET = 47;
+const AMM_CONFIG_FUND_FEE_RATE_OFFSET = 53;
+
+// TickArrayState layout: pool (32) + start tick (i32) + 60 ticks of 168 bytes
+const TICK_ARRAY_START_INDEX_OFFSET = 40;
+const TICK_ARRAY_TICKS_OFFSET = 44;
+const TICK_STATE_SIZE = 168;
+
+export interface IRaydiumPoolState {
+  ammConfig: PublicKey;
+  tokenMintA: PublicKey;
+  tokenMintB: PublicKey;
+  tokenVaultA: PublicKey;
+  tokenVaultB: PublicKey;
+  tickSpacing: number;
+  liquidity: bigint;
+  sqrtPrice: bigint; // Q64.64
+  tickCurrent: number;
+  feeGrowthGlobalA: bigint; // Q64.64, net of protocol and fund fees
+  feeGrowthGlobalB: bigint;
+}
+
+export interface IRaydiumAmmConfig {
+  tradeFeeRate: number; // hundredths of a basis point
+  protocolFeeRate: number; // share of the trade fee, hundredths of a basis point
+  fundFeeRate: number;
+}
+
+class RaydiumService implements IPoolSource {
+  private static instance: RaydiumService;
+  public readonly venue: Venue = 'raydium';
+  public readonly programId = RAYDIUM_CLMM_PROGRAM_ID;
+
+  private constructor() {}
+
+  public static getInstance(): RaydiumService {
+    if (!RaydiumService.instance) {
+      RaydiumService.instance = new RaydiumService();
+    }
+    return RaydiumService.instance;
+  }
+
+  /**
+   * Fetch pool state and tick arrays for several Raydium CLMM pools.
+   * Pool accounts are fetched first, then every AmmConfig, vault and tick array
+   * in one chunked sweep.
+   * @param poolIds Pool identifiers
+   * @param includeTicks Whether to fetch tick arrays
+   * @returns Snapshots for every pool that could be fetched and decoded
+   */
+  public async fetchPoolSnapshots(poolIds: string[], includeTicks: boolean = true): Promise<IPoolSnapshot[]> {
+    const timestamp = new Date();
+    const poolAccounts = await fetchMultipleAccounts(poolIds.map(poolId => POOLS[poolId].address));
+
+    const decoded: { poolId: string; poolConfig: IPoolConfig; pool: IRaydiumPoolState; tickArrays: PublicKey[] }[] = [];
+    for (const poolId of poolIds) {
+      const poolConfig = POOLS[poolId];
+      const account = poolAccounts.get(poolConfig.address.toBase58());
+      if (!account) {
+        logger.warn(`Pool account not found for ${poolConfig.name} (${poolId})`);
+        continue;
+      }
+
+      try {
+        const pool = this.decodePoolState(account);
+        const tickArrays = includeTicks
+          ? this.getTickArrayAddresses(poolConfig.address, pool.tickCurrent, pool.tickSpacing)
+          : [];
+        decoded.push({ poolId, poolConfig, pool, tickArrays });
+      } catch (error) {
+        logger.warn(`Failed to decode pool ${poolId}: ${error}`);
+      }
+    }
+
+    const dependentAccounts = await fetchMultipleAccounts(decoded.flatMap(({ pool, tickArrays }) => [
+      pool.ammConfig,
+      pool.tokenVaultA,
+      pool.tokenVaultB,
+      ...tickArrays
+    ]));
+
+    const snapshots: IPoolSnapshot[] = [];
+    for (const { poolId, poolConfig, pool, tickArrays } of decoded) {
+      try {
+        const ammConfig = dependentAccounts.get(pool.ammConfig.toBase58());
+        const vaultA = dependentAccounts.get(pool.tokenVaultA.toBase58());
+        const vaultB = dependentAccounts.get(pool.tokenVaultB.toBase58());
+        if (!ammConfig || !vaultA || !vaultB) {
+          throw new Error(`AmmConfig or token vaults not found for ${poolConfig.name}`);
+        }
+
+        const poolData = this.buildPoolData(poolConfig, pool, this.decodeAmmConfig(ammConfig), vaultA, vaultB, timestamp);
+        const ticks: ITickData[] = [];
+        for (const tickArrayAddress of tickArrays) {
+          const tickArrayAccount = dependentAccounts.get(tickArrayAddress.toBase58());
+          if (!tickArrayAccount) continue; // Uninitialized tick array
+          ticks.push(...this.decodeTicks(poolConfig, tickArrayAccount, pool.tickSpacing, timestamp));
+        }
+
+        logger.debug(`Decoded ${poolId}: tick ${pool.tickCurrent}, ${ticks.length} initialized ticks`);
+        snapshots.push({ poolId, poolData, ticks });
+      } catch (error) {
+        logger.warn(`Failed to build snapshot for ${poolId}: ${error}`);
+      }
+    }
+
+    return snapshots;
+  }
+
+  public decodePoolInfo(account: AccountInfo<Buffer>): IPoolAccountInfo {
+    const pool = this.decodePoolState(account);
+    return { tokenMintA: pool.tokenMintA, tokenMintB: pool.tokenMintB, tickSpacing: pool.tickSpacing };
+  }
+
+  /**
+   * Decode a raw PoolState account
+   */
+  public decodePoolState(account: AccountInfo<Buffer>): IRaydiumPoolState {
+    const data = account.data;
+    if (data.length < POOL_STATE_SIZE) {
+      throw new Error(`Invalid Raydium pool account data length: ${data.length}`);
+    }
+
+    return {
+      ammConfig: new PublicKey(data.subarray(POOL_AMM_CONFIG_OFFSET, POOL_AMM_CONFIG_OFFSET + 32)),
+      tokenMintA: new PublicKey(data.subarray(POOL_MINT_A_OFFSET, POOL_MINT_A_OFFSET + 32)),
+      tokenMintB: new PublicKey(data.subarray(POOL_MINT_B_OFFSET, POOL_MINT_B_OFFSET + 32)),
+      tokenVaultA: new PublicKey(data.subarray(POOL_VAULT_A_OFFSET, POOL_VAULT_A_OFFSET + 32)),
+      tokenVaultB: new PublicKey(data.subarray(POOL_VAULT_B_OFFSET, POOL_VAULT_B_OFFSET + 32)),
+      tickSpacing: data.readUInt16LE(POOL_TICK_SPACING_OFFSET),
+      liquidity: readU128LE(data, POOL_LIQUIDITY_OFFSET),
+      sqrtPrice: readU128LE(data, POOL_SQRT_PRICE_OFFSET),
+      tickCurrent: data.readInt32LE(POOL_TICK_CURRENT_OFFSET),
+      feeGrowthGlobalA: readU128LE(data, POOL_FEE_GROWTH_A_OFFSET),
+      feeGrowthGlobalB: readU128LE(data, POOL_FEE_GROWTH_B_OFFSET)
+    };
+  }
+
+  /**
+   * Decode a raw AmmConfig account, which holds the fee tier of a pool
+   */
+  public decodeAmmConfig(account: AccountInfo<Buffer>): IRaydiumAmmConfig {
+    const data = account.data;
+    return {
+      protocolFeeRate: data.readUInt32LE(AMM_CONFIG_PROTOCOL_FEE_RATE_OFFSET),
+      tradeFeeRate: data.readUInt32LE(AMM_CONFIG_TRADE_FEE_RATE_OFFSET),
+      fundFeeRate: data.readUInt32LE(AMM_CONFIG_FUND_FEE_RATE_OFFSET)
+    };
+  }
+
+  /**
+   * Get the tick array addresses covering the current tick and its neighbours on both sides.
+   * Raydium seeds tick arrays with the big-endian start index.
+   */
+  public getTickArrayAddresses(poolAddress: PublicKey, tickCurrent: number, tickSpacing: number): PublicKey[] {
+    const ticksPerArray = tickSpacing * TICK_ARRAY_SIZE;
+    const currentStart = Math.floor(tickCurrent / ticksPerArray) * ticksPerArray;
+    const addresses: PublicKey[] = [];
+
+    for (let offset = -TICK_ARRAYS_PER_SIDE; offset <= TICK_ARRAYS_PER_SIDE; offset++) {
+      const startTickIndex = currentStart + offset * ticksPerArray;
+      if (startTickIndex + ticksPerArray <= MIN_TICK_INDEX || startTickIndex > MAX_TICK_INDEX) {
+        continue; // Beyond the min/max tick bounds
+      }
+
+      const startIndexSeed = Buffer.alloc(4);
+      startIndexSeed.writeInt32BE(startTickIndex);
+      addresses.push(PublicKey.findProgramAddressSync(
+        [Buffer.from('tick_array'), poolAddress.toBuffer(), startIndexSeed],
+        RAYDIUM_CLMM_PROGRAM_ID
+      )[0]);
+    }
+    return addresses;
+  }
+
+  /**
+   * Build a pool snapshot from decoded pool state, its fee tier and vault accounts
+   */
+  public buildPoolData(
+    poolConfig: IPoolConfig,
+    pool: IRaydiumPoolState,
+    ammConfig: IRaydiumAmmConfig,
+    vaultA: AccountInfo<Buffer>,
+    vaultB: AccountInfo<Buffer>,
+    timestamp: Date
+  ): IPoolData {
+    const tokenAAmountRaw = decodeTokenAccountAmount(vaultA.data);
+    const tokenBAmountRaw = decodeTokenAccountAmount(vaultB.data);
+    const virtualReserves = getVirtualReserves(pool.liquidity, pool.sqrtPrice);
+
+    return {
+      timestamp,
+      poolAddress: poolConfig.address.toString(),
+      venue: this.venue,
+      tokenAAmount: toDecimalAmount(tokenAAmountRaw, poolConfig.tokenA.decimals),
+      tokenBAmount: toDecimalAmount(tokenBAmountRaw, poolConfig.tokenB.decimals),
+      tokenAAmountRaw,
+      tokenBAmountRaw,
+      virtualTokenAAmount: toDecimalAmount(virtualReserves.tokenA, poolConfig.tokenA.decimals),
+      virtualTokenBAmount: toDecimalAmount(virtualReserves.tokenB, poolConfig.tokenB.decimals),
+      sqrtPrice: pool.sqrtPrice,
+      liquidity: pool.liquidity,
+      tickCurrent: pool.tickCurrent,
+      feeGrowthGlobalA: pool.feeGrowthGlobalA,
+      feeGrowthGlobalB: pool.feeGrowthGlobalB,
+      feeRate: ammConfig.tradeFeeRate,
+      // Protocol and fund shares both come out of the fee before fee growth accrues
+      protocolFeeRate: Math.round((ammConfig.protocolFeeRate + ammConfig.fundFeeRate) * 10_000 / FEE_RATE_DENOMINATOR),
+      price: sqrtPriceToPrice(pool.sqrtPrice, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals)
+    };
+  }
+
+  /**
+   * Extract the initialized ticks of a raw TickArrayState account
+   */
+  public decodeTicks(
+    poolConfig: IPoolConfig,
+    account: AccountInfo<Buffer>,
+    tickSpacing: number,
+    timestamp: Date
+  ): ITickData[] {
+    const data = account.data;
+    const startTickIndex = data.readInt32LE(TICK_ARRAY_START_INDEX_OFFSET);
+    const ticks: ITickData[] = [];
+
+    for (let i = 0; i < TICK_ARRAY_SIZE; i++) {
+      const offset = TICK_ARRAY_TICKS_OFFSET + i * TICK_STATE_SIZE;
+      const liquidityGross = readU128LE(data, offset + 20);
+      if (liquidityGross === 0n) continue; // Uninitialized tick
+
+      ticks.push({
+        timestamp,
+        poolAddress: poolConfig.address.toString(),
+        tickIndex: startTickIndex + i * tickSpacing,
+        liquidityNet: readI128LE(data, offset + 4),
+        liquidityGross,
+        feeGrowthOutsideA: readU128LE(data, offset + 36),
+        feeGrowthOutsideB: readU128LE(data, offset + 52)
+      });
+    }
+
+    return ticks;
+  }
+}
+
+// Export singleton instance
+export const raydiumService = RaydiumService.getInstance();
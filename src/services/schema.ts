@@ -0,0 +1,183 @@
+import { ITask, IBaseProtocol } from 'pg-promise';
+import {
+  TABLE_NAMES,
+  MIGRATION_CONFIG,
+  STORAGE_POLICIES,
+  TICK_DOWNSAMPLE_CONFIG
+} from '../config/constants';
+import { dbService, IExtensions } from './database';
+import { logger } from '../utils/logger';
+import { loadMigrations, splitStatements } from '../utils/migrations';
+
+/**
+ * Versioned migrations and Timescale storage policies
+ */
+export class SchemaService {
+  private static instance: SchemaService;
+
+  private constructor() {}
+
+  public static getInstance(): SchemaService {
+    if (!SchemaService.instance) {
+      SchemaService.instance = new SchemaService();
+    }
+    return SchemaService.instance;
+  }
+
+  /**
+   * Apply pending migrations from MIGRATION_CONFIG.DIRECTORY in version order, each in
+   * its own transaction unless marked `-- migrate:no-transaction`, then reapply the
+   * storage policies. Holds an advisory lock so concurrent starts don't race.
+   * @returns Versions applied by this run
+   */
+  public async migrate(): Promise<number[]> {
+    try {
+      const migrations = loadMigrations(MIGRATION_CONFIG.DIRECTORY);
+
+      return await dbService.db.task(async (t: ITask<IExtensions>) => {
+        await t.any('SELECT pg_advisory_lock($1);', [MIGRATION_CONFIG.LOCK_KEY]);
+        try {
+          const applied = await this.getAppliedMigrations(t);
+          const pending = migrations.filter(migration => !applied.has(migration.version));
+
+          for (const migration of migrations) {
+            const checksum = applied.get(migration.version);
+            if (checksum && checksum !== migration.checksum) {
+              throw new Error(`Migration ${migration.version}_${migration.name} was changed after it was applied`);
+            }
+          }
+
+          for (const migration of pending) {
+            logger.info(`Applying migration ${migration.version}_${migration.name}`);
+            const record = (task: IBaseProtocol<IExtensions>) => task.none(`
+              INSERT INTO ${TABLE_NAMES.MIGRATIONS} (version, name, checksum)
+              VALUES ($1, $2, $3);
+            `, [migration.version, migration.name, migration.checksum]);
+
+            if (migration.transactional) {
+              await t.tx(async tx => {
+                await tx.multi(migration.sql);
+                await record(tx);
+              });
+            } else {
+              for (const statement of splitStatements(migration.sql)) {
+                await t.any(statement);
+              }
+              await record(t);
+            }
+          }
+
+          await this.applyStoragePolicies(t);
+
+          logger.info(pending.length
+            ? `Applied ${pending.length} migrations, schema at version ${migrations[migrations.length - 1].version}`
+            : 'Database schema is up to date');
+          return pending.map(migration => migration.version);
+        } finally {
+          await t.any('SELECT pg_advisory_unlock($1);', [MIGRATION_CONFIG.LOCK_KEY]);
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Error migrating database: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Migration files with the time each was applied, null when pending
+   */
+  public async getMigrationStatus(): Promise<Array<{ version: number; name: string; appliedAt: Date | null }>> {
+    try {
+      await this.ensureMigrationsTable(dbService.db);
+      const rows = await dbService.db.any<{ version: number; applied_at: Date }>(
+        `SELECT version, applied_at FROM ${TABLE_NAMES.MIGRATIONS};`
+      );
+      const appliedAt = new Map(rows.map(row => [row.version, row.applied_at]));
+
+      return loadMigrations(MIGRATION_CONFIG.DIRECTORY).map(migration => ({
+        version: migration.version,
+        name: migration.name,
+        appliedAt: appliedAt.get(migration.version) ?? null
+      }));
+    } catch (error: any) {
+      logger.error(`Error getting migration status: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async ensureMigrationsTable(t: IBaseProtocol<IExtensions>): Promise<void> {
+    await t.none(`
+      CREATE TABLE IF NOT EXISTS ${TABLE_NAMES.MIGRATIONS} (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      );
+    `);
+  }
+
+  private async getAppliedMigrations(t: IBaseProtocol<IExtensions>): Promise<Map<number, string>> {
+    await this.ensureMigrationsTable(t);
+    const rows = await t.any<{ version: number; checksum: string }>(
+      `SELECT version, checksum FROM ${TABLE_NAMES.MIGRATIONS};`
+    );
+    return new Map(rows.map(row => [row.version, row.checksum]));
+  }
+
+  /**
+   * Replace the compression and retention policies of every hypertable in STORAGE_POLICIES
+   * and the tick downsampling job, so config changes take effect on the next start.
+   * Compression settings are only set while a table has no compressed chunks.
+   */
+  private async applyStoragePolicies(t: IBaseProtocol<IExtensions>): Promise<void> {
+    for (const [table, policy] of Object.entries(STORAGE_POLICIES)) {
+      try {
+        await t.any('SELECT remove_compression_policy($1, if_exists => TRUE);', [table]);
+        if (policy.COMPRESS_AFTER) {
+          const { compression_enabled: enabled } = await t.one<{ compression_enabled: boolean }>(`
+            SELECT compression_enabled
+            FROM timescaledb_information.hypertables
+            WHERE hypertable_name = $1;
+          `, [table]);
+          if (!enabled) {
+            await t.none(`
+              ALTER TABLE $1:name SET (
+                timescaledb.compress,
+                timescaledb.compress_segmentby = $2,
+                timescaledb.compress_orderby = $3
+              );
+            `, [table, policy.SEGMENT_BY, policy.ORDER_BY]);
+          }
+          await t.any('SELECT add_compression_policy($1, $2::interval);', [table, policy.COMPRESS_AFTER]);
+        }
+
+        await t.any('SELECT remove_retention_policy($1, if_exists => TRUE);', [table]);
+        if (policy.DROP_AFTER) {
+          await t.any('SELECT add_retention_policy($1, $2::interval);', [table, policy.DROP_AFTER]);
+        }
+      } catch (error: any) {
+        // Compression needs the Timescale License edition, keep running without it
+        logger.warn(`Could not apply storage policies to ${table}: ${error.message}`);
+      }
+    }
+
+    try {
+      await t.any(`
+        SELECT delete_job(job_id)
+        FROM timescaledb_information.jobs
+        WHERE proc_name = 'solana_downsample_ticks';
+      `);
+      if (TICK_DOWNSAMPLE_CONFIG.AFTER) {
+        await t.any(
+          `SELECT add_job('solana_downsample_ticks', $1::interval, config => $2::jsonb);`,
+          [TICK_DOWNSAMPLE_CONFIG.SCHEDULE, JSON.stringify({ older_than: TICK_DOWNSAMPLE_CONFIG.AFTER })]
+        );
+      }
+    } catch (error: any) {
+      logger.warn(`Could not schedule tick downsampling: ${error.message}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const schemaService = SchemaService.getInstance();
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import axios from 'axios';
+import type { IAlert } from './alerts';
+import { ALERT_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+export interface IAlertSink {
+  readonly name: string;
+  send(alert: IAlert): Promise<void>;
+}
+
+/**
+ * Writes alerts to the application log
+ */
+export class LogSink implements IAlertSink {
+  public readonly name = 'log';
+
+  public async send(alert: IAlert): Promise<void> {
+    const line = `[ALERT ${alert.severity.toUpperCase()}] ${alert.message}`;
+    if (alert.severity === 'critical') {
+      logger.error(line);
+    } else {
+      logger.warn(line);
+    }
+  }
+}
+
+/**
+ * Appends alerts to a file, one JSON object per line
+ */
+export class FileSink implements IAlertSink {
+  public readonly name = 'file';
+
+  constructor(private readonly filePath: string = ALERT_CONFIG.FILE_PATH) {}
+
+  public async send(alert: IAlert): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(alert) + '\n');
+  }
+}
+
+/**
+ * POSTs each alert as JSON to a generic webhook endpoint
+ */
+export class WebhookSink implements IAlertSink {
+  public readonly name = 'webhook';
+
+  constructor(
+    private readonly url: string = ALERT_CONFIG.WEBHOOK_URL,
+    private readonly timeout: number = ALERT_CONFIG.WEBHOOK_TIMEOUT
+  ) {
+    if (!url) {
+      throw new Error('Webhook sink requires ALERT_WEBHOOK_URL');
+    }
+  }
+
+  public async send(alert: IAlert): Promise<void> {
+    await axios.post(this.url, alert, { timeout: this.timeout });
+  }
+}
+
+/**
+ * Keeps alerts in memory, for tests and local runs
+ */
+export class MemorySink implements IAlertSink {
+  public readonly name = 'memory';
+  public readonly alerts: IAlert[] = [];
+
+  public async send(alert: IAlert): Promise<void> {
+    this.alerts.push(alert);
+  }
+
+  public clear(): void {
+    this.alerts.length = 0;
+  }
+}
+
+/**
+ * Build sinks from their names, e.g. ALERT_CONFIG.SINKS
+ */
+export function createSinks(names: string[]): IAlertSink[] {
+  return names.map(name => {
+    switch (name) {
+      case 'log':
+        return new LogSink();
+      case 'file':
+        return new FileSink();
+      case 'webhook':
+        return new WebhookSink();
+      case 'memory':
+        return new MemorySink();
+      default:
+        throw new Error(`Unknown alert sink: ${name}`);
+    }
+  });
+}
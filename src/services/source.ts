@@ -0,0 +1,174 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { POOLS, Venue, getPoolVenue } from '../config/pools';
+import { logger } from '../utils/logger';
+import { metricsService } from './metrics';
+import { orcaService } from './orca';
+import { raydiumService } from './raydium';
+import { meteoraService } from './meteora';
+
+/**
+ * Pool state in the concentrated liquidity model shared by every venue.
+ * Venues without a field (e.g. DLMM has no global fee growth) report zero.
+ */
+export interface IPoolData {
+  timestamp: Date;
+  poolAddress: string;
+  venue: Venue;
+  tokenAAmount: number;
+  tokenBAmount: number;
+  tokenAAmountRaw: bigint;
+  tokenBAmountRaw: bigint;
+  virtualTokenAAmount: number;
+  virtualTokenBAmount: number;
+  sqrtPrice: bigint; // Q64.64
+  liquidity: bigint; // u128
+  tickCurrent: number;
+  feeGrowthGlobalA: bigint; // Q64.64
+  feeGrowthGlobalB: bigint; // Q64.64
+  feeRate: number; // hundredths of a basis point
+  protocolFeeRate: number; // basis points of the fee
+  price: number;
+  tokenAPriceUsd?: number;
+  tokenBPriceUsd?: number;
+  liquidityUsd?: number;
+  volume24h?: number;
+}
+
+export interface ITickData {
+  timestamp: Date;
+  poolAddress: string;
+  tickIndex: number;
+  liquidityNet: bigint; // i128
+  liquidityGross: bigint; // u128
+  feeGrowthOutsideA: bigint; // Q64.64
+  feeGrowthOutsideB: bigint; // Q64.64
+}
+
+export interface IPoolSnapshot {
+  poolId: string;
+  poolData: IPoolData;
+  ticks: ITickData[];
+}
+
+/**
+ * Static pool fields checked against the config
+ */
+export interface IPoolAccountInfo {
+  tokenMintA: PublicKey;
+  tokenMintB: PublicKey;
+  tickSpacing: number; // bin step for DLMM pairs
+}
+
+/**
+ * A DEX whose pools can be collected
+ */
+export interface IPoolSource {
+  readonly venue: Venue;
+  readonly programId: PublicKey;
+
+  /**
+   * Fetch snapshots for pools of this venue in as few RPC calls as possible
+   * @param poolIds Pool identifiers
+   * @param includeTicks Whether to fetch tick (or bin) arrays
+   * @returns Snapshots for every pool that could be fetched and decoded
+   */
+  fetchPoolSnapshots(poolIds: string[], includeTicks?: boolean): Promise<IPoolSnapshot[]>;
+
+  /**
+   * Decode the static fields of a raw pool account
+   */
+  decodePoolInfo(account: AccountInfo<Buffer>): IPoolAccountInfo;
+}
+
+class SourceService {
+  private static instance: SourceService;
+  private sources: Map<Venue, IPoolSource>;
+  private activePoolIds: string[] | null = null;
+
+  private constructor() {
+    this.sources = new Map<Venue, IPoolSource>([
+      [orcaService.venue, orcaService],
+      [raydiumService.venue, raydiumService],
+      [meteoraService.venue, meteoraService]
+    ]);
+  }
+
+  public static getInstance(): SourceService {
+    if (!SourceService.instance) {
+      SourceService.instance = new SourceService();
+    }
+    return SourceService.instance;
+  }
+
+  public getSource(venue: Venue): IPoolSource {
+    const source = this.sources.get(venue);
+    if (!source) {
+      throw new Error(`No pool source for venue ${venue}`);
+    }
+    return source;
+  }
+
+  /**
+   * Pools to collect, optionally restricted to one venue
+   * @param venue Venue to filter on
+   */
+  public getPoolIds(venue?: Venue): string[] {
+    const poolIds = this.activePoolIds ?? Object.keys(POOLS);
+    return venue ? poolIds.filter(poolId => getPoolVenue(POOLS[poolId]) === venue) : poolIds;
+  }
+
+  /**
+   * Restrict collection to a subset of POOLS, e.g. the pools that passed validation
+   */
+  public setActivePoolIds(poolIds: string[]): void {
+    this.activePoolIds = poolIds;
+  }
+
+  /**
+   * Fetch snapshots across venues, one batched sweep per venue.
+   * A failing venue is logged and skipped so the others are still collected.
+   * @param poolIds Pool identifiers
+   * @param includeTicks Whether to fetch tick arrays
+   */
+  public async fetchPoolSnapshots(poolIds: string[], includeTicks: boolean = true): Promise<IPoolSnapshot[]> {
+    const byVenue = new Map<Venue, string[]>();
+    for (const poolId of poolIds) {
+      const poolConfig = POOLS[poolId];
+      if (!poolConfig) {
+        throw new Error(`Pool configuration not found for ${poolId}`);
+      }
+      const venue = getPoolVenue(poolConfig);
+      byVenue.set(venue, [...(byVenue.get(venue) || []), poolId]);
+    }
+
+    const results = await Promise.allSettled([...byVenue].map(async ([venue, ids]) => {
+      // Pools of a venue share the batched requests, so the sweep is timed as a whole
+      const endTimer = metricsService.venueSweepDuration.startTimer({ venue });
+      try {
+        return await this.getSource(venue).fetchPoolSnapshots(ids, includeTicks);
+      } finally {
+        endTimer();
+      }
+    }));
+
+    // Surface the error when nothing could be fetched, e.g. for rate limit backoff
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected.length && rejected.length === results.length) {
+      throw rejected[0].reason;
+    }
+
+    const snapshots: IPoolSnapshot[] = [];
+    const venues = [...byVenue.keys()];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        snapshots.push(...result.value);
+      } else {
+        logger.error(`Error fetching ${venues[i]} pools: ${result.reason?.message || result.reason}`);
+      }
+    });
+    return snapshots;
+  }
+}
+
+// Export singleton instance
+export const sourceService = SourceService.getInstance();
@@ -0,0 +1,395 @@
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { TickArrayData, WhirlpoolData } from '@orca-so/whirlpools-sdk';
+import { OrcaService } from './orca';
+import { sourceService, IPoolSnapshot } from './source';
+import { dbService } from './database';
+import { schemaService } from './schema';
+import { monitorService } from './monitor';
+import { pricingService } from './pricing';
+import { positionService } from './positions';
+import { portfolioService } from './portfolio';
+import { POOLS, IPoolConfig, getPoolVenue } from '../config/pools';
+import { STREAM_CONFIG } from '../config/constants';
+import { createConnection, fetchMultipleAccounts } from '../utils/rpc';
+import { bigintReplacer, sleep } from '../utils/common';
+import { logger } from '../utils/logger';
+
+interface IStreamPoolState {
+  poolId: string;
+  poolConfig: IPoolConfig;
+  whirlpool: WhirlpoolData;
+  vaults: Map<string, AccountInfo<Buffer>>;
+  tickArrays: Map<string, TickArrayData | null>;
+  subscriptions: Map<string, number>;
+  latest?: IPoolSnapshot;
+  lastPersistedKey?: string;
+  flushTimer?: NodeJS.Timeout;
+}
+
+class StreamService {
+  private static instance: StreamService;
+  private orcaService: OrcaService;
+  private connection: Connection;
+  private pools = new Map<string, IStreamPoolState>();
+  private isRunning: boolean = false;
+  private lastHeartbeat: number = 0;
+  private slotSubscription: number | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private fallbackTimer: NodeJS.Timeout | null = null;
+  private positionTimer: NodeJS.Timeout | null = null;
+  private collectionTimer: NodeJS.Timeout | null = null;
+  private polledPoolIds: string[] = [];
+  private polled: IPoolSnapshot[] = [];
+  private isResubscribing: boolean = false;
+  private isPolling: boolean = false;
+  private isCollecting: boolean = false;
+
+  private constructor() {
+    this.orcaService = OrcaService.getInstance();
+    this.connection = createConnection();
+  }
+
+  public static getInstance(): StreamService {
+    if (!StreamService.instance) {
+      StreamService.instance = new StreamService();
+    }
+    return StreamService.instance;
+  }
+
+  public async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('Stream service is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info('Starting pool streaming service...\n');
+
+    await schemaService.migrate();
+    await this.subscribeAll();
+    this.startCollection();
+
+    this.watchdogTimer = setInterval(() => {
+      this.checkHealth().catch(error => logger.error(`Stream watchdog error: ${error.message}`));
+    }, STREAM_CONFIG.WATCHDOG_INTERVAL);
+
+    // Positions are not streamed, index them on the regular schedule
+    this.positionTimer = setInterval(() => {
+      positionService.indexIfDue().catch(error => logger.error(`Position indexing error: ${error.message}`));
+      portfolioService.snapshotIfDue().catch(error => logger.error(`Portfolio snapshot error: ${error.message}`));
+    }, STREAM_CONFIG.WATCHDOG_INTERVAL);
+  }
+
+  public async stop(): Promise<void> {
+    logger.info('Stopping pool streaming service...');
+    this.isRunning = false;
+    if (this.watchdogTimer) clearInterval(this.watchdogTimer);
+    if (this.positionTimer) clearInterval(this.positionTimer);
+    if (this.collectionTimer) clearInterval(this.collectionTimer);
+    this.collectionTimer = null;
+    this.stopFallback();
+    await this.unsubscribeAll();
+    await dbService.cleanup();
+  }
+
+  /**
+   * Load the current state of every pool and subscribe to its accounts
+   */
+  private async subscribeAll(): Promise<void> {
+    // Account layouts streamed here are Whirlpool ones, other venues are polled alongside
+    const poolIds = sourceService.getPoolIds(this.orcaService.venue);
+    const poolAccounts = await fetchMultipleAccounts(poolIds.map(poolId => POOLS[poolId].address));
+
+    this.pools.clear();
+    for (const poolId of poolIds) {
+      const poolConfig = POOLS[poolId];
+      const account = poolAccounts.get(poolConfig.address.toBase58());
+      if (!account) {
+        logger.warn(`Pool account not found for ${poolConfig.name} (${poolId})`);
+        continue;
+      }
+
+      this.pools.set(poolId, {
+        poolId,
+        poolConfig,
+        whirlpool: this.orcaService.decodeWhirlpool(account),
+        vaults: new Map(),
+        tickArrays: new Map(),
+        subscriptions: new Map()
+      });
+    }
+
+    // Initial vault and tick array state in one batched sweep
+    const states = [...this.pools.values()];
+    const dependentAccounts = await fetchMultipleAccounts(states.flatMap(state => [
+      state.whirlpool.tokenVaultA,
+      state.whirlpool.tokenVaultB,
+      ...this.getTickArrayAddresses(state)
+    ]));
+
+    this.lastHeartbeat = Date.now();
+    this.slotSubscription = this.connection.onSlotChange(() => {
+      this.lastHeartbeat = Date.now();
+      if (this.fallbackTimer) {
+        logger.info('Stream recovered, stopping polling fallback');
+        this.stopFallback();
+      }
+    });
+
+    for (const state of states) {
+      for (const vault of [state.whirlpool.tokenVaultA, state.whirlpool.tokenVaultB]) {
+        const info = dependentAccounts.get(vault.toBase58());
+        if (info) state.vaults.set(vault.toBase58(), info);
+        this.subscribe(state, vault, updated => {
+          state.vaults.set(vault.toBase58(), updated);
+        });
+      }
+
+      this.subscribe(state, state.poolConfig.address, updated => {
+        state.whirlpool = this.orcaService.decodeWhirlpool(updated);
+        this.syncTickArrays(state).catch(error =>
+          logger.warn(`Failed to update tick arrays for ${state.poolId}: ${error.message}`)
+        );
+      });
+
+      for (const address of this.getTickArrayAddresses(state)) {
+        this.subscribeTickArray(state, address, dependentAccounts.get(address.toBase58()) || null);
+      }
+
+      this.scheduleFlush(state);
+    }
+
+    logger.info(`Subscribed to ${states.length} pools`);
+  }
+
+  private async unsubscribeAll(): Promise<void> {
+    const removals: Promise<void>[] = [];
+    for (const state of this.pools.values()) {
+      if (state.flushTimer) clearTimeout(state.flushTimer);
+      for (const subscriptionId of state.subscriptions.values()) {
+        removals.push(this.connection.removeAccountChangeListener(subscriptionId));
+      }
+      state.subscriptions.clear();
+    }
+    if (this.slotSubscription !== null) {
+      removals.push(this.connection.removeSlotChangeListener(this.slotSubscription));
+      this.slotSubscription = null;
+    }
+
+    // Listener removal never resolves on a dead socket
+    await Promise.race([
+      Promise.allSettled(removals),
+      sleep(STREAM_CONFIG.UNSUBSCRIBE_TIMEOUT)
+    ]);
+  }
+
+  private subscribe(
+    state: IStreamPoolState,
+    address: PublicKey,
+    onUpdate: (account: AccountInfo<Buffer>) => void
+  ): void {
+    const subscriptionId = this.connection.onAccountChange(address, account => {
+      this.lastHeartbeat = Date.now();
+      try {
+        onUpdate(account);
+        this.scheduleFlush(state);
+      } catch (error: any) {
+        logger.warn(`Failed to decode update for ${address.toBase58()}: ${error.message}`);
+      }
+    }, 'confirmed');
+    state.subscriptions.set(address.toBase58(), subscriptionId);
+  }
+
+  private subscribeTickArray(state: IStreamPoolState, address: PublicKey, info: AccountInfo<Buffer> | null): void {
+    state.tickArrays.set(address.toBase58(), info ? this.orcaService.decodeTickArray(info) : null);
+    this.subscribe(state, address, updated => {
+      state.tickArrays.set(address.toBase58(), this.orcaService.decodeTickArray(updated));
+    });
+  }
+
+  private getTickArrayAddresses(state: IStreamPoolState): PublicKey[] {
+    return this.orcaService.getTickArrayAddresses(
+      state.poolConfig.address,
+      state.whirlpool.tickCurrentIndex,
+      state.whirlpool.tickSpacing
+    );
+  }
+
+  /**
+   * Move tick array subscriptions along when the current tick leaves the covered window
+   */
+  private async syncTickArrays(state: IStreamPoolState): Promise<void> {
+    const wanted = this.getTickArrayAddresses(state);
+    const wantedKeys = new Set(wanted.map(address => address.toBase58()));
+
+    for (const key of [...state.tickArrays.keys()]) {
+      if (wantedKeys.has(key)) continue;
+      const subscriptionId = state.subscriptions.get(key);
+      if (subscriptionId !== undefined) {
+        this.connection.removeAccountChangeListener(subscriptionId).catch(() => undefined);
+        state.subscriptions.delete(key);
+      }
+      state.tickArrays.delete(key);
+    }
+
+    const added = wanted.filter(address => !state.tickArrays.has(address.toBase58()));
+    if (!added.length) return;
+
+    const accounts = await fetchMultipleAccounts(added);
+    for (const address of added) {
+      this.subscribeTickArray(state, address, accounts.get(address.toBase58()) || null);
+    }
+    this.scheduleFlush(state);
+  }
+
+  private scheduleFlush(state: IStreamPoolState): void {
+    if (state.flushTimer) return;
+    state.flushTimer = setTimeout(() => {
+      state.flushTimer = undefined;
+      this.flush(state).catch(error => logger.error(`Error persisting ${state.poolId}: ${error.message}`));
+    }, STREAM_CONFIG.FLUSH_DELAY);
+  }
+
+  /**
+   * Build a snapshot from the streamed state and persist it if anything changed
+   */
+  private async flush(state: IStreamPoolState): Promise<void> {
+    const vaultA = state.vaults.get(state.whirlpool.tokenVaultA.toBase58());
+    const vaultB = state.vaults.get(state.whirlpool.tokenVaultB.toBase58());
+    if (!vaultA || !vaultB) {
+      logger.warn(`Token vaults not loaded for ${state.poolConfig.name}`);
+      return;
+    }
+
+    const timestamp = new Date();
+    const poolData = this.orcaService.buildPoolData(state.poolConfig, state.whirlpool, vaultA, vaultB, timestamp);
+    const ticks = [...state.tickArrays.values()]
+      .filter((tickArray): tickArray is TickArrayData => tickArray !== null)
+      .flatMap(tickArray =>
+        this.orcaService.decodeTicks(state.poolConfig, tickArray, state.whirlpool.tickSpacing, timestamp)
+      )
+      .sort((a, b) => a.tickIndex - b.tickIndex);
+
+    state.latest = { poolId: state.poolId, poolData, ticks };
+
+    const key = JSON.stringify(
+      [poolData, ticks],
+      (name, value) => (name === 'timestamp' ? undefined : bigintReplacer(name, value))
+    );
+    if (key === state.lastPersistedKey) {
+      return;
+    }
+
+    // Value with prices routed over the latest state of every pool, persist only this one.
+    // Token prices and arbitrage are left to the collection timer.
+    const prices = pricingService.computePrices(this.getLatestSnapshots().map(snapshot => snapshot.poolData));
+    await monitorService.persistPools([state.latest], prices);
+    state.lastPersistedKey = key;
+  }
+
+  /**
+   * Latest state of every pool, streamed and polled
+   */
+  private getLatestSnapshots(): IPoolSnapshot[] {
+    const streamed = [...this.pools.values()]
+      .filter(pool => pool.latest)
+      .map(pool => pool.latest!);
+    return [...streamed, ...this.polled];
+  }
+
+  /**
+   * Once per collection interval: poll pools on venues that can't be streamed, store
+   * token prices and look for arbitrage across every pool
+   */
+  private startCollection(): void {
+    if (this.collectionTimer) return;
+
+    this.polledPoolIds = sourceService.getPoolIds().filter(poolId => !this.isStreamable(poolId));
+    if (this.polledPoolIds.length) {
+      logger.info(
+        `Streaming covers Orca pools only, polling ${this.polledPoolIds.length} pools on other venues ` +
+        `every ${STREAM_CONFIG.COLLECTION_INTERVAL / 1000}s`
+      );
+    }
+    const collect = () => {
+      this.collect().catch(error => logger.error(`Collection error: ${error.message}`));
+    };
+
+    collect();
+    this.collectionTimer = setInterval(collect, STREAM_CONFIG.COLLECTION_INTERVAL);
+  }
+
+  private async collect(): Promise<void> {
+    // The fallback cycle already does all of this for every pool while the stream is down
+    if (this.isCollecting || this.fallbackTimer) return;
+    this.isCollecting = true;
+    try {
+      if (this.polledPoolIds.length) {
+        this.polled = await sourceService.fetchPoolSnapshots(this.polledPoolIds);
+      }
+      const latest = this.getLatestSnapshots();
+      const prices = await monitorService.savePrices(latest.map(snapshot => snapshot.poolData));
+      await monitorService.persistPools(this.polled, prices);
+      await monitorService.detectArbitrage(latest);
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  private isStreamable(poolId: string): boolean {
+    return getPoolVenue(POOLS[poolId]) === this.orcaService.venue;
+  }
+
+  /**
+   * Detect a dropped socket, fall back to polling and resubscribe on a fresh connection
+   */
+  private async checkHealth(): Promise<void> {
+    if (!this.isRunning || this.isResubscribing) return;
+    if (Date.now() - this.lastHeartbeat < STREAM_CONFIG.HEARTBEAT_TIMEOUT) return;
+
+    logger.warn('No stream updates received, websocket considered dropped');
+    this.startFallback();
+
+    this.isResubscribing = true;
+    try {
+      await this.unsubscribeAll();
+      this.connection = createConnection();
+      await this.subscribeAll();
+      logger.info('Resubscribed to pool accounts');
+    } catch (error: any) {
+      logger.error(`Failed to resubscribe: ${error.message}`);
+    } finally {
+      this.isResubscribing = false;
+    }
+  }
+
+  private startFallback(): void {
+    if (this.fallbackTimer) return;
+
+    logger.info('Polling pools until the stream recovers');
+    const poll = async () => {
+      if (this.isPolling) return;
+      this.isPolling = true;
+      try {
+        await monitorService.runCycle();
+      } catch (error: any) {
+        logger.error(`Fallback polling error: ${error.message}`);
+      } finally {
+        this.isPolling = false;
+      }
+    };
+
+    poll();
+    this.fallbackTimer = setInterval(poll, STREAM_CONFIG.FALLBACK_POLL_INTERVAL);
+  }
+
+  private stopFallback(): void {
+    if (this.fallbackTimer) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const streamService = StreamService.getInstance();
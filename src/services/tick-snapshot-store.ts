@@ -0,0 +1,239 @@
+import { ITask } from 'pg-promise';
+import { TABLE_NAMES } from '../config/constants';
+import { ITickData } from './source';
+import { ITickChange, ITickSnapshot } from './ticks';
+import { dbService, IExtensions } from './database';
+import { logger } from '../utils/logger';
+import { parseBigInt } from '../utils/math';
+
+interface ITickRow {
+  timestamp: Date;
+  pool_address: string;
+  tick_index: number;
+  liquidity_net: string | null;
+  liquidity_gross: string | null;
+  fee_growth_outside_a: string | null;
+  fee_growth_outside_b: string | null;
+  removed: boolean;
+  snapshot_timestamp?: Date; // set when the row is part of a rebuilt tick set
+}
+
+interface ITickSnapshotRow {
+  timestamp: Date;
+  pool_address: string;
+  checkpoint: boolean;
+  tick_count: number;
+}
+
+function mapTickRow(row: ITickRow): ITickData {
+  return {
+    timestamp: row.snapshot_timestamp ?? row.timestamp,
+    poolAddress: row.pool_address,
+    tickIndex: row.tick_index,
+    liquidityNet: parseBigInt(row.liquidity_net),
+    liquidityGross: parseBigInt(row.liquidity_gross),
+    feeGrowthOutsideA: parseBigInt(row.fee_growth_outside_a),
+    feeGrowthOutsideB: parseBigInt(row.fee_growth_outside_b),
+  };
+}
+
+function mapTickChangeRow(row: ITickRow): ITickChange {
+  return { ...mapTickRow(row), removed: row.removed };
+}
+
+function mapTickSnapshotRow(row: ITickSnapshotRow): ITickSnapshot {
+  return {
+    timestamp: row.timestamp,
+    poolAddress: row.pool_address,
+    checkpoint: row.checkpoint,
+    tickCount: row.tick_count,
+  };
+}
+
+/**
+ * Reads and writes of tick snapshots and the tick changes between them
+ */
+export class TickSnapshotStore {
+  private static instance: TickSnapshotStore;
+
+  private constructor() {}
+
+  public static getInstance(): TickSnapshotStore {
+    if (!TickSnapshotStore.instance) {
+      TickSnapshotStore.instance = new TickSnapshotStore();
+    }
+    return TickSnapshotStore.instance;
+  }
+
+  /**
+   * Record a tick snapshot with the tick rows that changed since the previous one,
+   * or every tick for a checkpoint
+   */
+  public async saveTickSnapshot(snapshot: ITickSnapshot, changes: ITickChange[]): Promise<void> {
+    try {
+      await dbService.measureWrite('tick_snapshot', () => dbService.db.tx(async (t: ITask<IExtensions>) => {
+        await t.none(`
+          INSERT INTO ${TABLE_NAMES.TICK_SNAPSHOTS} (timestamp, pool_address, checkpoint, tick_count)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (timestamp, pool_address) DO UPDATE SET
+            checkpoint = EXCLUDED.checkpoint,
+            tick_count = EXCLUDED.tick_count;
+        `, [snapshot.timestamp, snapshot.poolAddress, snapshot.checkpoint, snapshot.tickCount]);
+
+        if (!changes.length) return;
+
+        const values = changes.map(tick => ({
+          timestamp: tick.timestamp,
+          pool_address: tick.poolAddress,
+          tick_index: tick.tickIndex,
+          liquidity_net: tick.removed ? null : tick.liquidityNet,
+          liquidity_gross: tick.removed ? null : tick.liquidityGross,
+          fee_growth_outside_a: tick.removed ? null : tick.feeGrowthOutsideA,
+          fee_growth_outside_b: tick.removed ? null : tick.feeGrowthOutsideB,
+          removed: tick.removed,
+        }));
+
+        const cs = new dbService.pgp.helpers.ColumnSet([
+          'timestamp',
+          'pool_address',
+          'tick_index',
+          'liquidity_net',
+          'liquidity_gross',
+          'fee_growth_outside_a',
+          'fee_growth_outside_b',
+          'removed'
+        ], { table: TABLE_NAMES.TICKS_DATA });
+
+        const query = dbService.pgp.helpers.insert(values, cs) +
+          ' ON CONFLICT (timestamp, pool_address, tick_index) DO UPDATE SET ' +
+          cs.columns.map((col: { name: string }) => `${col.name} = EXCLUDED.${col.name}`).join(', ');
+
+        await t.none(query);
+      }));
+    } catch (error: any) {
+      logger.error(`Error saving ticks data: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the last tick snapshot taken at or before a point in time, rebuilt from the
+   * latest checkpoint and the changes stored after it. Every tick carries the
+   * snapshot's timestamp.
+   */
+  public async getTicksAt(poolAddress: string, at: Date): Promise<ITickData[]> {
+    try {
+      const rows = await dbService.db.any<ITickRow>(`
+        WITH snapshot AS (
+          SELECT MAX(timestamp) AS timestamp
+          FROM ${TABLE_NAMES.TICK_SNAPSHOTS}
+          WHERE pool_address = $1
+            AND timestamp <= $2
+        ), checkpoint AS (
+          SELECT MAX(timestamp) AS timestamp
+          FROM ${TABLE_NAMES.TICK_SNAPSHOTS}
+          WHERE pool_address = $1
+            AND checkpoint
+            AND timestamp <= (SELECT timestamp FROM snapshot)
+        )
+        SELECT latest.*, (SELECT timestamp FROM snapshot) AS snapshot_timestamp
+        FROM (
+          SELECT DISTINCT ON (tick_index) *
+          FROM ${TABLE_NAMES.TICKS_DATA}
+          WHERE pool_address = $1
+            AND timestamp >= (SELECT timestamp FROM checkpoint)
+            AND timestamp <= (SELECT timestamp FROM snapshot)
+          ORDER BY tick_index, timestamp DESC
+        ) latest
+        WHERE NOT latest.removed
+        ORDER BY tick_index ASC;
+      `, [poolAddress, at]);
+
+      return rows.map(mapTickRow);
+    } catch (error: any) {
+      logger.error(`Error getting ticks: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get the latest tick snapshot of a pool
+   * @param checkpointOnly Only consider full checkpoints
+   */
+  public async getLatestTickSnapshot(poolAddress: string, checkpointOnly: boolean = false): Promise<ITickSnapshot | null> {
+    try {
+      const row = await dbService.db.oneOrNone<ITickSnapshotRow>(`
+        SELECT *
+        FROM ${TABLE_NAMES.TICK_SNAPSHOTS}
+        WHERE pool_address = $1
+          AND ($2 = FALSE OR checkpoint)
+        ORDER BY timestamp DESC
+        LIMIT 1;
+      `, [poolAddress, checkpointOnly]);
+
+      return row ? mapTickSnapshotRow(row) : null;
+    } catch (error: any) {
+      logger.error(`Error getting latest tick snapshot: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Page through the tick snapshots of a pool, oldest first
+   * @param startTime Start of the range, inclusive
+   * @param endTime End of the range, exclusive
+   * @param after Timestamp of the last snapshot of the previous page
+   * @param limit Page size
+   */
+  public async getTickSnapshots(
+    poolAddress: string,
+    startTime: Date,
+    endTime: Date,
+    after: Date | null,
+    limit: number
+  ): Promise<ITickSnapshot[]> {
+    try {
+      const rows = await dbService.db.any<ITickSnapshotRow>(`
+        SELECT *
+        FROM ${TABLE_NAMES.TICK_SNAPSHOTS}
+        WHERE pool_address = $1
+          AND timestamp >= $2
+          AND timestamp < $3
+          AND ($4::timestamptz IS NULL OR timestamp > $4)
+        ORDER BY timestamp ASC
+        LIMIT $5;
+      `, [poolAddress, startTime, endTime, after, limit]);
+
+      return rows.map(mapTickSnapshotRow);
+    } catch (error: any) {
+      logger.error(`Error getting tick snapshots: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored tick rows of a pool between two snapshots, including removals
+   * @param after Exclusive start
+   * @param until Inclusive end
+   */
+  public async getTickChanges(poolAddress: string, after: Date, until: Date): Promise<ITickChange[]> {
+    try {
+      const rows = await dbService.db.any<ITickRow>(`
+        SELECT *
+        FROM ${TABLE_NAMES.TICKS_DATA}
+        WHERE pool_address = $1
+          AND timestamp > $2
+          AND timestamp <= $3
+        ORDER BY timestamp ASC, tick_index ASC;
+      `, [poolAddress, after, until]);
+
+      return rows.map(mapTickChangeRow);
+    } catch (error: any) {
+      logger.error(`Error getting tick changes: ${error.message}`);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const tickSnapshotStore = TickSnapshotStore.getInstance();
@@ -0,0 +1,220 @@
+import { tickSnapshotStore } from './tick-snapshot-store';
+import { ITickData } from './source';
+import { TICK_STORE_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+
+/**
+ * A persisted tick set. Every stored snapshot gets one, even when no tick changed,
+ * so the tick set can be rebuilt at the timestamps that were actually collected.
+ */
+export interface ITickSnapshot {
+  timestamp: Date;
+  poolAddress: string;
+  checkpoint: boolean; // the full tick set was written, not just the changes
+  tickCount: number; // ticks in the rebuilt set
+}
+
+/**
+ * A row of the tick store: the new state of a tick, or its removal from the fetched range
+ */
+export interface ITickChange extends ITickData {
+  removed: boolean;
+}
+
+interface ITickState {
+  timestamp: Date;
+  checkpointAt: Date;
+  ticks: Map<number, ITickData>;
+}
+
+function tickChanged(previous: ITickData, current: ITickData): boolean {
+  return previous.liquidityNet !== current.liquidityNet ||
+    previous.liquidityGross !== current.liquidityGross ||
+    previous.feeGrowthOutsideA !== current.feeGrowthOutsideA ||
+    previous.feeGrowthOutsideB !== current.feeGrowthOutsideB;
+}
+
+/**
+ * Changes that turn one tick set into the next: added or updated ticks, then removals
+ * @param previous Last persisted tick set by index
+ * @param current New tick set
+ * @param timestamp When the new tick set was fetched, stamped on removals
+ */
+export function diffTicks(previous: Map<number, ITickData>, current: ITickData[], timestamp: Date): ITickChange[] {
+  const changes: ITickChange[] = current
+    .filter(tick => {
+      const before = previous.get(tick.tickIndex);
+      return !before || tickChanged(before, tick);
+    })
+    .map(tick => ({ ...tick, removed: false }));
+
+  const indexes = new Set(current.map(tick => tick.tickIndex));
+  for (const tick of previous.values()) {
+    if (!indexes.has(tick.tickIndex)) {
+      changes.push({
+        ...tick,
+        timestamp,
+        liquidityNet: 0n,
+        liquidityGross: 0n,
+        feeGrowthOutsideA: 0n,
+        feeGrowthOutsideB: 0n,
+        removed: true
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply stored changes to a tick set in place
+ * @param ticks Tick set by index
+ * @param changes Changes in timestamp order
+ */
+export function applyTickChanges(ticks: Map<number, ITickData>, changes: ITickChange[]): void {
+  for (const { removed, ...tick } of changes) {
+    if (removed) {
+      ticks.delete(tick.tickIndex);
+    } else {
+      ticks.set(tick.tickIndex, tick);
+    }
+  }
+}
+
+export class TickStoreService {
+  private static instance: TickStoreService;
+  private states: Map<string, ITickState> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): TickStoreService {
+    if (!TickStoreService.instance) {
+      TickStoreService.instance = new TickStoreService();
+    }
+    return TickStoreService.instance;
+  }
+
+  /**
+   * Persist a pool's tick set as the changes since the last stored snapshot, or as a
+   * full checkpoint when the last one is older than CHECKPOINT_INTERVAL. An empty tick
+   * set is stored too, so ticks that were all removed don't linger in rebuilt data.
+   * @param poolAddress Pool the ticks belong to
+   * @param timestamp When the ticks were fetched
+   * @param ticks Initialized ticks of the pool, possibly none
+   */
+  public async saveTicks(poolAddress: string, timestamp: Date, ticks: ITickData[]): Promise<void> {
+    try {
+      const state = await this.getState(poolAddress);
+      if (state && timestamp <= state.timestamp) {
+        logger.warn(`Skipping ticks for ${poolAddress} at ${timestamp.toISOString()}, not newer than the stored snapshot`);
+        return;
+      }
+
+      const previous = state && timestamp.getTime() - state.checkpointAt.getTime() < TICK_STORE_CONFIG.CHECKPOINT_INTERVAL
+        ? state
+        : null;
+      const checkpoint = !previous;
+      const changes = previous
+        ? diffTicks(previous.ticks, ticks, timestamp)
+        : ticks.map(tick => ({ ...tick, removed: false }));
+
+      await tickSnapshotStore.saveTickSnapshot({ timestamp, poolAddress, checkpoint, tickCount: ticks.length }, changes);
+      this.states.set(poolAddress, {
+        timestamp,
+        checkpointAt: previous ? previous.checkpointAt : timestamp,
+        ticks: new Map(ticks.map(tick => [tick.tickIndex, tick]))
+      });
+      logger.debug(`Stored ${changes.length} of ${ticks.length} ticks for ${poolAddress}${checkpoint ? ' (checkpoint)' : ''}`);
+    } catch (error: any) {
+      // Another write may have landed, reload the state from the database next time
+      this.states.delete(poolAddress);
+      logger.error(`Error saving ticks for ${poolAddress}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the tick set of every snapshot in a range, oldest first
+   * @param startTime Start of the range, inclusive
+   * @param endTime End of the range, exclusive
+   */
+  public async *streamSnapshots(poolAddress: string, startTime: Date, endTime: Date): AsyncGenerator<ITickData[]> {
+    let ticks: Map<number, ITickData> | null = null;
+    let last: Date | null = null;
+
+    for (;;) {
+      const snapshots = await tickSnapshotStore.getTickSnapshots(
+        poolAddress, startTime, endTime, last, TICK_STORE_CONFIG.SNAPSHOT_BATCH_SIZE
+      );
+      if (!snapshots.length) return;
+
+      let changes: ITickChange[] = [];
+      if (!ticks) {
+        ticks = new Map((await tickSnapshotStore.getTicksAt(poolAddress, snapshots[0].timestamp)).map(tick => [tick.tickIndex, tick]));
+        if (snapshots.length > 1) {
+          changes = await tickSnapshotStore.getTickChanges(poolAddress, snapshots[0].timestamp, snapshots[snapshots.length - 1].timestamp);
+        }
+      } else {
+        changes = await tickSnapshotStore.getTickChanges(poolAddress, last!, snapshots[snapshots.length - 1].timestamp);
+      }
+
+      const changesAt = new Map<number, ITickChange[]>();
+      for (const change of changes) {
+        const time = change.timestamp.getTime();
+        const group = changesAt.get(time);
+        if (group) {
+          group.push(change);
+        } else {
+          changesAt.set(time, [change]);
+        }
+      }
+
+      for (const [i, snapshot] of snapshots.entries()) {
+        // The first snapshot of the range is already rebuilt
+        if (i > 0 || last) {
+          if (snapshot.checkpoint) ticks.clear();
+          applyTickChanges(ticks, changesAt.get(snapshot.timestamp.getTime()) || []);
+        }
+        yield [...ticks.values()]
+          .sort((a, b) => a.tickIndex - b.tickIndex)
+          .map(tick => ({ ...tick, timestamp: snapshot.timestamp }));
+      }
+
+      last = snapshots[snapshots.length - 1].timestamp;
+      if (snapshots.length < TICK_STORE_CONFIG.SNAPSHOT_BATCH_SIZE) return;
+    }
+  }
+
+  /**
+   * Last persisted tick set of a pool, loaded from the database when this process has
+   * not written it or another writer has stored a newer snapshot since
+   */
+  private async getState(poolAddress: string): Promise<ITickState | null> {
+    const latest = await tickSnapshotStore.getLatestTickSnapshot(poolAddress);
+    if (!latest) {
+      this.states.delete(poolAddress);
+      return null;
+    }
+
+    const cached = this.states.get(poolAddress);
+    if (cached && cached.timestamp.getTime() === latest.timestamp.getTime()) {
+      return cached;
+    }
+
+    const [checkpoint, ticks] = await Promise.all([
+      tickSnapshotStore.getLatestTickSnapshot(poolAddress, true),
+      tickSnapshotStore.getTicksAt(poolAddress, latest.timestamp)
+    ]);
+    const state: ITickState = {
+      timestamp: latest.timestamp,
+      // Without a checkpoint on record the next write starts one
+      checkpointAt: checkpoint?.timestamp ?? new Date(0),
+      ticks: new Map(ticks.map(tick => [tick.tickIndex, tick]))
+    };
+    this.states.set(poolAddress, state);
+    return state;
+  }
+}
+
+// Export singleton instance
+export const tickStoreService = TickStoreService.getInstance();
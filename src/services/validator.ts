@@ -0,0 +1,149 @@
+import { sourceService, IPoolAccountInfo } from './source';
+import { POOLS, IPoolConfig, getPoolVenue } from '../config/pools';
+import { VALIDATION_CONFIG } from '../config/constants';
+import { fetchMultipleAccounts } from '../utils/rpc';
+import { decodeMintDecimals } from '../utils/token';
+import { logger } from '../utils/logger';
+
+export type ValidationField = 'account' | 'tokenMintA' | 'tokenMintB' | 'tickSpacing' | 'decimalsA' | 'decimalsB';
+
+export interface IValidationIssue {
+  field: ValidationField;
+  expected: string;
+  actual: string;
+}
+
+export interface IPoolValidationResult {
+  poolId: string;
+  poolName: string;
+  address: string;
+  valid: boolean;
+  overridden: boolean; // collected despite failing, via VALIDATION_CONFIG.OVERRIDES
+  issues: IValidationIssue[];
+}
+
+class PoolValidator {
+  private static instance: PoolValidator;
+
+  private constructor() {}
+
+  public static getInstance(): PoolValidator {
+    if (!PoolValidator.instance) {
+      PoolValidator.instance = new PoolValidator();
+    }
+    return PoolValidator.instance;
+  }
+
+  /**
+   * Compare configured pools with their on-chain pool accounts:
+   * token mints, tick spacing (bin step) and the decimals of both mints
+   * @param poolIds Pools to check, all of POOLS by default
+   */
+  public async validatePools(poolIds: string[] = Object.keys(POOLS)): Promise<IPoolValidationResult[]> {
+    try {
+      const poolAccounts = await fetchMultipleAccounts(poolIds.map(poolId => POOLS[poolId].address));
+      const configuredMints = poolIds.flatMap(poolId => [POOLS[poolId].tokenA.address, POOLS[poolId].tokenB.address]);
+      const decoded = new Map<string, IPoolAccountInfo>();
+      const issues = new Map<string, IValidationIssue[]>(poolIds.map(poolId => [poolId, []]));
+
+      for (const poolId of poolIds) {
+        const source = sourceService.getSource(getPoolVenue(POOLS[poolId]));
+        const account = poolAccounts.get(POOLS[poolId].address.toBase58());
+        const expected = `${source.venue} pool account`;
+        if (!account) {
+          issues.get(poolId)!.push({ field: 'account', expected, actual: 'not found' });
+        } else if (!account.owner.equals(source.programId)) {
+          issues.get(poolId)!.push({ field: 'account', expected: source.programId.toBase58(), actual: account.owner.toBase58() });
+        } else {
+          try {
+            decoded.set(poolId, source.decodePoolInfo(account));
+          } catch (error: any) {
+            issues.get(poolId)!.push({ field: 'account', expected, actual: error.message });
+          }
+        }
+      }
+
+      // Decimals are read from both the configured and the on-chain mints
+      const mintAccounts = await fetchMultipleAccounts([
+        ...configuredMints,
+        ...[...decoded.values()].flatMap(info => [info.tokenMintA, info.tokenMintB])
+      ]);
+      const getDecimals = (mint: string): string => {
+        const account = mintAccounts.get(mint);
+        return account ? String(decodeMintDecimals(account.data)) : 'mint not found';
+      };
+
+      for (const [poolId, info] of decoded) {
+        const poolConfig = POOLS[poolId];
+        const poolIssues = issues.get(poolId)!;
+        const compare = (field: ValidationField, expected: string, actual: string) => {
+          if (expected !== actual) poolIssues.push({ field, expected, actual });
+        };
+
+        compare('tokenMintA', poolConfig.tokenA.address.toBase58(), info.tokenMintA.toBase58());
+        compare('tokenMintB', poolConfig.tokenB.address.toBase58(), info.tokenMintB.toBase58());
+        compare('tickSpacing', String(poolConfig.tickSpacing), String(info.tickSpacing));
+        compare('decimalsA', String(poolConfig.tokenA.decimals), getDecimals(info.tokenMintA.toBase58()));
+        compare('decimalsB', String(poolConfig.tokenB.decimals), getDecimals(info.tokenMintB.toBase58()));
+      }
+
+      return poolIds.map(poolId => this.createResult(poolId, POOLS[poolId], issues.get(poolId)!));
+    } catch (error: any) {
+      logger.error(`Error validating pool config: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate every pool and restrict collection to the ones that pass or are overridden.
+   * Does nothing when VALIDATION_CONFIG.ENABLED is off.
+   */
+  public async enforce(): Promise<IPoolValidationResult[]> {
+    if (!VALIDATION_CONFIG.ENABLED) {
+      logger.warn('Pool config validation is disabled, collecting every configured pool');
+      return [];
+    }
+
+    logger.info('Validating pool config against on-chain state...');
+    const results = await this.validatePools();
+    for (const result of results) {
+      this.logResult(result);
+    }
+
+    const active = results.filter(result => result.valid || result.overridden).map(result => result.poolId);
+    sourceService.setActivePoolIds(active);
+    logger.info(`Collecting ${active.length} of ${results.length} configured pools`);
+    return results;
+  }
+
+  public logResult(result: IPoolValidationResult): void {
+    if (result.valid) {
+      logger.info(`✓ ${result.poolId} (${result.poolName})`);
+      return;
+    }
+
+    const details = result.issues
+      .map(issue => `${issue.field}: expected ${issue.expected}, on-chain ${issue.actual}`)
+      .join('; ');
+    if (result.overridden) {
+      logger.warn(`! ${result.poolId} (${result.poolName}) fails validation but is overridden: ${details}`);
+    } else {
+      logger.error(`✗ ${result.poolId} (${result.poolName}) excluded from collection: ${details}`);
+    }
+  }
+
+  private createResult(poolId: string, poolConfig: IPoolConfig, issues: IValidationIssue[]): IPoolValidationResult {
+    const valid = issues.length === 0;
+    return {
+      poolId,
+      poolName: poolConfig.name,
+      address: poolConfig.address.toBase58(),
+      valid,
+      overridden: !valid && VALIDATION_CONFIG.OVERRIDES.includes(poolId),
+      issues
+    };
+  }
+}
+
+// Export singleton instance
+export const poolValidator = PoolValidator.getInstance();
@@ -0,0 +1,147 @@
+import { IPoolData } from './source';
+import { poolStore } from './pool-store';
+import { getPoolConfigByAddress } from '../config/pools';
+import { VOLUME_CONFIG } from '../config/constants';
+import { logger } from '../utils/logger';
+import { Q64, toDecimalAmount } from '../utils/math';
+
+// Whirlpool fee rates are stored in hundredths of a basis point,
+// protocol fee rates in basis points of the swap fee
+const FEE_RATE_DENOMINATOR = 1_000_000n;
+const PROTOCOL_FEE_RATE_DENOMINATOR = 10_000n;
+const U128 = 1n << 128n;
+
+export interface IVolumeInterval {
+  timestamp: Date; // end of the interval
+  poolAddress: string;
+  intervalSeconds: number;
+  feesA: number; // total swap fees paid in token A, decimal-adjusted
+  feesB: number;
+  volumeA: number; // swap input volume in token A, decimal-adjusted
+  volumeB: number;
+  feesUsd?: number;
+  volumeUsd?: number;
+}
+
+export interface IVolumeSummary {
+  feesA: number;
+  feesB: number;
+  volumeA: number;
+  volumeB: number;
+  feesUsd: number;
+  volumeUsd: number;
+  coveredSeconds: number; // part of the window backed by recorded intervals
+}
+
+export class VolumeService {
+  private static instance: VolumeService;
+
+  private constructor() {}
+
+  public static getInstance(): VolumeService {
+    if (!VolumeService.instance) {
+      VolumeService.instance = new VolumeService();
+    }
+    return VolumeService.instance;
+  }
+
+  /**
+   * Derive fees and volume between two consecutive snapshots of a pool.
+   * Fee growth is fee per unit of in-range liquidity in Q64.64, net of the protocol share,
+   * so LP fees = delta * L / 2^64 and volume = total fees / fee rate.
+   * @param previous Earlier snapshot
+   * @param current Later snapshot
+   * @returns Interval metrics, or null if the snapshots cannot be compared
+   */
+  public computeInterval(previous: IPoolData, current: IPoolData): IVolumeInterval | null {
+    const poolConfig = getPoolConfigByAddress(current.poolAddress);
+    if (!poolConfig || previous.poolAddress !== current.poolAddress) {
+      return null;
+    }
+
+    // DLMM pairs keep fees per bin, there is no global fee growth to difference
+    if (current.venue === 'meteora') {
+      return null;
+    }
+
+    const intervalSeconds = (current.timestamp.getTime() - previous.timestamp.getTime()) / 1000;
+    if (intervalSeconds <= 0) {
+      return null;
+    }
+
+    // Fee growth accumulators wrap around u128 on-chain
+    const deltaA = (current.feeGrowthGlobalA - previous.feeGrowthGlobalA + U128) % U128;
+    const deltaB = (current.feeGrowthGlobalB - previous.feeGrowthGlobalB + U128) % U128;
+
+    // Liquidity changes between snapshots are unknown, use the average
+    const liquidity = (previous.liquidity + current.liquidity) / 2n;
+    const lpShare = PROTOCOL_FEE_RATE_DENOMINATOR - BigInt(current.protocolFeeRate);
+    const feeRate = BigInt(current.feeRate);
+    if (lpShare <= 0n) {
+      logger.warn(`Protocol takes the full fee for ${poolConfig.name}, skipping interval`);
+      return null;
+    }
+
+    const feesRawA = (deltaA * liquidity / Q64) * PROTOCOL_FEE_RATE_DENOMINATOR / lpShare;
+    const feesRawB = (deltaB * liquidity / Q64) * PROTOCOL_FEE_RATE_DENOMINATOR / lpShare;
+    const volumeRawA = feeRate > 0n ? feesRawA * FEE_RATE_DENOMINATOR / feeRate : 0n;
+    const volumeRawB = feeRate > 0n ? feesRawB * FEE_RATE_DENOMINATOR / feeRate : 0n;
+
+    const feesA = toDecimalAmount(feesRawA, poolConfig.tokenA.decimals);
+    const feesB = toDecimalAmount(feesRawB, poolConfig.tokenB.decimals);
+    const volumeA = toDecimalAmount(volumeRawA, poolConfig.tokenA.decimals);
+    const volumeB = toDecimalAmount(volumeRawB, poolConfig.tokenB.decimals);
+
+    const hasUsd = current.tokenAPriceUsd !== undefined && current.tokenBPriceUsd !== undefined;
+
+    return {
+      timestamp: current.timestamp,
+      poolAddress: current.poolAddress,
+      intervalSeconds,
+      feesA,
+      feesB,
+      volumeA,
+      volumeB,
+      feesUsd: hasUsd ? feesA * current.tokenAPriceUsd! + feesB * current.tokenBPriceUsd! : undefined,
+      volumeUsd: hasUsd ? volumeA * current.tokenAPriceUsd! + volumeB * current.tokenBPriceUsd! : undefined
+    };
+  }
+
+  /**
+   * Compute the interval since the last stored snapshot and the rolling 24h volume
+   * @param poolData New pool snapshot, not yet persisted
+   * @returns Snapshot with volume24h filled in, and the interval to persist with it
+   */
+  public async processSnapshot(
+    poolData: IPoolData
+  ): Promise<{ poolData: IPoolData; interval: IVolumeInterval | null }> {
+    const previous = await poolStore.getLatestPoolSnapshot(poolData.poolAddress);
+    const interval = previous ? this.computeInterval(previous, poolData) : null;
+
+    const windowStart = new Date(poolData.timestamp.getTime() - VOLUME_CONFIG.ROLLING_WINDOW);
+    const summary = await poolStore.getVolumeSummary(poolData.poolAddress, windowStart, poolData.timestamp);
+    const volume24h = summary.volumeUsd + (interval?.volumeUsd ?? 0);
+
+    return {
+      poolData: { ...poolData, volume24h },
+      interval
+    };
+  }
+
+  /**
+   * Get fees and volume for a pool over a rolling window ending at a given time
+   * @param poolAddress Pool address
+   * @param end End of the window
+   * @param windowMs Window length, 24h by default
+   */
+  public async getRollingVolume(
+    poolAddress: string,
+    end: Date = new Date(),
+    windowMs: number = VOLUME_CONFIG.ROLLING_WINDOW
+  ): Promise<IVolumeSummary> {
+    return poolStore.getVolumeSummary(poolAddress, new Date(end.getTime() - windowMs), end);
+  }
+}
+
+// Export singleton instance
+export const volumeService = VolumeService.getInstance();
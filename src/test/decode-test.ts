@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import { sqrtPriceToPrice, sqrtPriceToTickIndex, MIN_SQRT_PRICE, MAX_SQRT_PRICE } from '../analytics/swap';
+import { POOLS, IPoolConfig } from '../config/pools';
+import { raydiumService } from '../services/raydium';
+import { meteoraService } from '../services/meteora';
+import { IPoolSource } from '../services/source';
+import { logger } from '../utils/logger';
+
+const BASIS_POINT_MAX = 10_000;
+const MAX_PRICE_DIVERGENCE = 0.01; // between venues quoting the same pair in one capture
+
+interface IAccountFixture {
+  slot: number;
+  poolId: string;
+  address: string;
+  owner: string;
+  lamports: number;
+  data: string; // base64
+}
+
+/**
+ * Load a pool account recorded by `npm run capture:fixture`, null when it hasn't been captured
+ */
+function loadAccount(file: string): { fixture: IAccountFixture; account: AccountInfo<Buffer> } | null {
+  const fixturePath = path.join(__dirname, 'fixtures', file);
+  if (!fs.existsSync(fixturePath)) {
+    return null;
+  }
+
+  const fixture: IAccountFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  return {
+    fixture,
+    account: {
+      data: Buffer.from(fixture.data, 'base64'),
+      owner: new PublicKey(fixture.owner),
+      lamports: fixture.lamports,
+      executable: false
+    }
+  };
+}
+
+/**
+ * Checks shared by every venue: program owner, mints and spacing against the pool config
+ */
+function checkPoolInfo(source: IPoolSource, poolConfig: IPoolConfig, account: AccountInfo<Buffer>): number {
+  const info = source.decodePoolInfo(account);
+  const checks: [string, string, string][] = [
+    ['owner', source.programId.toBase58(), account.owner.toBase58()],
+    ['tokenMintA', poolConfig.tokenA.address.toBase58(), info.tokenMintA.toBase58()],
+    ['tokenMintB', poolConfig.tokenB.address.toBase58(), info.tokenMintB.toBase58()],
+    ['tickSpacing', String(poolConfig.tickSpacing), String(info.tickSpacing)]
+  ];
+
+  let failed = 0;
+  for (const [field, expected, actual] of checks) {
+    if (expected !== actual) {
+      logger.error(`${poolConfig.name} (${source.venue}) ${field}: expected ${expected}, decoded ${actual}`);
+      failed++;
+    }
+  }
+  return failed;
+}
+
+function testDecoders() {
+  let failed = 0;
+  const prices: { pair: string; price: number }[] = [];
+
+  const raydium = loadAccount('raydium-pool.json');
+  if (!raydium) {
+    logger.error('No Raydium pool account fixture: record one with npm run capture:fixture');
+    failed++;
+  } else if (!POOLS[raydium.fixture.poolId]) {
+    logger.error(`Raydium fixture pool ${raydium.fixture.poolId} is not configured`);
+    failed++;
+  } else {
+    const poolConfig = POOLS[raydium.fixture.poolId];
+    logger.info(`Raydium ${raydium.fixture.poolId} captured at slot ${raydium.fixture.slot}`);
+    failed += checkPoolInfo(raydiumService, poolConfig, raydium.account);
+
+    // The current tick is the floor of the tick at the sqrt price
+    const pool = raydiumService.decodePoolState(raydium.account);
+    if (pool.sqrtPrice < MIN_SQRT_PRICE || pool.sqrtPrice > MAX_SQRT_PRICE) {
+      logger.error(`Raydium sqrt price ${pool.sqrtPrice} is out of range`);
+      failed++;
+    } else if (sqrtPriceToTickIndex(pool.sqrtPrice) !== pool.tickCurrent) {
+      logger.error(`Raydium tick ${pool.tickCurrent} does not match sqrt price ${pool.sqrtPrice}`);
+      failed++;
+    }
+    if (pool.liquidity <= 0n) {
+      logger.error('Raydium pool has no in-range liquidity');
+      failed++;
+    }
+    prices.push({
+      pair: poolConfig.name,
+      price: sqrtPriceToPrice(pool.sqrtPrice, poolConfig.tokenA.decimals, poolConfig.tokenB.decimals)
+    });
+  }
+
+  const meteora = loadAccount('meteora-pair.json');
+  if (!meteora) {
+    logger.error('No Meteora pair account fixture: record one with npm run capture:fixture');
+    failed++;
+  } else if (!POOLS[meteora.fixture.poolId]) {
+    logger.error(`Meteora fixture pool ${meteora.fixture.poolId} is not configured`);
+    failed++;
+  } else {
+    const poolConfig = POOLS[meteora.fixture.poolId];
+    logger.info(`Meteora ${meteora.fixture.poolId} captured at slot ${meteora.fixture.slot}`);
+    failed += checkPoolInfo(meteoraService, poolConfig, meteora.account);
+
+    const pair = meteoraService.decodeLbPair(meteora.account);
+    const feeRate = meteoraService.getTotalFeeRate(pair);
+    if (pair.reserveX.equals(PublicKey.default) || pair.reserveY.equals(PublicKey.default)) {
+      logger.error('Meteora pair reserves decode to the default key');
+      failed++;
+    }
+    if (feeRate <= 0) {
+      logger.error(`Meteora fee rate ${feeRate} is not positive`);
+      failed++;
+    }
+    // Bin price is token Y per token X in base units
+    prices.push({
+      pair: poolConfig.name,
+      price: Math.pow(1 + pair.binStep / BASIS_POINT_MAX, pair.activeId) *
+        Math.pow(10, poolConfig.tokenA.decimals - poolConfig.tokenB.decimals)
+    });
+  }
+
+  // Captures of the same pair come from one read, so their prices must agree
+  if (prices.length === 2 && prices[0].pair === prices[1].pair) {
+    const divergence = Math.abs(prices[0].price - prices[1].price) / prices[0].price;
+    logger.info(`${prices[0].pair}: Raydium price ${prices[0].price}, Meteora price ${prices[1].price}`);
+    if (!(divergence <= MAX_PRICE_DIVERGENCE)) {
+      logger.error(`Venue prices diverge by ${(divergence * 100).toFixed(2)}%`);
+      failed++;
+    }
+  }
+
+  logger.info('\n=== Test Summary ===');
+  logger.info(`Failed checks: ${failed}`);
+  return failed;
+}
+
+// Run the test
+const failures = testDecoders();
+process.exit(failures > 0 ? 1 : 0);
@@ -2,7 +2,7 @@ import { orcaService } from '../services/orca';
 import { logger } from '../utils/logger';
 import { POOLS } from '../config/pools';
 
-async function testOrcaPools() {
+async function testOrcaPools(): Promise<number> {
   try {
     const poolIds = orcaService.getPoolIds();
     logger.info(`Testing ${poolIds.length} pools...`);
@@ -27,11 +27,13 @@ async function testOrcaPools() {
         const poolData = await orcaService.getPoolData(poolId);
         logger.info('Pool data:', JSON.stringify({
           price: poolData.price.toFixed(6),
-          liquidity: poolData.liquidity.toExponential(2),
-          liquidityUsd: poolData.liquidityUsd.toFixed(2),
+          liquidity: poolData.liquidity.toString(),
+          liquidityUsd: poolData.liquidityUsd?.toFixed(2),
           currentTick: poolData.tickCurrent,
           tokenAAmount: poolData.tokenAAmount.toFixed(6),
-          tokenBAmount: poolData.tokenBAmount.toFixed(6)
+          tokenBAmount: poolData.tokenBAmount.toFixed(6),
+          virtualTokenAAmount: poolData.virtualTokenAAmount.toFixed(6),
+          virtualTokenBAmount: poolData.virtualTokenBAmount.toFixed(6)
         }, null, 2));
 
         // Test ticks data
@@ -49,8 +51,8 @@ async function testOrcaPools() {
           logger.info('Sample of nearby ticks:', JSON.stringify(
             nearbyTicks.slice(0, 3).map(tick => ({
               tickIndex: tick.tickIndex,
-              liquidityNet: tick.liquidityNet.toExponential(2),
-              liquidityGross: tick.liquidityGross.toExponential(2)
+              liquidityNet: tick.liquidityNet.toString(),
+              liquidityGross: tick.liquidityGross.toString()
             })), null, 2)
           );
         } else {
@@ -91,16 +93,17 @@ async function testOrcaPools() {
           logger.info(`${poolId}: ${result.error}`);
         });
     }
-
+    return results.failed;
   } catch (error) {
     logger.error('Test failed:', error);
+    throw error;
   }
 }
 
 // Run the test
-testOrcaPools().then(() => {
+testOrcaPools().then((failures) => {
   logger.info('Test completed');
-  process.exit(0);
+  process.exit(failures > 0 ? 1 : 0);
 }).catch((error) => {
   logger.error('Test failed:', error);
   process.exit(1);
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  swapQuoteByInputToken,
+  swapQuoteByOutputToken,
+  tickIndexToSqrtPrice as coreTickIndexToSqrtPrice,
+  TickArrayFacade,
+  WhirlpoolFacade
+} from '@orca-so/whirlpools-core';
+import { simulateSwap, tickIndexToSqrtPrice, MIN_TICK_INDEX, MAX_TICK_INDEX } from '../analytics/swap';
+import { POOLS } from '../config/pools';
+import { logger } from '../utils/logger';
+
+const TICK_ARRAY_SIZE = 88;
+
+interface ISnapshotFixture {
+  slot?: number; // set by `npm run capture:fixture`
+  pool: {
+    poolAddress: string;
+    tickSpacing: number;
+    feeRate: number;
+    protocolFeeRate: number;
+    sqrtPrice: string;
+    liquidity: string;
+    tickCurrent: number;
+  };
+  ticks: { tickIndex: number; liquidityNet: string; liquidityGross: string }[];
+}
+
+interface ISwapCase {
+  amount: bigint;
+  aToB: boolean;
+  exactIn: boolean;
+}
+
+const CASES: ISwapCase[] = [
+  { amount: 1_000_000n, aToB: true, exactIn: true },
+  { amount: 25_000_000_000n, aToB: true, exactIn: true },
+  { amount: 500_000_000_000n, aToB: true, exactIn: true },
+  { amount: 20_000_000_000_000n, aToB: true, exactIn: true },
+  { amount: 1_000_000n, aToB: false, exactIn: true },
+  { amount: 5_000_000_000n, aToB: false, exactIn: true },
+  { amount: 80_000_000_000n, aToB: false, exactIn: true },
+  { amount: 5_000_000_000_000n, aToB: false, exactIn: true },
+  { amount: 1_000_000n, aToB: true, exactIn: false },
+  { amount: 3_000_000_000n, aToB: true, exactIn: false },
+  { amount: 40_000_000_000n, aToB: true, exactIn: false },
+  { amount: 2_000_000_000_000n, aToB: true, exactIn: false },
+  { amount: 1_000_000n, aToB: false, exactIn: false },
+  { amount: 20_000_000_000n, aToB: false, exactIn: false },
+  { amount: 300_000_000_000n, aToB: false, exactIn: false },
+  { amount: 15_000_000_000_000n, aToB: false, exactIn: false }
+];
+
+/**
+ * Rebuild the tick arrays spanning the fixture ticks, as whirlpools-core expects them
+ */
+function buildTickArrays(fixture: ISnapshotFixture): TickArrayFacade[] {
+  const span = fixture.pool.tickSpacing * TICK_ARRAY_SIZE;
+  const startOf = (tickIndex: number) => Math.floor(tickIndex / span) * span;
+  const byIndex = new Map(fixture.ticks.map(tick => [tick.tickIndex, tick]));
+  const first = startOf(Math.min(fixture.ticks[0].tickIndex, fixture.pool.tickCurrent));
+  const last = startOf(Math.max(fixture.ticks[fixture.ticks.length - 1].tickIndex, fixture.pool.tickCurrent));
+
+  const tickArrays: TickArrayFacade[] = [];
+  for (let startTickIndex = first; startTickIndex <= last; startTickIndex += span) {
+    const ticks = Array.from({ length: TICK_ARRAY_SIZE }, (_, i) => {
+      const tick = byIndex.get(startTickIndex + i * fixture.pool.tickSpacing);
+      return {
+        initialized: !!tick,
+        liquidityNet: tick ? BigInt(tick.liquidityNet) : 0n,
+        liquidityGross: tick ? BigInt(tick.liquidityGross) : 0n,
+        feeGrowthOutsideA: 0n,
+        feeGrowthOutsideB: 0n,
+        rewardGrowthsOutside: [0n, 0n, 0n]
+      };
+    });
+    tickArrays.push({ startTickIndex, ticks });
+  }
+  return tickArrays;
+}
+
+function testSwapSimulator() {
+  const fixture: ISnapshotFixture = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', 'whirlpool-snapshot.json'), 'utf8')
+  );
+  let failed = 0;
+
+  if (fixture.slot === undefined) {
+    logger.error('Fixture has no slot, it is not a chain capture: record one with npm run capture:fixture');
+    failed++;
+  } else {
+    logger.info(`Fixture captured at slot ${fixture.slot}`);
+  }
+
+  // Tick math must be bit-exact with the program over the full range
+  for (let tickIndex = MIN_TICK_INDEX; tickIndex <= MAX_TICK_INDEX; tickIndex++) {
+    if (tickIndexToSqrtPrice(tickIndex) !== coreTickIndexToSqrtPrice(tickIndex)) {
+      logger.error(`Sqrt price mismatch at tick ${tickIndex}`);
+      failed++;
+      break;
+    }
+  }
+
+  const pool = {
+    sqrtPrice: BigInt(fixture.pool.sqrtPrice),
+    liquidity: BigInt(fixture.pool.liquidity),
+    tickCurrent: fixture.pool.tickCurrent,
+    feeRate: fixture.pool.feeRate
+  };
+  const ticks = fixture.ticks.map(tick => ({ tickIndex: tick.tickIndex, liquidityNet: BigInt(tick.liquidityNet) }));
+  const whirlpool: WhirlpoolFacade = {
+    tickSpacing: fixture.pool.tickSpacing,
+    feeRate: fixture.pool.feeRate,
+    protocolFeeRate: fixture.pool.protocolFeeRate,
+    liquidity: pool.liquidity,
+    sqrtPrice: pool.sqrtPrice,
+    tickCurrentIndex: pool.tickCurrent,
+    feeGrowthGlobalA: 0n,
+    feeGrowthGlobalB: 0n,
+    rewardLastUpdatedTimestamp: 0n,
+    rewardInfos: Array.from({ length: 3 }, () => ({ emissionsPerSecondX64: 0n, growthGlobalX64: 0n }))
+  };
+  const tickArrays = buildTickArrays(fixture);
+
+  for (const swapCase of CASES) {
+    const label = `${swapCase.exactIn ? 'exact in' : 'exact out'} ${swapCase.aToB ? 'A->B' : 'B->A'} ${swapCase.amount}`;
+    const result = simulateSwap(pool, ticks, swapCase, POOLS['SOL/USDC']);
+
+    // The specified token is A when swapping A in or taking A out
+    const expected = swapCase.exactIn
+      ? (q => ({ amountIn: q.tokenIn, amountOut: q.tokenEstOut, feeAmount: q.tradeFee }))(
+        swapQuoteByInputToken(swapCase.amount, swapCase.aToB, 0, whirlpool, tickArrays))
+      : (q => ({ amountIn: q.tokenEstIn, amountOut: q.tokenOut, feeAmount: q.tradeFee }))(
+        swapQuoteByOutputToken(swapCase.amount, !swapCase.aToB, 0, whirlpool, tickArrays));
+
+    const matches = result.amountIn === expected.amountIn
+      && result.amountOut === expected.amountOut
+      && result.feeAmount === expected.feeAmount;
+
+    if (matches) {
+      logger.info(`${label}: in ${result.amountIn}, out ${result.amountOut}, fee ${result.feeAmount}, ` +
+        `end price ${result.endPrice.toFixed(4)}, ${result.ticksCrossed.length} ticks crossed`);
+    } else {
+      failed++;
+      logger.error(`${label}: simulated in ${result.amountIn} out ${result.amountOut} fee ${result.feeAmount}, ` +
+        `expected in ${expected.amountIn} out ${expected.amountOut} fee ${expected.feeAmount}`);
+    }
+  }
+
+  logger.info('\n=== Test Summary ===');
+  logger.info(`Swap cases: ${CASES.length}`);
+  logger.info(`Failed checks: ${failed}`);
+  return failed;
+}
+
+// Run the test
+const failures = testSwapSimulator();
+process.exit(failures > 0 ? 1 : 0);
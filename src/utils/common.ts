@@ -5,4 +5,10 @@
  */
 export const sleep = (ms: number): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
-}; 
\ No newline at end of file
+}; 
+/**
+ * JSON.stringify replacer that serializes bigint values as decimal strings
+ */
+export const bigintReplacer = (_key: string, value: unknown): unknown => {
+  return typeof value === 'bigint' ? value.toString() : value;
+};
@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { LOG_CONFIG } from '../config/constants';
 
 export const logger = winston.createLogger({
   level: 'debug',
@@ -21,4 +22,27 @@ export const logger = winston.createLogger({
       format: winston.format.uncolorize()
     })
   ]
-}); 
\ No newline at end of file
+});
+
+// Alert stream for detected arbitrage opportunities, one JSON object per line
+export const arbitrageLogger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [
+    new winston.transports.File({ filename: `logs/${LOG_CONFIG.FILENAME}` })
+  ]
+});
+
+/**
+ * Send console logs at `level` and above to stderr, keeping stdout for command output
+ * @param level Minimum level still printed
+ */
+export function redirectConsoleToStderr(level: string): void {
+  logger.transports
+    .filter(transport => transport instanceof winston.transports.Console)
+    .forEach(transport => logger.remove(transport));
+  logger.add(new winston.transports.Console({ level, stderrLevels: Object.keys(logger.levels) }));
+}
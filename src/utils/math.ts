@@ -0,0 +1,77 @@
+/**
+ * Fixed-point helpers for Whirlpool Q64.64 values
+ */
+export const Q64 = 1n << 64n;
+
+/**
+ * Convert a raw integer token amount into a decimal-adjusted number
+ * @param amount Raw amount in base units
+ * @param decimals Token decimals
+ * @returns Human-readable amount
+ */
+export function toDecimalAmount(amount: bigint, decimals: number): number {
+  const scale = 10n ** BigInt(decimals);
+  const whole = amount / scale;
+  const fraction = amount % scale;
+  return Number(whole) + Number(fraction) / Number(scale);
+}
+
+/**
+ * Compute the virtual reserves of the active liquidity range.
+ * x = L / sqrt(P) and y = L * sqrt(P), with sqrt(P) in Q64.64.
+ * @param liquidity Active liquidity (u128)
+ * @param sqrtPriceX64 Current sqrt price (Q64.64)
+ * @returns Raw virtual reserves of token A and token B
+ */
+export function getVirtualReserves(
+  liquidity: bigint,
+  sqrtPriceX64: bigint
+): { tokenA: bigint; tokenB: bigint } {
+  if (sqrtPriceX64 === 0n) {
+    return { tokenA: 0n, tokenB: 0n };
+  }
+  return {
+    tokenA: (liquidity * Q64) / sqrtPriceX64,
+    tokenB: (liquidity * sqrtPriceX64) / Q64,
+  };
+}
+
+/**
+ * Convert an on-chain integer (BN, bigint or number) to bigint without losing precision
+ * @param value Value to convert
+ * @returns Value as bigint, 0n when missing
+ */
+export function toBigInt(value: { toString(): string } | bigint | number | null | undefined): bigint {
+  if (value === undefined || value === null) return 0n;
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.trunc(value));
+  return BigInt(value.toString());
+}
+
+/**
+ * Parse a NUMERIC column returned by Postgres as a string into a bigint
+ * @param value Decimal string, fractional digits are truncated
+ * @returns Parsed value, 0n when NULL
+ */
+export function parseBigInt(value: string | null | undefined): bigint {
+  if (value === undefined || value === null || value === '') return 0n;
+  return BigInt(value.split('.')[0]);
+}
+
+/**
+ * Read a little-endian u128 from raw account data
+ * @param data Account data
+ * @param offset Byte offset
+ */
+export function readU128LE(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+/**
+ * Read a little-endian i128 from raw account data
+ * @param data Account data
+ * @param offset Byte offset
+ */
+export function readI128LE(data: Buffer, offset: number): bigint {
+  return BigInt.asIntN(128, readU128LE(data, offset));
+}
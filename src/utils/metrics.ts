@@ -0,0 +1,216 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * A named family of series, one per combination of label values
+ */
+export abstract class Metric<TSeries> {
+  protected series: Map<string, { labels: MetricLabels; value: TSeries }> = new Map();
+  public abstract readonly type: MetricType;
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[] = []
+  ) {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name ${name}`);
+    }
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Lines of the text exposition format, HELP and TYPE first
+   */
+  public render(): string[] {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return [
+      `# HELP ${this.name} ${help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...[...this.series.values()].flatMap(({ labels, value }) => this.renderSeries(labels, value))
+    ];
+  }
+
+  protected abstract renderSeries(labels: MetricLabels, value: TSeries): string[];
+
+  protected abstract initialValue(): TSeries;
+
+  protected getSeries(labels: MetricLabels): { labels: MetricLabels; value: TSeries } {
+    const names = Object.keys(labels);
+    if (names.length !== this.labelNames.length || names.some(name => !this.labelNames.includes(name))) {
+      throw new Error(`${this.name} expects labels ${this.labelNames.join(', ') || '(none)'}, got ${names.join(', ') || '(none)'}`);
+    }
+
+    // Label order is fixed by labelNames so the same values always map to the same series
+    const ordered: MetricLabels = Object.fromEntries(this.labelNames.map(name => [name, labels[name]]));
+    const key = JSON.stringify(this.labelNames.map(name => labels[name]));
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: ordered, value: this.initialValue() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+export class Counter extends Metric<number> {
+  public readonly type = 'counter';
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`${this.name} can only increase`);
+    }
+    this.getSeries(labels).value += value;
+  }
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatNumber(value)}`];
+  }
+}
+
+export class Gauge extends Metric<number> {
+  public readonly type = 'gauge';
+  private collector: ((gauge: Gauge) => void) | null = null;
+
+  public set(labels: MetricLabels, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+
+  public inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  /**
+   * Refresh the gauge from a callback on every scrape, for values that are read rather than recorded
+   */
+  public onCollect(collector: (gauge: Gauge) => void): void {
+    this.collector = collector;
+  }
+
+  public render(): string[] {
+    this.collector?.(this);
+    return super.render();
+  }
+
+  protected initialValue(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatNumber(value)}`];
+  }
+}
+
+interface IHistogramValue {
+  counts: number[]; // per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<IHistogramValue> {
+  public readonly type = 'histogram';
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    if (labelNames.includes('le')) {
+      throw new Error(`${name} cannot use the reserved label le`);
+    }
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const series = this.getSeries(labels).value;
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing, the returned function observes the elapsed seconds and returns them
+   */
+  public startTimer(labels: MetricLabels = {}): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  protected initialValue(): IHistogramValue {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: MetricLabels, value: IHistogramValue): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, i) => {
+      cumulative += value.counts[i];
+      return `${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`;
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Metrics rendered together in the Prometheus text exposition format (version 0.0.4)
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<any>> = new Map();
+
+  public counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  public gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  public histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  public render(): string {
+    return `${[...this.metrics.values()].flatMap(metric => metric.render()).join('\n')}\n`;
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+const FILE_PATTERN = /^(\d+)_(\w+)\.sql$/;
+const NO_TRANSACTION = /^--\s*migrate:no-transaction\s*$/m;
+
+export interface IMigration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string; // sha256 of the file, an applied migration must not change
+  transactional: boolean; // false for files marked `-- migrate:no-transaction`
+}
+
+/**
+ * Read `<version>_<name>.sql` files from a directory, ordered by version
+ * @param directory Migrations directory
+ */
+export function loadMigrations(directory: string): IMigration[] {
+  const migrations = fs.readdirSync(directory)
+    .filter(file => file.endsWith('.sql'))
+    .map(file => {
+      const match = FILE_PATTERN.exec(file);
+      if (!match) {
+        throw new Error(`Invalid migration file name ${file}, expected <version>_<name>.sql`);
+      }
+      const sql = fs.readFileSync(path.join(directory, file), 'utf8');
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        sql,
+        checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+        transactional: !NO_TRANSACTION.test(sql)
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+  return migrations;
+}
+
+/**
+ * Split a migration into statements for files that cannot run as one transaction.
+ * Statements must end with a semicolon at the end of a line.
+ */
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split(/;[ \t]*(?:--[^\n]*)?$/m)
+    .map(statement => statement.replace(/^\s*--[^\n]*$/gm, '').trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,315 @@
+import fs from 'fs';
+
+/**
+ * Minimal Parquet writer: optional flat columns, one uncompressed PLAIN data page
+ * per column chunk, a row group per flush. Enough for pandas, polars, DuckDB and
+ * Spark to read exports without pulling in a Parquet dependency.
+ * Format: https://github.com/apache/parquet-format
+ */
+
+export type ParquetColumnType = 'string' | 'double' | 'int32' | 'int64' | 'timestamp';
+
+export interface IParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+export type ParquetValue = string | number | bigint | Date | null | undefined;
+
+const MAGIC = Buffer.from('PAR1');
+
+// parquet.thrift enums
+const PHYSICAL_TYPES: Record<ParquetColumnType, number> = { string: 6, double: 5, int32: 1, int64: 2, timestamp: 2 };
+const CONVERTED_TYPES: Partial<Record<ParquetColumnType, number>> = { string: 0, timestamp: 9 }; // UTF8, TIMESTAMP_MILLIS
+const REPETITION_OPTIONAL = 1;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+// Thrift compact protocol type ids
+const T_I32 = 5;
+const T_I64 = 6;
+const T_BINARY = 8;
+const T_LIST = 9;
+const T_STRUCT = 12;
+
+/**
+ * Thrift compact protocol encoder for the few shapes parquet.thrift needs
+ */
+class CompactWriter {
+  private bytes: number[] = [];
+  private lastFieldIds: number[] = [0];
+
+  public i32(id: number, value: number): this {
+    this.fieldHeader(id, T_I32);
+    this.varint(zigzag(value));
+    return this;
+  }
+
+  public i64(id: number, value: number | bigint): this {
+    this.fieldHeader(id, T_I64);
+    this.varint(zigzag(value));
+    return this;
+  }
+
+  public string(id: number, value: string): this {
+    this.fieldHeader(id, T_BINARY);
+    this.binary(value);
+    return this;
+  }
+
+  public struct(id: number, write: (writer: this) => void): this {
+    this.fieldHeader(id, T_STRUCT);
+    this.structBody(write);
+    return this;
+  }
+
+  public structList<T>(id: number, items: T[], write: (writer: this, item: T) => void): this {
+    this.fieldHeader(id, T_LIST);
+    this.listHeader(items.length, T_STRUCT);
+    items.forEach(item => this.structBody(writer => write(writer, item)));
+    return this;
+  }
+
+  public i32List(id: number, items: number[]): this {
+    this.fieldHeader(id, T_LIST);
+    this.listHeader(items.length, T_I32);
+    items.forEach(item => this.varint(zigzag(item)));
+    return this;
+  }
+
+  public stringList(id: number, items: string[]): this {
+    this.fieldHeader(id, T_LIST);
+    this.listHeader(items.length, T_BINARY);
+    items.forEach(item => this.binary(item));
+    return this;
+  }
+
+  /**
+   * Encode a top-level struct
+   */
+  public static encode(write: (writer: CompactWriter) => void): Buffer {
+    const writer = new CompactWriter();
+    write(writer);
+    writer.bytes.push(0); // stop field
+    return Buffer.from(writer.bytes);
+  }
+
+  private structBody(write: (writer: this) => void): void {
+    this.lastFieldIds.push(0);
+    write(this);
+    this.bytes.push(0);
+    this.lastFieldIds.pop();
+  }
+
+  private fieldHeader(id: number, type: number): void {
+    const delta = id - this.lastFieldIds[this.lastFieldIds.length - 1];
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type);
+    } else {
+      this.bytes.push(type);
+      this.varint(zigzag(id));
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  private listHeader(size: number, type: number): void {
+    if (size < 15) {
+      this.bytes.push((size << 4) | type);
+    } else {
+      this.bytes.push(0xf0 | type);
+      this.varint(BigInt(size));
+    }
+  }
+
+  private binary(value: string): void {
+    const data = Buffer.from(value, 'utf8');
+    this.varint(BigInt(data.length));
+    for (const byte of data) this.bytes.push(byte);
+  }
+
+  private varint(value: bigint): void {
+    while (value >= 0x80n) {
+      this.bytes.push(Number(value & 0x7fn) | 0x80);
+      value >>= 7n;
+    }
+    this.bytes.push(Number(value));
+  }
+}
+
+function zigzag(value: number | bigint): bigint {
+  const v = BigInt(value);
+  return v >= 0n ? v << 1n : ((-v) << 1n) - 1n;
+}
+
+interface IColumnChunk {
+  column: IParquetColumn;
+  numValues: number;
+  offset: number;
+  size: number;
+}
+
+interface IRowGroup {
+  chunks: IColumnChunk[];
+  numRows: number;
+  size: number;
+}
+
+export class ParquetWriter {
+  private fd: number;
+  private offset: number = 0;
+  private rowGroups: IRowGroup[] = [];
+  private buffered: ParquetValue[][] = [];
+
+  /**
+   * @param path Output file, truncated
+   * @param columns Flat schema, every column optional
+   * @param rowGroupSize Rows buffered before a row group is written
+   */
+  constructor(path: string, private readonly columns: IParquetColumn[], private readonly rowGroupSize: number) {
+    this.fd = fs.openSync(path, 'w');
+    this.write(MAGIC);
+  }
+
+  /**
+   * Buffer rows, values in column order, flushing full row groups
+   */
+  public writeRows(rows: ParquetValue[][]): void {
+    this.buffered.push(...rows);
+    while (this.buffered.length >= this.rowGroupSize) {
+      this.writeRowGroup(this.buffered.splice(0, this.rowGroupSize));
+    }
+  }
+
+  /**
+   * Flush remaining rows and write the footer
+   */
+  public close(): void {
+    if (this.buffered.length) {
+      this.writeRowGroup(this.buffered.splice(0));
+    }
+
+    const metadata = CompactWriter.encode(writer => writer
+      .i32(1, 1)
+      .structList(2, [null, ...this.columns], (schema, column) => {
+        if (!column) {
+          schema.string(4, 'schema').i32(5, this.columns.length);
+          return;
+        }
+        schema.i32(1, PHYSICAL_TYPES[column.type]).i32(3, REPETITION_OPTIONAL).string(4, column.name);
+        if (CONVERTED_TYPES[column.type] !== undefined) {
+          schema.i32(6, CONVERTED_TYPES[column.type]!);
+        }
+      })
+      .i64(3, this.rowGroups.reduce((sum, group) => sum + group.numRows, 0))
+      .structList(4, this.rowGroups, (group, rowGroup) => group
+        .structList(1, rowGroup.chunks, (chunk, columnChunk) => chunk
+          .i64(2, columnChunk.offset)
+          .struct(3, meta => meta
+            .i32(1, PHYSICAL_TYPES[columnChunk.column.type])
+            .i32List(2, [ENCODING_PLAIN, ENCODING_RLE])
+            .stringList(3, [columnChunk.column.name])
+            .i32(4, CODEC_UNCOMPRESSED)
+            .i64(5, columnChunk.numValues)
+            .i64(6, columnChunk.size)
+            .i64(7, columnChunk.size)
+            .i64(9, columnChunk.offset)))
+        .i64(2, rowGroup.size)
+        .i64(3, rowGroup.numRows))
+      .string(6, 'solana-dashboard'));
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(metadata.length);
+    this.write(Buffer.concat([metadata, length, MAGIC]));
+    fs.closeSync(this.fd);
+  }
+
+  private writeRowGroup(rows: ParquetValue[][]): void {
+    const chunks = this.columns.map((column, i) => {
+      const values = rows.map(row => row[i]);
+      const page = Buffer.concat([this.encodeDefinitionLevels(values), this.encodeValues(column, values)]);
+      const header = CompactWriter.encode(writer => writer
+        .i32(1, PAGE_TYPE_DATA)
+        .i32(2, page.length)
+        .i32(3, page.length)
+        .struct(5, dataPage => dataPage
+          .i32(1, values.length)
+          .i32(2, ENCODING_PLAIN)
+          .i32(3, ENCODING_RLE)
+          .i32(4, ENCODING_RLE)));
+
+      const chunk: IColumnChunk = { column, numValues: values.length, offset: this.offset, size: header.length + page.length };
+      this.write(Buffer.concat([header, page]));
+      return chunk;
+    });
+
+    this.rowGroups.push({ chunks, numRows: rows.length, size: chunks.reduce((sum, chunk) => sum + chunk.size, 0) });
+  }
+
+  /**
+   * Definition levels (1 = present) as RLE runs, length-prefixed
+   */
+  private encodeDefinitionLevels(values: ParquetValue[]): Buffer {
+    const bytes: number[] = [];
+    let i = 0;
+    while (i < values.length) {
+      const level = isPresent(values[i]) ? 1 : 0;
+      let run = 1;
+      while (i + run < values.length && (isPresent(values[i + run]) ? 1 : 0) === level) run++;
+
+      let header = run << 1;
+      while (header >= 0x80) {
+        bytes.push((header & 0x7f) | 0x80);
+        header >>>= 7;
+      }
+      bytes.push(header, level);
+      i += run;
+    }
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(bytes.length);
+    return Buffer.concat([length, Buffer.from(bytes)]);
+  }
+
+  private encodeValues(column: IParquetColumn, values: ParquetValue[]): Buffer {
+    const present = values.filter(isPresent);
+
+    switch (column.type) {
+      case 'string':
+        return Buffer.concat(present.flatMap(value => {
+          const data = Buffer.from(String(value), 'utf8');
+          const length = Buffer.alloc(4);
+          length.writeUInt32LE(data.length);
+          return [length, data];
+        }));
+      case 'double': {
+        const buffer = Buffer.alloc(present.length * 8);
+        present.forEach((value, i) => buffer.writeDoubleLE(Number(value), i * 8));
+        return buffer;
+      }
+      case 'int32': {
+        const buffer = Buffer.alloc(present.length * 4);
+        present.forEach((value, i) => buffer.writeInt32LE(Number(value), i * 4));
+        return buffer;
+      }
+      case 'int64':
+      case 'timestamp': {
+        const buffer = Buffer.alloc(present.length * 8);
+        present.forEach((value, i) => buffer.writeBigInt64LE(
+          value instanceof Date ? BigInt(value.getTime()) : BigInt(value as number | bigint), i * 8
+        ));
+        return buffer;
+      }
+    }
+  }
+
+  private write(data: Buffer): void {
+    fs.writeSync(this.fd, data);
+    this.offset += data.length;
+  }
+}
+
+function isPresent(value: ParquetValue): boolean {
+  return value !== null && value !== undefined && !(typeof value === 'number' && isNaN(value));
+}
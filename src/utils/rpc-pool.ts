@@ -0,0 +1,467 @@
+import {
+  createDefaultRpcTransport,
+  isSolanaError,
+  RpcTransport,
+  RpcTransportMainnet,
+  SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR
+} from '@solana/kit';
+import { IRpcEndpointConfig, RPC_CONFIG } from '../config/constants';
+import { sleep } from './common';
+import { logger } from './logger';
+
+// HTTP statuses worth retrying, on another endpoint when there is one
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+// JSON-RPC errors of a node that is busy or behind: internal error, block not available,
+// node unhealthy, block status not available yet, min context slot not reached, rate limited
+const RETRYABLE_RPC_CODES = new Set([-32603, -32004, -32005, -32014, -32016, 429]);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+]);
+
+export class RpcError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly statusCode?: number,
+    public readonly retryAfter?: number // ms the endpoint asked to be left alone
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * Hooks the service layer installs to instrument RPC traffic, e.g. with metrics
+ */
+export interface IRpcInstrumentation {
+  onRequest(method: string, endpoint: string): void;
+  onError(method: string, endpoint: string, retryable: boolean, statusCode?: number): void;
+}
+
+export interface IRpcEndpointStatus {
+  name: string;
+  weight: number;
+  rateLimit: number;
+  healthy: boolean;
+  failures: number; // consecutive retryable failures
+  requests: number;
+  errors: number;
+}
+
+interface IRpcEndpoint extends IRpcEndpointConfig {
+  name: string; // host only, URLs often carry API keys
+  bucket: TokenBucket;
+  transport: RpcTransport;
+  failures: number;
+  unhealthyUntil: number;
+  requests: number;
+  errors: number;
+}
+
+/**
+ * Requests per second with bursts of up to one second's worth. Waiters are served in order.
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly rate: number, private readonly capacity: number = Math.max(1, rate)) {
+    this.tokens = capacity;
+  }
+
+  public available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  public take(): Promise<void> {
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) * 1000) / this.rate);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next;
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.rate) / 1000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Whether a failed RPC request may succeed if sent again: rate limits, server errors,
+ * nodes that are behind, timeouts and dropped connections. Anything else is fatal.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RpcError) {
+    return error.retryable;
+  }
+  if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+    return RETRYABLE_STATUS_CODES.has(error.context.statusCode);
+  }
+
+  const { name, code, cause } = (error ?? {}) as { name?: string; code?: string; cause?: { code?: string } };
+  if (name === 'TimeoutError') {
+    return true;
+  }
+  if (NETWORK_ERROR_CODES.has(code ?? '') || NETWORK_ERROR_CODES.has(cause?.code ?? '')) {
+    return true;
+  }
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+/**
+ * Delay before retrying after attempt `attempt` (0-based): exponential from RETRY_DELAY up to
+ * MAX_BACKOFF, jittered between half and all of it so failed clients don't retry in lockstep
+ */
+export function getBackoffDelay(attempt: number): number {
+  const ceiling = RPC_CONFIG.EXPONENTIAL_BACKOFF
+    ? Math.min(RPC_CONFIG.MAX_BACKOFF, RPC_CONFIG.RETRY_DELAY * 2 ** attempt)
+    : RPC_CONFIG.RETRY_DELAY;
+  return ceiling / 2 + (Math.random() * ceiling) / 2;
+}
+
+/**
+ * Retry retryable errors with exponential backoff, rethrow fatal ones immediately
+ * @param fn Operation, given the 0-based attempt
+ * @param maxRetries Attempts before the last error is thrown
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  maxRetries: number = RPC_CONFIG.MAX_RETRIES
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= maxRetries - 1 || !isRetryableError(error)) {
+        throw error;
+      }
+      await sleep(getBackoffDelay(attempt));
+    }
+  }
+}
+
+/**
+ * Milliseconds from a Retry-After header, seconds or an HTTP date
+ */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  const value = headers?.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  const ms = isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+  return isNaN(ms) ? undefined : Math.max(0, ms);
+}
+
+/**
+ * JSON-RPC errors in a response or batch of responses, retryable ones first.
+ * Kit transports parse the code as a bigint.
+ */
+function findRpcError(response: unknown): { code: number; message: string; retryable: boolean } | undefined {
+  const responses = Array.isArray(response) ? response : [response];
+  const errors = responses
+    .map(item => (item as { error?: { code: number | bigint; message: string } } | null)?.error)
+    .filter(error => error)
+    .map(error => ({ code: Number(error!.code), message: error!.message, retryable: RETRYABLE_RPC_CODES.has(Number(error!.code)) }));
+  return errors.find(error => error.retryable) ?? errors[0];
+}
+
+/**
+ * Method of a JSON-RPC request for metrics, `batch` for several
+ */
+function getRpcMethod(payload: unknown): string {
+  if (Array.isArray(payload)) return 'batch';
+  const method = (payload as { method?: unknown } | null)?.method;
+  return typeof method === 'string' ? method : 'unknown';
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  if (error instanceof RpcError) return error.statusCode;
+  if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) return error.context.statusCode;
+  return undefined;
+}
+
+/**
+ * Abort signal for one attempt: aborts on the caller's signal or after RPC_CONFIG.TIMEOUT.
+ * Merged by hand as AbortSignal.any needs Node 20.3. Call `cleanup` once the attempt is
+ * done to clear the timer and the listener on the caller's signal.
+ */
+function combineSignals(signal: AbortSignal | null | undefined): { signal: AbortSignal; cleanup: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new RpcError(`RPC request timed out after ${RPC_CONFIG.TIMEOUT}ms`, true)),
+    RPC_CONFIG.TIMEOUT
+  );
+  const abort = () => {
+    clearTimeout(timer);
+    controller.abort(signal?.reason);
+  };
+
+  if (signal?.aborted) {
+    abort();
+  } else {
+    signal?.addEventListener('abort', abort, { once: true });
+  }
+  return {
+    signal: controller.signal,
+    cleanup: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+}
+
+export class RpcPool {
+  private static instance: RpcPool;
+  private endpoints: IRpcEndpoint[];
+  private instrumentation: IRpcInstrumentation | null = null;
+
+  private constructor(configs: IRpcEndpointConfig[] = RPC_CONFIG.ENDPOINTS) {
+    this.endpoints = configs.map(config => {
+      let name: string;
+      try {
+        name = new URL(config.url).host;
+      } catch {
+        throw new Error(`Invalid RPC endpoint URL ${config.url}`);
+      }
+      if (!(config.weight > 0) || !(config.rateLimit > 0)) {
+        throw new Error(`RPC endpoint ${name} needs a positive weight and rate limit`);
+      }
+      return {
+        ...config,
+        name,
+        bucket: new TokenBucket(config.rateLimit),
+        transport: createDefaultRpcTransport({ url: config.url }),
+        failures: 0,
+        unhealthyUntil: 0,
+        requests: 0,
+        errors: 0
+      };
+    });
+    if (!this.endpoints.length) {
+      throw new Error('No RPC endpoints configured');
+    }
+  }
+
+  public static getInstance(): RpcPool {
+    if (!RpcPool.instance) {
+      RpcPool.instance = new RpcPool();
+    }
+    return RpcPool.instance;
+  }
+
+  /**
+   * URL a Connection is created with, websockets connect to it unless WS_URL is set
+   */
+  public get primaryUrl(): string {
+    return this.endpoints[0].url;
+  }
+
+  /**
+   * `fetch` for a web3.js Connection: the request goes to whichever endpoint the pool picks
+   */
+  public fetch(init?: RequestInit): Promise<Response> {
+    let method = 'unknown';
+    try {
+      method = getRpcMethod(JSON.parse(String(init?.body)));
+    } catch {
+      // Only labels the metrics
+    }
+
+    return this.execute(method, async endpoint => {
+      const { signal, cleanup } = combineSignals(init?.signal);
+      try {
+        const response = await fetch(endpoint.url, { ...init, signal });
+        // Read the body whatever the status so the connection is released
+        const body = await response.text();
+        if (!response.ok) {
+          if (RETRYABLE_STATUS_CODES.has(response.status)) {
+            throw new RpcError(
+              `${endpoint.name} responded ${response.status} ${response.statusText}`,
+              true,
+              response.status,
+              parseRetryAfter(response.headers)
+            );
+          }
+          // Connection reports the status itself
+          this.instrumentation?.onError(method, endpoint.name, false, response.status);
+        } else if (body.includes('"error"')) {
+          let parsed: unknown = null;
+          try {
+            parsed = JSON.parse(body);
+          } catch {
+            // Connection reports malformed responses itself
+          }
+          this.checkRpcError(method, endpoint, parsed, response.status);
+        }
+        return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+      } finally {
+        cleanup();
+      }
+    });
+  }
+
+  /**
+   * Transport for a `@solana/kit` rpc that goes through the pool
+   */
+  public getTransport(): RpcTransportMainnet {
+    const transport: RpcTransport = config => {
+      const method = getRpcMethod(config.payload);
+      return this.execute(method, async endpoint => {
+        const { signal, cleanup } = combineSignals(config.signal);
+        try {
+          const response = await endpoint.transport<unknown>({ ...config, signal });
+          this.checkRpcError(method, endpoint, response);
+          return response as never;
+        } finally {
+          cleanup();
+        }
+      });
+    };
+    return transport as RpcTransportMainnet;
+  }
+
+  /**
+   * Report every attempt and failure to the given hooks
+   */
+  public instrument(instrumentation: IRpcInstrumentation): void {
+    this.instrumentation = instrumentation;
+  }
+
+  /**
+   * Health and request counts of every endpoint
+   */
+  public getStatus(): IRpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      name: endpoint.name,
+      weight: endpoint.weight,
+      rateLimit: endpoint.rateLimit,
+      healthy: endpoint.unhealthyUntil <= now,
+      failures: endpoint.failures,
+      requests: endpoint.requests,
+      errors: endpoint.errors
+    }));
+  }
+
+  /**
+   * Send a request to a healthy endpoint, retrying retryable failures on the others
+   * with backoff. Every attempt waits for a token from its endpoint's bucket.
+   * @param method RPC method, for metrics
+   * @param request Sends the request to one endpoint
+   */
+  private async execute<T>(method: string, request: (endpoint: IRpcEndpoint) => Promise<T>): Promise<T> {
+    const tried = new Set<IRpcEndpoint>();
+
+    return withRetry(async () => {
+      const endpoint = this.selectEndpoint(tried);
+      tried.add(endpoint);
+
+      // Every endpoint is cooling down, give this one part of its cooldown
+      const cooldown = endpoint.unhealthyUntil - Date.now();
+      if (cooldown > 0) {
+        await sleep(Math.min(cooldown, RPC_CONFIG.MAX_BACKOFF));
+      }
+
+      await endpoint.bucket.take();
+      endpoint.requests++;
+      this.instrumentation?.onRequest(method, endpoint.name);
+      try {
+        const result = await request(endpoint);
+        this.markSuccess(endpoint);
+        return result;
+      } catch (error) {
+        this.instrumentation?.onError(method, endpoint.name, isRetryableError(error), getStatusCode(error));
+        this.markFailure(endpoint, error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Weighted pick among healthy endpoints not yet tried for this request, preferring
+   * ones with a token to spare. When every endpoint is cooling down, the first to recover.
+   */
+  private selectEndpoint(tried: Set<IRpcEndpoint>): IRpcEndpoint {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(endpoint => endpoint.unhealthyUntil <= now);
+    if (!healthy.length) {
+      return this.endpoints.reduce((first, endpoint) => endpoint.unhealthyUntil < first.unhealthyUntil ? endpoint : first);
+    }
+
+    const untried = healthy.filter(endpoint => !tried.has(endpoint));
+    const candidates = untried.length ? untried : healthy;
+    const ready = candidates.filter(endpoint => endpoint.bucket.available() >= 1);
+    const pool = ready.length ? ready : candidates;
+
+    let pick = Math.random() * pool.reduce((sum, endpoint) => sum + endpoint.weight, 0);
+    for (const endpoint of pool) {
+      pick -= endpoint.weight;
+      if (pick < 0) return endpoint;
+    }
+    return pool[pool.length - 1];
+  }
+
+  /**
+   * Throw retryable JSON-RPC errors so the request is retried, count fatal ones that are
+   * returned to the caller
+   */
+  private checkRpcError(method: string, endpoint: IRpcEndpoint, response: unknown, status?: number): void {
+    const error = findRpcError(response);
+    if (!error) return;
+
+    if (error.retryable) {
+      // A JSON-RPC 429 is a rate limit like the HTTP one
+      throw new RpcError(`${endpoint.name} returned RPC error ${error.code}: ${error.message}`, true, error.code === 429 ? 429 : status);
+    }
+    this.instrumentation?.onError(method, endpoint.name, false, status);
+  }
+
+  private markSuccess(endpoint: IRpcEndpoint): void {
+    if (endpoint.failures) {
+      logger.info(`RPC endpoint ${endpoint.name} recovered after ${endpoint.failures} failures`);
+    }
+    endpoint.failures = 0;
+    endpoint.unhealthyUntil = 0;
+  }
+
+  /**
+   * Take an endpoint out of rotation after a retryable failure, for longer each time it
+   * fails in a row. Fatal errors are the request's fault and leave its health alone.
+   */
+  private markFailure(endpoint: IRpcEndpoint, error: unknown): void {
+    endpoint.errors++;
+    if (!isRetryableError(error)) return;
+
+    endpoint.failures++;
+    const retryAfter = error instanceof RpcError
+      ? error.retryAfter
+      : isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR) ? parseRetryAfter(error.context.headers) : undefined;
+    const cooldown = Math.max(
+      Math.min(RPC_CONFIG.MAX_ENDPOINT_COOLDOWN, RPC_CONFIG.ENDPOINT_COOLDOWN * 2 ** (endpoint.failures - 1)),
+      retryAfter ?? 0
+    );
+    endpoint.unhealthyUntil = Date.now() + cooldown;
+    logger.warn(`RPC endpoint ${endpoint.name} failed (${(error as Error).message}), skipping it for ${Math.round(cooldown / 1000)}s`);
+  }
+}
+
+// Export singleton instance
+export const rpcPool = RpcPool.getInstance();
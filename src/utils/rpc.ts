@@ -1,45 +1,39 @@
-import { Connection } from '@solana/web3.js';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { createSolanaRpcFromTransport, RpcTransportMainnet } from '@solana/kit';
 import { RPC_CONFIG } from '../config/constants';
+import { rpcPool } from './rpc-pool';
 
 let connection: Connection | null = null;
+let rpc: ReturnType<typeof createSolanaRpcFromTransport<RpcTransportMainnet>> | null = null;
+
+/**
+ * Create a new connection, e.g. to replace one whose websocket has dropped.
+ * HTTP requests go through the RPC pool, subscriptions use WS_URL.
+ */
+export function createConnection(): Connection {
+  return new Connection(rpcPool.primaryUrl, {
+    commitment: 'confirmed',
+    wsEndpoint: RPC_CONFIG.WS_URL,
+    fetch: (_input, init) => rpcPool.fetch(init),
+    disableRetryOnRateLimit: true // the pool backs off and fails over instead
+  });
+}
 
 export function getConnection(): Connection {
   if (!connection) {
-    connection = new Connection(
-      process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-      { commitment: 'confirmed' }
-    );
+    connection = createConnection();
   }
   return connection;
 }
 
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = RPC_CONFIG.MAX_RETRIES,
-  delay: number = RPC_CONFIG.RETRY_DELAY
-): Promise<T> {
-  let lastError: Error | null = null;
-  
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
-      if (i < maxRetries - 1) {
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
+/**
+ * `@solana/kit` rpc whose requests go through the RPC pool
+ */
+export function getRpc(): ReturnType<typeof createSolanaRpcFromTransport<RpcTransportMainnet>> {
+  if (!rpc) {
+    rpc = createSolanaRpcFromTransport(rpcPool.getTransport());
   }
-
-  throw lastError;
-}
-
-export async function withRateLimit<T>(
-  fn: () => Promise<T>,
-  delay: number = RPC_CONFIG.RATE_LIMIT_DELAY
-): Promise<T> {
-  await new Promise(resolve => setTimeout(resolve, delay));
-  return fn();
+  return rpc;
 }
 
 export async function batchRequest<T>(
@@ -47,14 +41,35 @@ export async function batchRequest<T>(
   batchSize: number = RPC_CONFIG.BATCH_SIZE
 ): Promise<T[]> {
   const results: T[] = [];
-  
+
   for (let i = 0; i < requests.length; i += batchSize) {
     const batch = requests.slice(i, i + batchSize);
-    const batchResults = await Promise.all(
-      batch.map(request => withRetry(request))
-    );
+    const batchResults = await Promise.all(batch.map(request => request()));
     results.push(...batchResults);
   }
 
   return results;
-} 
\ No newline at end of file
+}
+
+/**
+ * Fetch many accounts with as few getMultipleAccountsInfo calls as possible.
+ * Keys are deduplicated and split into chunks of the RPC maximum; the RPC pool
+ * rate limits and retries each chunk.
+ * @param keys Account addresses to fetch
+ * @returns Account info keyed by base58 address, null for missing accounts
+ */
+export async function fetchMultipleAccounts(
+  keys: PublicKey[],
+  chunkSize: number = RPC_CONFIG.MAX_ACCOUNTS_PER_REQUEST
+): Promise<Map<string, AccountInfo<Buffer> | null>> {
+  const uniqueKeys = [...new Map(keys.map(key => [key.toBase58(), key])).values()];
+  const accounts = new Map<string, AccountInfo<Buffer> | null>();
+
+  for (let i = 0; i < uniqueKeys.length; i += chunkSize) {
+    const chunk = uniqueKeys.slice(i, i + chunkSize);
+    const infos = await getConnection().getMultipleAccountsInfo(chunk);
+    chunk.forEach((key, index) => accounts.set(key.toBase58(), infos[index]));
+  }
+
+  return accounts;
+}
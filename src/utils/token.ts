@@ -0,0 +1,46 @@
+import { PublicKey } from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+// SPL token account layout: mint (32) + owner (32) + amount (u64)
+const TOKEN_ACCOUNT_MINT_OFFSET = 0;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+// SPL mint layout: mint authority option (36) + supply (u64) + decimals (u8)
+const MINT_DECIMALS_OFFSET = 44;
+
+/**
+ * Decode the raw amount held by an SPL token account
+ * @param data Raw account data
+ * @returns Token amount in base units
+ */
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  if (data.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    throw new Error(`Invalid token account data length: ${data.length}`);
+  }
+  return data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Decode the mint of an SPL (or Token-2022) token account
+ * @param data Raw account data
+ * @returns Mint address
+ */
+export function decodeTokenAccountMint(data: Buffer): PublicKey {
+  if (data.length < TOKEN_ACCOUNT_MINT_OFFSET + 32) {
+    throw new Error(`Invalid token account data length: ${data.length}`);
+  }
+  return new PublicKey(data.subarray(TOKEN_ACCOUNT_MINT_OFFSET, TOKEN_ACCOUNT_MINT_OFFSET + 32));
+}
+
+/**
+ * Decode the decimals of an SPL (or Token-2022) mint account
+ * @param data Raw account data
+ * @returns Mint decimals
+ */
+export function decodeMintDecimals(data: Buffer): number {
+  if (data.length < MINT_DECIMALS_OFFSET + 1) {
+    throw new Error(`Invalid mint account data length: ${data.length}`);
+  }
+  return data.readUInt8(MINT_DECIMALS_OFFSET);
+}